@@ -3,14 +3,15 @@ import './App.css';
 import { UpsertPanel } from './components/UpsertPanel';
 import { DeletePanel } from './components/DeletePanel';
 import { ComparePanel } from './components/ComparePanel';
+import { MergePanel } from './components/MergePanel';
 import { CleanPanel } from './components/CleanPanel';
 import { ValidationPanel } from './components/ValidationPanel';
 import { ToastProvider } from './components/ui/Toast';
 import { ErrorBoundary } from './components/ui/ErrorBoundary';
 import { Footer } from './components/ui/Footer';
-import { ArrowUpDown, Trash2, GitCompare, Sun, Moon, Sparkles, ShieldCheck } from 'lucide-react';
+import { ArrowUpDown, Trash2, GitCompare, GitMerge, Sun, Moon, Sparkles, ShieldCheck } from 'lucide-react';
 
-type Tool = 'upsert' | 'delete' | 'compare' | 'clean' | 'validate';
+type Tool = 'upsert' | 'delete' | 'compare' | 'merge' | 'clean' | 'validate';
 
 const tools = [
     { id: 'upsert' as Tool, label: 'Upsert', icon: ArrowUpDown, description: 'Update & insert rows' },
@@ -18,6 +19,7 @@ const tools = [
     { id: 'clean' as Tool, label: 'Clean', icon: Sparkles, description: 'Fix & standardize data' },
     { id: 'validate' as Tool, label: 'Validate', icon: ShieldCheck, description: 'Check data quality rules' },
     { id: 'compare' as Tool, label: 'Compare', icon: GitCompare, description: 'Diff two CSV files' },
+    { id: 'merge' as Tool, label: 'Merge', icon: GitMerge, description: 'Three-way merge of two edited copies' },
 ];
 
 function App() {
@@ -79,6 +81,7 @@ function App() {
                             {activeTool === 'clean' && <CleanPanel />}
                             {activeTool === 'validate' && <ValidationPanel />}
                             {activeTool === 'compare' && <ComparePanel />}
+                            {activeTool === 'merge' && <MergePanel />}
                         </ErrorBoundary>
                     </div>
                 </main>
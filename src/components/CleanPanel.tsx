@@ -1,5 +1,5 @@
-import { useState, useMemo } from 'react';
-import { Sparkles, Eye, Copy, RotateCcw, Trash2, Type, Filter, Search, Split, Merge } from 'lucide-react';
+import { useState } from 'react';
+import { Sparkles, Eye, Download, RotateCcw, Trash2, Type, Filter, Search, Split, Merge } from 'lucide-react';
 import { Card } from './ui/Card';
 import { DropZone } from './ui/DropZone';
 import { Button } from './ui/Button';
@@ -7,33 +7,22 @@ import { ColumnPicker } from './ui/ColumnPicker';
 import { Table } from './ui/Table';
 import { HelpTooltip } from './ui/HelpTooltip';
 import { useToast } from './ui/Toast';
-import { parseCSVFile, formatPreservingExport } from '../lib/csv';
-import {
-
-    handleMissingValues,
-    standardizeText,
-    removeDuplicates,
-    trimAllColumns,
-    findAndReplace,
-    splitColumn,
-    combineColumns,
-    getDataQualitySummary,
-    countMissing,
-    type FillStrategy,
-    type TextCase,
-    type ColumnType
+import { DialectPicker } from './ui/DialectPicker';
+import { SheetPicker } from './ui/SheetPicker';
+import { JsonPicker } from './ui/JsonPicker';
+import { ParseIssues } from './ui/ParseIssues';
+import { ExportDialog } from './ui/ExportDialog';
+import { TaskProgress, useBackgroundTask } from './ui/TaskProgress';
+import type {
+    CleaningOperation,
+    CleaningPreview,
+    FillStrategy,
+    TextCase,
+    ColumnType
 } from '../lib/cleaningUtils';
-import type { ParsedCSV } from '../lib/csv';
-
-type CleaningOperation =
-    | { type: 'missing'; column: string; strategy: FillStrategy; fillValue?: string }
-    | { type: 'text'; column: string; mode: TextCase }
-    | { type: 'dedupe'; columns: string[] }
-    | { type: 'dedupe'; columns: string[] }
-    | { type: 'trimAll' }
-    | { type: 'findReplace'; column: string; find: string; replace: string }
-    | { type: 'split'; column: string; delimiter: string }
-    | { type: 'combine'; columns: string[]; newColumn: string };
+import type { Dataset, CSVDialect, MalformedRowPolicy, FileReadOptions } from '../lib/csv';
+import type { ExportSource } from '../lib/exportFormats';
+import { parseFileInBackground, reparseInBackground, runBackgroundTask, TaskCancelledError } from '../lib/workerClient';
 
 interface OperationResult {
     operation: CleaningOperation;
@@ -42,9 +31,10 @@ interface OperationResult {
 
 export function CleanPanel() {
     const { showToast } = useToast();
-    const [csv, setCsv] = useState<ParsedCSV | null>(null);
+    const fileTask = useBackgroundTask();
+    const task = useBackgroundTask();
+    const [csv, setCsv] = useState<Dataset | null>(null);
     const [selectedCols, setSelectedCols] = useState<Set<string>>(new Set());
-    const [previewHeaders, setPreviewHeaders] = useState<string[]>([]);
 
     // Cleaning configuration
     const [missingColumn, setMissingColumn] = useState('');
@@ -66,35 +56,57 @@ export function CleanPanel() {
     const [combineSeparator, setCombineSeparator] = useState(' ');
     const [newCombinedName, setNewCombinedName] = useState('Combined');
 
-    // Preview state
-    const [previewRows, setPreviewRows] = useState<Record<string, any>[] | null>(null);
+    // Preview state: the worker replays the operations on its copy of the rows and sends back the first rows
+    const [cleaned, setCleaned] = useState<CleaningPreview | null>(null);
     const [operations, setOperations] = useState<OperationResult[]>([]);
-    const [changedKeys, setChangedKeys] = useState<Set<string>>(new Set());
+    const [exportSource, setExportSource] = useState<ExportSource | null>(null);
 
-    const handleFile = async (file: File) => {
+    // Resolves to null when cleaning failed (reported here) or was cancelled
+    const runCleaning = async (source: Dataset, steps: CleaningOperation[]) => {
         try {
-            const parsed = await parseCSVFile(file);
-            setCsv(parsed);
-            setSelectedCols(new Set(parsed.headers));
-            setPreviewHeaders(parsed.headers);
-            setPreviewRows(null);
-            setOperations([]);
-            setChangedKeys(new Set());
-
-            // Reset form
-            setMissingColumn('');
-            setTextColumn('');
-            setDedupeColumns(new Set());
+            return await task.run(onProgress => runBackgroundTask('cleanPreview', { csv: source, operations: steps }, onProgress));
         } catch (err) {
-            showToast('Failed to parse CSV file', 'error');
+            if (!(err instanceof TaskCancelledError)) showToast(`Cleaning failed: ${err instanceof Error ? err.message : String(err)}`, 'error');
+            return null;
         }
     };
 
-    // Data quality summary
-    const qualitySummary = useMemo(() => {
-        if (!csv) return null;
-        return getDataQualitySummary(previewRows || csv.rows, previewHeaders.length > 0 ? previewHeaders : csv.headers);
-    }, [csv, previewRows, previewHeaders]);
+    // A new dataset starts without operations; its quality summary comes from the worker
+    const startCleaning = async (source: Dataset) => {
+        setCsv(source);
+        setSelectedCols(new Set(source.headers));
+        setCleaned(null);
+        setOperations([]);
+        setCleaned(await runCleaning(source, []));
+    };
+
+    // Read errors and cancellation are reported by the DropZone
+    const handleFile = async (file: File, opts: FileReadOptions, fileHandle?: FileSystemFileHandle) => {
+        const parsed = await fileTask.run(onProgress => parseFileInBackground(file, opts, onProgress));
+
+        // Reset form
+        setMissingColumn('');
+        setTextColumn('');
+        setDedupeColumns(new Set());
+        await startCleaning({ ...parsed, fileHandle });
+    };
+
+    // Format override: re-parsing discards any pending cleaning operations
+    const handleDialect = async (d: CSVDialect, policy?: MalformedRowPolicy) => {
+        if (!csv) return;
+        let next: Dataset;
+        try {
+            next = await fileTask.run(onProgress => reparseInBackground(csv, d, policy, onProgress));
+        } catch (err) {
+            if (!(err instanceof TaskCancelledError)) showToast(`Failed to re-read ${csv.name}: ${err instanceof Error ? err.message : String(err)}`, 'error');
+            return;
+        }
+        if (next.handle !== csv.handle) await startCleaning(next);
+        else setCsv(next);
+    };
+
+    // Data quality summary of the current data
+    const qualitySummary = cleaned?.quality ?? null;
 
     // Column type badges
     const getTypeBadge = (type: ColumnType) => {
@@ -122,202 +134,129 @@ export function CleanPanel() {
         );
     };
 
+    // Add an operation to the end of the list; resolves to the new preview, or null when it failed
+    const applyOperation = async (operation: CleaningOperation, message: (affected: number) => string) => {
+        if (!csv) return null;
+        const steps = [...operations.map(o => o.operation), operation];
+        const next = await runCleaning(csv, steps);
+        if (!next) return null;
+
+        setCleaned(next);
+        setOperations(steps.map((op, i) => ({ operation: op, affected: next.affected[i] })));
+        showToast(message(next.affected[steps.length - 1]), 'success');
+        return next;
+    };
+
     // Apply missing value operation
     const applyMissingOperation = () => {
         if (!csv || !missingColumn) return;
-
-        const sourceRows = previewRows || csv.rows;
-        const result = handleMissingValues(sourceRows, missingColumn, missingStrategy, fillValue);
-
-        setPreviewRows(result.rows);
-        setOperations(prev => [...prev, {
-            operation: { type: 'missing', column: missingColumn, strategy: missingStrategy, fillValue },
-            affected: result.affected
-        }]);
-
-        // Mark all rows as changed for this operation
-        if (result.affected > 0) {
-            const newChangedKeys = new Set(changedKeys);
-            sourceRows.forEach(row => {
-                const key = csv.headers[0] ? String(row[csv.headers[0]] ?? '').trim() : '';
-                if (key) newChangedKeys.add(key);
-            });
-            setChangedKeys(newChangedKeys);
-        }
-
-        showToast(`Processed ${result.affected} rows`, 'success');
+        applyOperation(
+            { type: 'missing', column: missingColumn, strategy: missingStrategy, fillValue },
+            affected => `Processed ${affected} rows`
+        );
     };
 
     // Apply text standardization
     const applyTextOperation = () => {
         if (!csv || !textColumn) return;
-
-        const sourceRows = previewRows || csv.rows;
-        const result = standardizeText(sourceRows, textColumn, textMode);
-
-        setPreviewRows(result.rows);
-        setOperations(prev => [...prev, {
-            operation: { type: 'text', column: textColumn, mode: textMode },
-            affected: result.affected
-        }]);
-
-        if (result.affected > 0) {
-            const newChangedKeys = new Set(changedKeys);
-            sourceRows.forEach(row => {
-                const key = csv.headers[0] ? String(row[csv.headers[0]] ?? '').trim() : '';
-                if (key) newChangedKeys.add(key);
-            });
-            setChangedKeys(newChangedKeys);
-        }
-
-        showToast(`Standardized ${result.affected} values`, 'success');
+        applyOperation(
+            { type: 'text', column: textColumn, mode: textMode },
+            affected => `Standardized ${affected} values`
+        );
     };
 
     // Apply deduplication
     const applyDedupeOperation = () => {
         if (!csv || dedupeColumns.size === 0) return;
-
-        const sourceRows = previewRows || csv.rows;
-        const cols = Array.from(dedupeColumns);
-        const result = removeDuplicates(sourceRows, cols);
-
-        setPreviewRows(result.rows);
-        setOperations(prev => [...prev, {
-            operation: { type: 'dedupe', columns: cols },
-            affected: result.affected
-        }]);
-
-        showToast(`Removed ${result.affected} duplicate rows`, 'success');
+        applyOperation(
+            { type: 'dedupe', columns: Array.from(dedupeColumns) },
+            affected => `Removed ${affected} duplicate rows`
+        );
     };
 
     // Apply trim all
     const applyTrimAll = () => {
         if (!csv) return;
-
-        const sourceRows = previewRows || csv.rows;
-        const result = trimAllColumns(sourceRows, csv.headers);
-
-        setPreviewRows(result.rows);
-        setOperations(prev => [...prev, {
-            operation: { type: 'trimAll' },
-            affected: result.affected
-        }]);
-
-        if (result.affected > 0) {
-            const newChangedKeys = new Set(changedKeys);
-            sourceRows.forEach(row => {
-                const key = csv.headers[0] ? String(row[csv.headers[0]] ?? '').trim() : '';
-                if (key) newChangedKeys.add(key);
-            });
-            setChangedKeys(newChangedKeys);
-        }
-
-        showToast(`Trimmed whitespace in ${result.affected} rows`, 'success');
-        showToast(`Trimmed whitespace in ${result.affected} rows`, 'success');
+        applyOperation({ type: 'trimAll' }, affected => `Trimmed whitespace in ${affected} rows`);
     };
 
     // Apply Find & Replace
     const applyFindReplace = () => {
         if (!csv || !findColumn || !findText) return;
-        const sourceRows = previewRows || csv.rows;
-        const result = findAndReplace(sourceRows, findColumn, findText, replaceText, findRegex, false);
-
-        setPreviewRows(result.rows);
-        setOperations(prev => [...prev, {
-            operation: { type: 'findReplace', column: findColumn, find: findText, replace: replaceText },
-            affected: result.affected
-        }]);
-        showToast(`Replaced ${result.affected} occurrences`, 'success');
+        applyOperation(
+            { type: 'findReplace', column: findColumn, find: findText, replace: replaceText, regex: findRegex },
+            affected => `Replaced ${affected} occurrences`
+        );
     };
 
     // Apply Split
-    const applySplit = () => {
+    const applySplit = async () => {
         if (!csv || !splitColumnName || !splitDelimiter) return;
-        const sourceRows = previewRows || csv.rows;
-        const currentHeaders = previewHeaders.length > 0 ? previewHeaders : csv.headers;
-
-        const result = splitColumn(sourceRows, currentHeaders, splitColumnName, splitDelimiter);
-
-        setPreviewRows(result.rows);
-        setPreviewHeaders(result.headers);
+        const next = await applyOperation(
+            { type: 'split', column: splitColumnName, delimiter: splitDelimiter },
+            () => 'Split column into new parts'
+        );
+        if (!next) return;
 
         // Add new columns to selection
         const newSelected = new Set(selectedCols);
-        result.headers.forEach(h => {
+        next.headers.forEach(h => {
             if (!currentHeaders.includes(h)) newSelected.add(h);
         });
         setSelectedCols(newSelected);
-
-        setOperations(prev => [...prev, {
-            operation: { type: 'split', column: splitColumnName, delimiter: splitDelimiter },
-            affected: result.affected
-        }]);
-        showToast(`Split column into new parts`, 'success');
     };
 
     // Apply Combine
-    const applyCombine = () => {
+    const applyCombine = async () => {
         if (!csv || combineColumnsList.size < 2 || !newCombinedName) return;
-        const sourceRows = previewRows || csv.rows;
-        const currentHeaders = previewHeaders.length > 0 ? previewHeaders : csv.headers;
         const colsToCombine = Array.from(combineColumnsList);
-
-        const result = combineColumns(sourceRows, currentHeaders, colsToCombine, combineSeparator, newCombinedName);
-
-        setPreviewRows(result.rows);
-        setPreviewHeaders(result.headers);
+        const next = await applyOperation(
+            { type: 'combine', columns: colsToCombine, separator: combineSeparator, newColumn: newCombinedName },
+            () => `Combined ${colsToCombine.length} columns`
+        );
+        if (!next) return;
 
         // Add new column to selection
         const newSelected = new Set(selectedCols);
         if (!selectedCols.has(newCombinedName)) newSelected.add(newCombinedName);
         setSelectedCols(newSelected);
-
-        setOperations(prev => [...prev, {
-            operation: { type: 'combine', columns: colsToCombine, newColumn: newCombinedName },
-            affected: result.affected
-        }]);
-        showToast(`Combined ${colsToCombine.length} columns`, 'success');
     };
 
     // Reset to original
-    const handleReset = () => {
-        setPreviewRows(null);
+    const handleReset = async () => {
+        if (!csv) return;
+        const next = await runCleaning(csv, []);
+        if (!next) return;
+        setCleaned(next);
         setOperations([]);
-        setChangedKeys(new Set());
         showToast('Reset to original data', 'info');
     };
 
-    // Export
-    const handleExport = () => {
-        if (!csv) return null;
-
-        const rows = previewRows || csv.rows;
-        const currentHeaders = previewHeaders.length > 0 ? previewHeaders : csv.headers;
-        const headers = currentHeaders.filter(h => selectedCols.has(h));
-        const keyColumn = headers[0] || '';
-
-        const csvString = formatPreservingExport(headers, rows, csv, keyColumn, changedKeys);
+    // Export: the worker applies the operations to every row and builds the file
+    const handleExport = async () => {
+        if (!csv || csv.diagnostics.rejected) return;
 
-        navigator.clipboard.writeText(csvString).then(() => {
-            showToast(`Copied ${rows.length} rows to clipboard`, 'success');
-        }).catch(() => {
-            showToast('Failed to copy to clipboard', 'error');
-        });
+        const columns = currentHeaders.filter(h => selectedCols.has(h));
+        try {
+            const result = await task.run(onProgress => runBackgroundTask('cleanExport', { csv, operations: operations.map(o => o.operation), columns }, onProgress));
+            setExportSource({ ...result, dialect: csv.dialect });
+        } catch (err) {
+            if (!(err instanceof TaskCancelledError)) showToast(`Export failed: ${err instanceof Error ? err.message : String(err)}`, 'error');
+        }
     };
 
     // Start fresh
     const handleClear = () => {
         setCsv(null);
-        setPreviewRows(null);
-        setPreviewHeaders([]);
+        setCleaned(null);
         setOperations([]);
         setSelectedCols(new Set());
-        setChangedKeys(new Set());
     };
 
-    // Current rows to display
-    const displayRows = previewRows || csv?.rows || [];
-    const currentHeaders = previewHeaders.length > 0 ? previewHeaders : (csv?.headers || []);
+    // Current rows to display (the first rows; rowCount is the full count)
+    const displayRows = cleaned?.rows ?? csv?.preview ?? [];
+    const rowCount = cleaned?.rowCount ?? csv?.rowCount ?? 0;
+    const currentHeaders = cleaned?.headers ?? csv?.headers ?? [];
     const displayCols = currentHeaders.filter(h => selectedCols.has(h));
 
     return (
@@ -326,6 +265,8 @@ export function CleanPanel() {
                 <DropZone
                     label="Upload CSV to Clean"
                     onFile={handleFile}
+                    progress={fileTask.progress}
+                    onCancel={fileTask.cancel}
                 />
             ) : (
                 <div className="clean-content">
@@ -338,7 +279,7 @@ export function CleanPanel() {
                             </h3>
                             <div className="quality-stats">
                                 <div className="stat">
-                                    <span className="stat-value">{csv.rows.length}</span>
+                                    <span className="stat-value">{csv.rowCount}</span>
                                     <span className="stat-label">Total Rows</span>
                                 </div>
                                 <div className="stat">
@@ -357,6 +298,23 @@ export function CleanPanel() {
                                 </div>
                             </div>
 
+                            {csv.spreadsheet ? (
+                                <SheetPicker source={csv.spreadsheet} fileHandle={csv.fileHandle} onChange={handleFile} />
+                            ) : csv.json ? (
+                                <JsonPicker source={csv.json} fileHandle={csv.fileHandle} onChange={handleFile} />
+                            ) : (
+                                <DialectPicker
+                                    dialect={csv.dialect}
+                                    onChange={handleDialect}
+                                    encoding={csv.encoding}
+                                    onEncodingChange={encoding => setCsv({ ...csv, encoding })}
+                                />
+                            )}
+                            <ParseIssues
+                                csv={csv}
+                                onPolicyChange={policy => handleDialect(csv.dialect, policy)}
+                            />
+
                             {/* Column Types */}
                             <div style={{ marginTop: '16px' }}>
                                 <strong>Column Types:</strong>
@@ -437,14 +395,14 @@ export function CleanPanel() {
                                             <Button
                                                 variant="secondary"
                                                 onClick={applyFindReplace}
-                                                disabled={!findColumn || !findText}
+                                                disabled={!findColumn || !findText || task.busy}
                                                 style={{ height: '40px', padding: '0 24px' }}
                                             >
                                                 Replace Matches
                                             </Button>
 
                                             <div style={{ borderLeft: '1px solid var(--border)', paddingLeft: '12px', marginLeft: '0px', height: '40px', display: 'flex', alignItems: 'center' }}>
-                                                <Button variant="secondary" onClick={applyTrimAll} style={{ height: '40px' }}>
+                                                <Button variant="secondary" onClick={applyTrimAll} disabled={task.busy} style={{ height: '40px' }}>
                                                     Trim All Whitespace
                                                 </Button>
                                             </div>
@@ -471,7 +429,7 @@ export function CleanPanel() {
                                     <option value="">Select column...</option>
                                     {currentHeaders.map(h => (
                                         <option key={h} value={h}>
-                                            {h} ({countMissing(displayRows, h)} missing)
+                                            {h}{qualitySummary && ` (${qualitySummary.missingByColumn[h] ?? 0} missing)`}
                                         </option>
                                     ))}
                                 </select>
@@ -498,7 +456,7 @@ export function CleanPanel() {
                                 <Button
                                     variant="secondary"
                                     onClick={applyMissingOperation}
-                                    disabled={!missingColumn}
+                                    disabled={!missingColumn || task.busy}
                                 >
                                     Apply
                                 </Button>
@@ -539,7 +497,7 @@ export function CleanPanel() {
                                 <Button
                                     variant="secondary"
                                     onClick={applyTextOperation}
-                                    disabled={!textColumn}
+                                    disabled={!textColumn || task.busy}
                                 >
                                     Apply
                                 </Button>
@@ -575,7 +533,7 @@ export function CleanPanel() {
                             <Button
                                 variant="secondary"
                                 onClick={applyDedupeOperation}
-                                disabled={dedupeColumns.size === 0}
+                                disabled={dedupeColumns.size === 0 || task.busy}
                                 style={{ marginTop: '12px' }}
                             >
                                 Remove Duplicates
@@ -612,7 +570,7 @@ export function CleanPanel() {
                                 <Button
                                     variant="secondary"
                                     onClick={applySplit}
-                                    disabled={!splitColumnName || !splitDelimiter}
+                                    disabled={!splitColumnName || !splitDelimiter || task.busy}
                                 >
                                     Split
                                 </Button>
@@ -662,7 +620,7 @@ export function CleanPanel() {
                                     <Button
                                         variant="secondary"
                                         onClick={applyCombine}
-                                        disabled={combineColumnsList.size < 2 || !newCombinedName}
+                                        disabled={combineColumnsList.size < 2 || !newCombinedName || task.busy}
                                     >
                                         Combine
                                     </Button>
@@ -712,19 +670,20 @@ export function CleanPanel() {
                         <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '12px' }}>
                             <h4 style={{ margin: 0 }}>
                                 <Eye size={16} style={{ marginRight: '8px', verticalAlign: 'middle' }} />
-                                Preview ({displayRows.length} rows)
+                                Preview ({rowCount} rows)
                             </h4>
                             <div style={{ display: 'flex', gap: '8px' }}>
-                                <Button variant="secondary" onClick={handleReset} disabled={!previewRows}>
+                                <Button variant="secondary" onClick={handleReset} disabled={operations.length === 0 || task.busy}>
                                     <RotateCcw size={14} />
                                     Reset
                                 </Button>
-                                <Button variant="ok" onClick={handleExport}>
-                                    <Copy size={14} />
-                                    Copy to Clipboard
+                                <Button variant="ok" onClick={handleExport} disabled={csv.diagnostics.rejected || task.busy}>
+                                    <Download size={14} />
+                                    Export…
                                 </Button>
                             </div>
                         </div>
+                        <TaskProgress progress={task.progress} onCancel={task.cancel} />
 
                         <Table
                             headers={displayCols}
@@ -732,9 +691,9 @@ export function CleanPanel() {
                             title="Data Preview"
                         />
 
-                        {displayRows.length > 50 && (
+                        {rowCount > 50 && (
                             <p style={{ textAlign: 'center', color: 'var(--text-muted)', marginTop: '12px' }}>
-                                Showing first 50 rows of {displayRows.length}
+                                Showing first 50 rows of {rowCount}
                             </p>
                         )}
                     </Card>
@@ -747,6 +706,16 @@ export function CleanPanel() {
                     </div>
                 </div>
             )}
+
+            <ExportDialog
+                source={exportSource}
+                onClose={() => setExportSource(null)}
+                original={csv}
+                action="cleaned"
+                encoding={csv?.encoding}
+                keyColumns={exportSource?.headers.slice(0, 1)}
+                title="Export cleaned data"
+            />
         </div>
     );
 }
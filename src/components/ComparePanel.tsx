@@ -1,179 +1,200 @@
 import { useState, useMemo, useEffect } from 'react';
 import { Download, RotateCcw, GitCompare } from 'lucide-react';
-import Papa from 'papaparse';
 import { Card } from './ui/Card';
 import { DropZone } from './ui/DropZone';
 import { Stepper } from './ui/Stepper';
 import { Button } from './ui/Button';
 import { ColumnPicker } from './ui/ColumnPicker';
+import { KeyColumnsPicker } from './ui/KeyColumnsPicker';
+import { HelpTooltip } from './ui/HelpTooltip';
+import { ColumnCompareEditor } from './ui/ColumnCompareEditor';
+import { SchemaDiffView } from './ui/SchemaDiffView';
 import { Table } from './ui/Table';
-import { parseCSVFile } from '../lib/csv';
-import type { ParsedCSV } from '../lib/csv';
-
-interface DiffResult {
-    added: any[];
-    removed: any[];
-    changed: any[];
-    changedById: Map<string, Record<string, string>>;
-    allHeaders: string[];
-}
+import { DialectPicker } from './ui/DialectPicker';
+import { SheetPicker } from './ui/SheetPicker';
+import { JsonPicker } from './ui/JsonPicker';
+import { ParseIssues } from './ui/ParseIssues';
+import { ExportDialog } from './ui/ExportDialog';
+import { TaskProgress, useBackgroundTask } from './ui/TaskProgress';
+import { useToast } from './ui/Toast';
+import { DEFAULT_DIALECT } from '../lib/csv';
+import type { Dataset, CSVDialect, MalformedRowPolicy, FileReadOptions } from '../lib/csv';
+import type { ExportSource } from '../lib/exportFormats';
+import { changedRowId, buildDiffRows, buildDiffSheets, detectValueTypes, columnCompareFor, COMPARE_MODES, DEFAULT_KEY_NORMALIZATION, DUPLICATE_COLUMNS } from '../lib/compareUtils';
+import type { DiffResult, CompareMode, CompareOptions, KeyNormalization, ColumnCompare } from '../lib/compareUtils';
+import { computeSchemaDiff } from '../lib/schemaDiff';
+import type { ColumnRenames } from '../lib/schemaDiff';
+import { parseFileInBackground, reparseInBackground, runBackgroundTask, TaskCancelledError } from '../lib/workerClient';
 
 export function ComparePanel() {
     const [step, setStep] = useState(1);
-    const [baseCSV, setBaseCSV] = useState<ParsedCSV | null>(null);
-    const [compareCSV, setCompareCSV] = useState<ParsedCSV | null>(null);
-    const [key, setKey] = useState('');
+    const [baseCSV, setBaseCSV] = useState<Dataset | null>(null);
+    const [compareCSV, setCompareCSV] = useState<Dataset | null>(null);
+    const [mode, setMode] = useState<CompareMode>('key');
+    const [keys, setKeys] = useState<string[]>([]);
     const [options, setOptions] = useState({ trim: true, ci: false });
+    const [keyNormalization, setKeyNormalization] = useState<KeyNormalization>(DEFAULT_KEY_NORMALIZATION);
+    const [nullText, setNullText] = useState('');
+    const [columnSettings, setColumnSettings] = useState<Record<string, ColumnCompare>>({});
+    const [renames, setRenames] = useState<ColumnRenames>({});
 
     const [selectedCols, setSelectedCols] = useState<Set<string>>(new Set());
-    const [diffTab, setDiffTab] = useState<'added' | 'removed' | 'changed'>('changed');
+    const [diffTab, setDiffTab] = useState<'added' | 'removed' | 'changed' | 'duplicates'>('changed');
 
     const [diffResult, setDiffResult] = useState<DiffResult | null>(null);
+    const [diffOptions, setDiffOptions] = useState<CompareOptions | null>(null);   // Options the shown diff was made with
     const [summary, setSummary] = useState('');
+    const [exportSource, setExportSource] = useState<ExportSource | null>(null);
+
+    const baseTask = useBackgroundTask();
+    const compareTask = useBackgroundTask();
+    const task = useBackgroundTask();
+    const { showToast } = useToast();
 
     // File handlers
-    const handleBase = async (f: File) => {
-        const p = await parseCSVFile(f);
+    const handleBase = async (f: File, opts: FileReadOptions) => {
+        const p = await baseTask.run(onProgress => parseFileInBackground(f, opts, onProgress));
         setBaseCSV(p);
         if (compareCSV) setStep(2);
     };
 
-    const handleCompare = async (f: File) => {
-        const p = await parseCSVFile(f);
+    const handleCompare = async (f: File, opts: FileReadOptions) => {
+        const p = await compareTask.run(onProgress => parseFileInBackground(f, opts, onProgress));
         setCompareCSV(p);
         if (baseCSV) setStep(2);
     };
 
+    const reparse = async (csv: Dataset, d: CSVDialect, policy: MalformedRowPolicy | undefined, fileTask: ReturnType<typeof useBackgroundTask>) => {
+        try {
+            return await fileTask.run(onProgress => reparseInBackground(csv, d, policy, onProgress));
+        } catch (err) {
+            if (!(err instanceof TaskCancelledError)) showToast(`Failed to re-read ${csv.name}: ${err instanceof Error ? err.message : String(err)}`, 'error');
+            return null;
+        }
+    };
+
+    const handleBaseDialect = async (d: CSVDialect, policy?: MalformedRowPolicy) => {
+        if (!baseCSV) return;
+        const next = await reparse(baseCSV, d, policy, baseTask);
+        if (!next) return;
+        setBaseCSV(next);
+        if (next.handle !== baseCSV.handle) {
+            setKeys([]);
+            setDiffResult(null);
+        }
+    };
+
+    const handleCompareDialect = async (d: CSVDialect, policy?: MalformedRowPolicy) => {
+        if (!compareCSV) return;
+        const next = await reparse(compareCSV, d, policy, compareTask);
+        if (!next) return;
+        setCompareCSV(next);
+        if (next.handle !== compareCSV.handle) {
+            setKeys([]);
+            setDiffResult(null);
+        }
+    };
+
+    const schema = useMemo(() => (baseCSV && compareCSV ? computeSchemaDiff(baseCSV, compareCSV) : null), [baseCSV, compareCSV]);
+
+    // Renames chosen by the user that are still detected in the current files
+    const activeRenames = useMemo<ColumnRenames>(() => {
+        if (!schema) return {};
+        return Object.fromEntries(schema.renamed.filter(r => renames[r.to] === r.from).map(r => [r.to, r.from]));
+    }, [schema, renames]);
+
+    // Compare headers as the diff sees them, renamed columns under their base names
+    const compareHeaders = useMemo(() => {
+        if (!compareCSV) return [];
+        return compareCSV.headers.map(h => (Object.prototype.hasOwnProperty.call(activeRenames, h) ? activeRenames[h] : h));
+    }, [compareCSV, activeRenames]);
+
     // Common headers for key selection
     const commonHeaders = useMemo(() => {
-        if (!baseCSV || !compareCSV) return [];
+        if (!baseCSV) return [];
         const setA = new Set(baseCSV.headers);
-        return compareCSV.headers.filter(h => setA.has(h));
-    }, [baseCSV, compareCSV]);
+        return compareHeaders.filter(h => setA.has(h));
+    }, [baseCSV, compareHeaders]);
 
-    // Auto-select first common header as key
+    // Auto-select first common header as key; drop key columns a file no longer has
     useEffect(() => {
-        if (commonHeaders.length > 0 && !key) {
-            setKey(commonHeaders[0]);
+        const valid = keys.filter(k => commonHeaders.includes(k));
+        if (valid.length === 0 && commonHeaders.length > 0) {
+            setKeys([commonHeaders[0]]);
+        } else if (valid.length !== keys.length) {
+            setKeys(valid);
         }
-    }, [commonHeaders, key]);
-
-    // Compute diff
-    const handleCompareClick = () => {
-        if (!baseCSV || !compareCSV || !key) return;
-
-        const { trim, ci } = options;
-
-        // Helper to normalize values
-        const normalize = (val: any) => {
-            let s = String(val ?? '');
-            if (trim) s = s.trim();
-            if (ci) s = s.toLowerCase();
-            return s;
-        };
-
-        // Build maps by key
-        const baseMap = new Map<string, any>();
-        baseCSV.rows.forEach(r => {
-            const id = normalize(r[key]);
-            if (id) baseMap.set(id, r);
-        });
-
-        const compareMap = new Map<string, any>();
-        compareCSV.rows.forEach(r => {
-            const id = normalize(r[key]);
-            if (id) compareMap.set(id, r);
-        });
+    }, [commonHeaders, keys]);
 
-        // Union of all headers
-        const allHeaders = [...baseCSV.headers];
-        const seen = new Set(allHeaders);
-        compareCSV.headers.forEach(h => {
-            if (!seen.has(h)) {
-                allHeaders.push(h);
-                seen.add(h);
-            }
+    const allColumns = useMemo(() => {
+        if (!baseCSV || !compareCSV) return [];
+        return [...new Set([...baseCSV.headers, ...compareHeaders])];
+    }, [baseCSV, compareCSV, compareHeaders]);
+
+    // Set number / date on the columns whose base values all parse as such; other settings stay
+    const handleDetectTypes = () => {
+        if (!baseCSV) return;
+        const types = detectValueTypes(baseCSV);
+        const next = { ...columnSettings };
+        allColumns.forEach(c => {
+            const type = Object.prototype.hasOwnProperty.call(types, c) ? types[c] : 'text';
+            if (type !== 'text') next[c] = { ...columnCompareFor(c, { columns: columnSettings }), type };
         });
+        setColumnSettings(next);
+        const found = Object.values(types).filter(t => t !== 'text').length;
+        showToast(found > 0 ? `Detected ${found} number or date column${found === 1 ? '' : 's'}` : 'No number or date columns detected', 'info');
+    };
 
-        const added: any[] = [];
-        const removed: any[] = [];
-        const changed: any[] = [];
-        const changedById = new Map<string, Record<string, string>>();
-
-        // Find removed and changed
-        baseMap.forEach((baseRow, id) => {
-            if (!compareMap.has(id)) {
-                removed.push(baseRow);
-            } else {
-                const compareRow = compareMap.get(id);
-                const diffs: Record<string, string> = {};
-                let hasChange = false;
-
-                allHeaders.forEach(h => {
-                    const baseVal = normalize(baseRow[h] ?? '');
-                    const compVal = normalize(compareRow[h] ?? '');
-                    if (baseVal !== compVal) {
-                        diffs[h] = String(baseRow[h] ?? ''); // Store original base value
-                        hasChange = true;
-                    }
-                });
-
-                if (hasChange) {
-                    changed.push(compareRow);
-                    changedById.set(id, diffs);
-                }
-            }
-        });
+    const rejected = !!baseCSV?.diagnostics.rejected || !!compareCSV?.diagnostics.rejected;
 
-        // Find added
-        compareMap.forEach((compareRow, id) => {
-            if (!baseMap.has(id)) {
-                added.push(compareRow);
-            }
-        });
+    // Compute diff
+    const handleCompareClick = async () => {
+        if (!baseCSV || !compareCSV || (mode === 'key' && keys.length === 0) || rejected) return;
+
+        const nullValues = nullText.split(',').map(v => v.trim()).filter(Boolean);
+        const compareOptions: CompareOptions = { mode, keys, ...options, keyNormalization, nullValues, columns: columnSettings, renames: activeRenames };
+        let diff: DiffResult;
+        try {
+            diff = await task.run(onProgress => runBackgroundTask('compareDiff', { base: baseCSV, compare: compareCSV, options: compareOptions }, onProgress));
+        } catch (err) {
+            if (!(err instanceof TaskCancelledError)) showToast(`Compare failed: ${err instanceof Error ? err.message : String(err)}`, 'error');
+            return;
+        }
 
-        setDiffResult({ added, removed, changed, changedById, allHeaders });
-        setSummary(`Diff complete → Added: ${added.length}, Removed: ${removed.length}, Changed: ${changed.length}`);
-        setSelectedCols(new Set(allHeaders));
+        setDiffResult(diff);
+        setDiffOptions(compareOptions);
+        if (mode === 'multiset') {
+            const surplus = (rows: Record<string, any>[], more: string, less: string) => rows.reduce((n, r) => n + r[more] - r[less], 0);
+            setSummary(`Diff complete → Added: ${surplus(diff.added, '_compare_count', '_base_count')} rows (${diff.added.length} distinct), Removed: ${surplus(diff.removed, '_base_count', '_compare_count')} rows (${diff.removed.length} distinct)`);
+            setDiffTab(diffTab === 'added' ? 'added' : 'removed');
+        } else if (mode === 'positional') {
+            const note = diff.aligned ? '' : ' (too many differences to align; rows were paired by position)';
+            setSummary(`Diff complete → Added: ${diff.added.length}, Removed: ${diff.removed.length}, Changed: ${diff.changed.length}${note}`);
+            if (diffTab === 'duplicates') setDiffTab('changed');
+        } else {
+            const blank = diff.blankKeys > 0 ? `, Rows with a blank key (skipped): ${diff.blankKeys}` : '';
+            setSummary(`Diff complete → Added: ${diff.added.length}, Removed: ${diff.removed.length}, Changed: ${diff.changed.length}, Duplicated keys: ${diff.duplicateKeys}${blank}`);
+        }
+        setSelectedCols(new Set(diff.allHeaders));
         setStep(3);
     };
 
-    // Export diff as CSV
+    // Export diff (CSV is written in the base file's dialect and encoding so it opens like the inputs did)
     const handleExport = () => {
-        if (!diffResult) return;
-
-        const rows: any[] = [];
-
-        diffResult.added.forEach(r => {
-            rows.push({ _diff_type: 'ADDED', ...r });
-        });
-        diffResult.removed.forEach(r => {
-            rows.push({ _diff_type: 'REMOVED', ...r });
-        });
-        diffResult.changed.forEach(r => {
-            const id = String(r[key] ?? '').trim();
-            const oldVals = diffResult.changedById.get(id) || {};
-            const changedCols = Object.keys(oldVals).join('; ');
-            rows.push({ _diff_type: 'CHANGED', _changed_columns: changedCols, ...r });
-        });
-
-        const fields = ['_diff_type', '_changed_columns', ...diffResult.allHeaders];
-        const csv = Papa.unparse({ fields, data: rows });
-
-        const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = 'diff_result.csv';
-        a.click();
-        URL.revokeObjectURL(url);
+        if (!diffResult || !diffOptions) return;
+        const { headers, rows } = buildDiffRows(diffResult, diffOptions);
+        const sheets = buildDiffSheets(diffResult, diffOptions);
+        setExportSource({ headers, rows, sheets, dialect: baseCSV?.dialect ?? DEFAULT_DIALECT });
     };
 
     const handleReset = () => {
         setBaseCSV(null);
         setCompareCSV(null);
-        setKey('');
+        setKeys([]);
+        setColumnSettings({});
+        setRenames({});
         setDiffResult(null);
+        setDiffOptions(null);
         setStep(1);
         setSummary('');
         setSelectedCols(new Set());
@@ -197,26 +218,110 @@ export function ComparePanel() {
                     <DropZone
                         label="Base CSV (original)"
                         onFile={handleBase}
-                        name={baseCSV ? `✔ ${baseCSV.name} (${baseCSV.rows.length} rows)` : ''}
-                    />
+                        progress={baseTask.progress}
+                        onCancel={baseTask.cancel}
+                        name={baseCSV ? `✔ ${baseCSV.name} (${baseCSV.rowCount} rows)` : ''}
+                    >
+                        {baseCSV && <>
+                            {baseCSV.spreadsheet ? (
+                                <SheetPicker source={baseCSV.spreadsheet} onChange={handleBase} />
+                            ) : baseCSV.json ? (
+                                <JsonPicker source={baseCSV.json} onChange={handleBase} />
+                            ) : (
+                                <DialectPicker
+                                    dialect={baseCSV.dialect}
+                                    onChange={handleBaseDialect}
+                                    encoding={baseCSV.encoding}
+                                    onEncodingChange={encoding => setBaseCSV({ ...baseCSV, encoding })}
+                                />
+                            )}
+                            <ParseIssues
+                                csv={baseCSV}
+                                onPolicyChange={policy => handleBaseDialect(baseCSV.dialect, policy)}
+                            />
+                        </>}
+                    </DropZone>
                     <DropZone
                         label="Compare CSV (new version)"
                         onFile={handleCompare}
-                        name={compareCSV ? `✔ ${compareCSV.name} (${compareCSV.rows.length} rows)` : ''}
-                    />
+                        progress={compareTask.progress}
+                        onCancel={compareTask.cancel}
+                        name={compareCSV ? `✔ ${compareCSV.name} (${compareCSV.rowCount} rows)` : ''}
+                    >
+                        {compareCSV && <>
+                            {compareCSV.spreadsheet
+                                ? <SheetPicker source={compareCSV.spreadsheet} onChange={handleCompare} />
+                                : compareCSV.json
+                                    ? <JsonPicker source={compareCSV.json} onChange={handleCompare} />
+                                    : <DialectPicker dialect={compareCSV.dialect} onChange={handleCompareDialect} />}
+                            <ParseIssues
+                                csv={compareCSV}
+                                onPolicyChange={policy => handleCompareDialect(compareCSV.dialect, policy)}
+                            />
+                        </>}
+                    </DropZone>
                 </div>
             </div>
 
             {/* Step 2: Configuration */}
             {baseCSV && compareCSV && (
                 <div style={{ marginTop: 12 }}>
+                    {schema && (
+                        <Card style={{ marginBottom: 12 }}>
+                            <SchemaDiffView schema={schema} renames={renames} onRenamesChange={setRenames} disabled={task.busy} />
+                        </Card>
+                    )}
                     <div className="grid grid-2">
                         <Card>
-                            <label>Key Column (unique identifier)</label>
-                            <select value={key} onChange={e => setKey(e.target.value)} disabled={step > 2 && !!diffResult}>
-                                {commonHeaders.map(h => <option key={h} value={h}>{h}</option>)}
+                            <label>
+                                Match Rows By
+                                <HelpTooltip content="Key columns match rows with the same key. Row position compares the files like a text diff: identical rows are aligned and inserted or removed rows are detected. Row content ignores order and compares how often each distinct row occurs." />
+                            </label>
+                            <select value={mode} onChange={e => setMode(e.target.value as CompareMode)} disabled={step > 2 && !!diffResult}>
+                                {COMPARE_MODES.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
                             </select>
-                            <p className="hint">Rows are matched by this column.</p>
+                            {mode === 'positional' && <p className="hint">For files without a unique column. Rows that differ between aligned rows are reported as changed.</p>}
+                            {mode === 'multiset' && <p className="hint">For files without a unique column whose row order does not matter. Rows are reported as added or removed with their occurrence counts; nothing is "changed".</p>}
+                            {mode === 'key' && <>
+                                <label style={{ marginTop: 12 }}>Key Columns (unique identifier)</label>
+                                <KeyColumnsPicker
+                                    available={commonHeaders}
+                                    selected={keys}
+                                    onChange={setKeys}
+                                    disabled={step > 2 && !!diffResult}
+                                />
+                                <p className="hint">Rows are matched when all of these columns match. Keys that repeat in either file are listed under Duplicates.</p>
+                                <label style={{ marginTop: 12 }}>
+                                    Key Normalization
+                                    <HelpTooltip content="Applied to key values before matching only; the compared cells keep their values." />
+                                </label>
+                                <div className="actions" style={{ marginTop: 8 }}>
+                                    <label>
+                                        <input
+                                            type="checkbox"
+                                            checked={keyNormalization.stripLeadingZeros}
+                                            onChange={e => setKeyNormalization({ ...keyNormalization, stripLeadingZeros: e.target.checked })}
+                                        />
+                                        Strip leading zeros
+                                    </label>
+                                    <label>
+                                        <input
+                                            type="checkbox"
+                                            checked={keyNormalization.alphanumericOnly}
+                                            onChange={e => setKeyNormalization({ ...keyNormalization, alphanumericOnly: e.target.checked })}
+                                        />
+                                        Letters and digits only
+                                    </label>
+                                    <label>
+                                        <input
+                                            type="checkbox"
+                                            checked={keyNormalization.caseFold}
+                                            onChange={e => setKeyNormalization({ ...keyNormalization, caseFold: e.target.checked })}
+                                        />
+                                        Ignore case
+                                    </label>
+                                </div>
+                            </>}
                         </Card>
                         <Card>
                             <label>Comparison Options</label>
@@ -238,16 +343,35 @@ export function ComparePanel() {
                                     Case-insensitive comparison
                                 </label>
                             </div>
+                            <label style={{ marginTop: 12 }}>
+                                Treat as Empty
+                                <HelpTooltip content="Comma-separated values that count as an empty cell, so NULL in one file equals a blank cell in the other." />
+                            </label>
+                            <input
+                                type="text"
+                                value={nullText}
+                                placeholder="e.g. NULL, N/A, -"
+                                onChange={e => setNullText(e.target.value)}
+                            />
                         </Card>
                     </div>
+                    <Card style={{ marginTop: 12 }}>
+                        <ColumnCompareEditor
+                            columns={allColumns}
+                            settings={columnSettings}
+                            onChange={setColumnSettings}
+                            onDetect={handleDetectTypes}
+                            disabled={task.busy}
+                        />
+                    </Card>
                 </div>
             )}
 
             {/* Column Picker */}
-            {baseCSV && compareCSV && key && (
+            {baseCSV && compareCSV && (mode !== 'key' || keys.length > 0) && (
                 <div style={{ marginTop: 12 }}>
                     <ColumnPicker
-                        allHeaders={diffResult ? diffResult.allHeaders : [...new Set([...baseCSV.headers, ...compareCSV.headers])]}
+                        allHeaders={diffResult ? diffResult.allHeaders : allColumns}
                         selected={selectedCols}
                         onChange={setSelectedCols}
                     />
@@ -259,16 +383,17 @@ export function ComparePanel() {
                 <div style={{ marginTop: 12 }}>
                     <Card>
                         <div className="actions">
-                            <Button variant="primary" onClick={handleCompareClick} disabled={!key} icon={<GitCompare size={16} />}>
+                            <Button variant="primary" onClick={handleCompareClick} disabled={(mode === 'key' && keys.length === 0) || rejected || task.busy} icon={<GitCompare size={16} />}>
                                 Compare
                             </Button>
-                            <Button variant="ok" onClick={handleExport} disabled={!diffResult} icon={<Download size={16} />}>
-                                Export Diff CSV
+                            <Button variant="ok" onClick={handleExport} disabled={!diffResult || task.busy} icon={<Download size={16} />}>
+                                Export Diff…
                             </Button>
-                            <Button variant="ghost" onClick={handleReset} icon={<RotateCcw size={16} />}>
+                            <Button variant="ghost" onClick={handleReset} disabled={task.busy} icon={<RotateCcw size={16} />}>
                                 Reset
                             </Button>
                         </div>
+                        <TaskProgress progress={task.progress} onCancel={task.cancel} />
                         {summary && <div className="stat" style={{ marginTop: 8 }}>{summary}</div>}
                     </Card>
                 </div>
@@ -290,19 +415,29 @@ export function ComparePanel() {
                         >
                             Removed ({diffResult.removed.length})
                         </button>
-                        <button
-                            className={diffTab === 'changed' ? 'active' : ''}
-                            onClick={() => setDiffTab('changed')}
-                        >
-                            Changed ({diffResult.changed.length})
-                        </button>
+                        {diffOptions?.mode !== 'multiset' && (
+                            <button
+                                className={diffTab === 'changed' ? 'active' : ''}
+                                onClick={() => setDiffTab('changed')}
+                            >
+                                Changed ({diffResult.changed.length})
+                            </button>
+                        )}
+                        {diffOptions?.mode === 'key' && (
+                            <button
+                                className={diffTab === 'duplicates' ? 'active' : ''}
+                                onClick={() => setDiffTab('duplicates')}
+                            >
+                                Duplicates ({diffResult.duplicateKeys})
+                            </button>
+                        )}
                     </div>
 
                     {diffTab === 'added' && (
                         <Table
                             title="Added Rows"
-                            hint="Rows in Compare CSV but not in Base CSV"
-                            headers={displayCols}
+                            hint={diffOptions?.mode === 'multiset' ? 'Rows occurring more often in Compare CSV than in Base CSV' : 'Rows in Compare CSV but not in Base CSV'}
+                            headers={[...diffResult.extraHeaders, ...displayCols]}
                             rows={diffResult.added}
                             rowClassFn={() => 'added'}
                         />
@@ -311,30 +446,46 @@ export function ComparePanel() {
                     {diffTab === 'removed' && (
                         <Table
                             title="Removed Rows"
-                            hint="Rows in Base CSV but not in Compare CSV"
-                            headers={displayCols}
+                            hint={diffOptions?.mode === 'multiset' ? 'Rows occurring more often in Base CSV than in Compare CSV' : 'Rows in Base CSV but not in Compare CSV'}
+                            headers={[...diffResult.extraHeaders, ...displayCols]}
                             rows={diffResult.removed}
                             rowClassFn={() => 'removed'}
                         />
                     )}
 
-                    {diffTab === 'changed' && (
+                    {diffTab === 'changed' && diffOptions?.mode !== 'multiset' && (
                         <Table
                             title="Changed Rows"
-                            hint="Rows with same key but different values (hover cells to see old values)"
-                            headers={displayCols}
+                            hint={diffOptions?.mode === 'positional'
+                                ? 'Aligned rows with different values (hover cells to see old values)'
+                                : 'Rows with same key but different values (hover cells to see old values)'}
+                            headers={[...diffResult.extraHeaders, ...displayCols]}
                             rows={diffResult.changed}
-                            changedMapByRowFn={(row) => {
-                                const id = options.trim
-                                    ? String(row[key] ?? '').trim()
-                                    : String(row[key] ?? '');
-                                const normalizedId = options.ci ? id.toLowerCase() : id;
-                                return diffResult.changedById.get(normalizedId) || null;
-                            }}
+                            changedMapByRowFn={(row) => (diffOptions && diffResult.changedById.get(changedRowId(row, diffOptions))) || null}
+                        />
+                    )}
+
+                    {diffTab === 'duplicates' && diffOptions?.mode === 'key' && (
+                        <Table
+                            title="Duplicated Keys"
+                            hint="Keys found on more than one row of either file; they are left out of the diff"
+                            headers={[...DUPLICATE_COLUMNS, ...displayCols]}
+                            rows={diffResult.duplicates}
+                            rowClassFn={row => (row._file === 'base' ? 'removed' : 'added')}
                         />
                     )}
                 </div>
             )}
+
+            <ExportDialog
+                source={exportSource}
+                onClose={() => setExportSource(null)}
+                original={baseCSV}
+                action="diff"
+                encoding={baseCSV?.encoding}
+                keyColumns={diffOptions?.mode === 'key' ? keys : []}
+                title="Export diff"
+            />
         </div>
     );
 }
@@ -1,116 +1,224 @@
 import { useState, useMemo } from 'react';
-import { Eye, RotateCcw, Copy } from 'lucide-react';
+import { Eye, RotateCcw, Download, FileX, SearchX, ClipboardList } from 'lucide-react';
 import { Card } from './ui/Card';
 import { DropZone } from './ui/DropZone';
 import { Button } from './ui/Button';
 import { ColumnPicker } from './ui/ColumnPicker';
 import { Table } from './ui/Table';
 import { HelpTooltip } from './ui/HelpTooltip';
-import { parseCSVFile, formatPreservingExport } from '../lib/csv';
-import type { ParsedCSV } from '../lib/csv';
+import { DialectPicker } from './ui/DialectPicker';
+import { SheetPicker } from './ui/SheetPicker';
+import { JsonPicker } from './ui/JsonPicker';
+import { ParseIssues } from './ui/ParseIssues';
+import { ExportDialog } from './ui/ExportDialog';
+import { SegmentedControl } from './ui/SegmentedControl';
+import { FilterBuilder } from './ui/FilterBuilder';
+import { TaskProgress, useBackgroundTask } from './ui/TaskProgress';
+import { useToast } from './ui/Toast';
+import type { Dataset, CSVDialect, MalformedRowPolicy, FileReadOptions } from '../lib/csv';
+import type { ExportSource } from '../lib/exportFormats';
+import { cleanIdList, manifestRows, ID_DELIMITERS, DEFAULT_ID_DELIMITERS, MANIFEST_COLUMNS } from '../lib/deleteUtils';
+import type { CleanIds, IdDelimiter, DeletePreview, DeleteResult, DeleteManifest } from '../lib/deleteUtils';
+import { newGroup, filterProblem, describeFilter } from '../lib/rowFilter';
+import type { RowFilter } from '../lib/rowFilter';
+import { parseFileInBackground, reparseInBackground, runBackgroundTask, TaskCancelledError } from '../lib/workerClient';
+
+type DeleteMode = 'ids' | 'filter';
+type IdSource = 'paste' | 'file';
+
+const MODE_OPTIONS = [
+    { id: 'ids', label: 'ID list' },
+    { id: 'filter', label: 'Filter expression' },
+];
+
+const EMPTY_FILTER: RowFilter = { match: 'all', groups: [] };
 
 export function DeletePanel() {
-    const [original, setOriginal] = useState<ParsedCSV | null>(null);
+    const [original, setOriginal] = useState<Dataset | null>(null);
     const [key, setKey] = useState('');
+    const [mode, setMode] = useState<DeleteMode>('ids');
+    const [filter, setFilter] = useState<RowFilter>(EMPTY_FILTER);
+    const [idSource, setIdSource] = useState<IdSource>('paste');
     const [idsText, setIdsText] = useState('');
+    const [delimiters, setDelimiters] = useState<IdDelimiter[]>(DEFAULT_ID_DELIMITERS);
+    const [idsFile, setIdsFile] = useState<Dataset | null>(null);
+    const [idsColumn, setIdsColumn] = useState('');
+    const [keepOnly, setKeepOnly] = useState(false);
     const [
         options, setOptions
     ] = useState({ trim: true, dedup: true, ci: false });
 
     const [idsStats, setIdsStats] = useState('');
-    const [cleanIds, setCleanIds] = useState<{ list: string[], set: Set<string> }>({ list: [], set: new Set() });
+    const [cleanIds, setCleanIds] = useState<CleanIds>({ list: [], set: new Set(), detected: 0 });
 
     const [selectedCols, setSelectedCols] = useState<Set<string>>(new Set());
 
-    const [previewData, setPreviewData] = useState<{
-        toDelete: any[];
-        notFound: string[];
-    } | null>(null);
+    const [previewData, setPreviewData] = useState<DeletePreview | null>(null);
 
     const [summary, setSummary] = useState('');
+    const [exportSource, setExportSource] = useState<ExportSource | null>(null);
     const [deleteTab, setDeleteTab] = useState<'delete' | 'notfound'>('delete');
+    const [audit, setAudit] = useState<{ result: DeleteResult; manifest: DeleteManifest } | null>(null);
+    const [reportExport, setReportExport] = useState<{ source: ExportSource; action: string; title: string } | null>(null);
+
+    const fileTask = useBackgroundTask();
+    const idsTask = useBackgroundTask();
+    const task = useBackgroundTask();
+    const { showToast } = useToast();
 
     // 1. File
-    const handleOriginal = async (f: File) => {
-        const p = await parseCSVFile(f);
-        setOriginal(p);
+    const handleOriginal = async (f: File, opts: FileReadOptions, fileHandle?: FileSystemFileHandle) => {
+        const p = await fileTask.run(onProgress => parseFileInBackground(f, opts, onProgress));
+        setOriginal({ ...p, fileHandle });
+        setAudit(null);
         if (p.headers.length > 0) setKey(p.headers[0]);
         setSelectedCols(new Set(p.headers));
+        if (filter.groups.length === 0 && p.headers.length > 0) setFilter({ ...filter, groups: [newGroup(p.headers[0])] });
+        setPreviewData(null);
+    };
+
+    const handleMode = (next: DeleteMode) => {
+        setMode(next);
+        setPreviewData(null);
+        setSummary('');
+    };
+
+    const handleDialect = async (d: CSVDialect, policy?: MalformedRowPolicy) => {
+        if (!original) return;
+        let next: Dataset;
+        try {
+            next = await fileTask.run(onProgress => reparseInBackground(original, d, policy, onProgress));
+        } catch (err) {
+            if (!(err instanceof TaskCancelledError)) showToast(`Failed to re-read ${original.name}: ${err instanceof Error ? err.message : String(err)}`, 'error');
+            return;
+        }
+        setOriginal(next);
+        if (next.handle !== original.handle) {
+            if (!next.headers.includes(key)) setKey(next.headers[0] ?? '');
+            setSelectedCols(new Set(next.headers));
+            setPreviewData(null);
+        }
     };
 
     // 2. Clean IDs
-    const handleClean = () => {
-        const raw = idsText;
-        const parts = raw.split(/[\n\r\t,; ]+/).map(s => s.trim()).filter(Boolean);
-        const { trim, dedup, ci } = options;
-        const set = new Set<string>();
-        const list: string[] = [];
-
-        for (let p of parts) {
-            const k = trim ? p.trim() : p;
-            const probe = ci ? k.toLowerCase() : k;
-            if (dedup) {
-                if (!set.has(probe)) {
-                    set.add(probe);
-                    list.push(k);
-                }
-            } else {
-                list.push(k);
-                set.add(probe);
-            }
+    const handleIdsFile = async (f: File, opts: FileReadOptions) => {
+        const p = await idsTask.run(onProgress => parseFileInBackground(f, opts, onProgress));
+        setIdsFile(p);
+        setIdsColumn(p.headers.includes(key) ? key : p.headers[0] ?? '');
+    };
+
+    const toggleDelimiter = (d: IdDelimiter, on: boolean) =>
+        setDelimiters(on ? [...delimiters, d] : delimiters.filter(x => x !== d));
+
+    const handleClean = async () => {
+        if (idSource === 'file' && !idsFile) return;
+        let ids: CleanIds;
+        try {
+            ids = idSource === 'file'
+                ? await task.run(onProgress => runBackgroundTask('idsFromColumn', { csv: idsFile!, column: idsColumn, options }, onProgress))
+                : cleanIdList(idsText, options, delimiters);
+        } catch (err) {
+            if (!(err instanceof TaskCancelledError)) showToast(`Reading the IDs failed: ${err instanceof Error ? err.message : String(err)}`, 'error');
+            return;
         }
-        setCleanIds({ list, set });
-        setIdsStats(`IDs detected: ${parts.length}\nUnique: ${list.length}\nPreview: ${list.slice(0, 10).join(', ') || '(none)'}`);
+        setCleanIds(ids);
+        setIdsStats(`IDs detected: ${ids.detected}\nUnique: ${ids.list.length}\nPreview: ${ids.list.slice(0, 10).join(', ') || '(none)'}`);
     };
 
+    // 2b. Filter
+    const problem = useMemo(() => (original ? filterProblem(filter, original.headers) : null), [original, filter]);
+    const ready = mode === 'ids' ? cleanIds.list.length > 0 : !problem;
+
     // 3. Preview
-    const handlePreview = () => {
-        if (!original || !key || cleanIds.list.length === 0) return;
-
-        const { trim, ci } = options;
-
-        // Check presence
-        const presence = new Set(original.rows.map(r => {
-            const raw = String(r[key] ?? '');
-            const val = trim ? raw.trim() : raw;
-            return ci ? val.toLowerCase() : val;
-        }));
-
-        const toDelete = original.rows.filter(r => {
-            const raw = String(r[key] ?? '');
-            const val = trim ? raw.trim() : raw;
-            const probe = ci ? val.toLowerCase() : val;
-            return cleanIds.set.has(probe);
-        });
+    const handlePreview = async () => {
+        if (!original || !key || !ready || original.diagnostics.rejected) return;
 
-        const notFound = cleanIds.list.filter(id => {
-            const probe = ci ? id.toLowerCase() : id;
-            return !presence.has(probe);
-        });
+        let preview: DeletePreview;
+        try {
+            preview = await task.run(onProgress => mode === 'ids'
+                ? runBackgroundTask('deletePreview', { original, ids: cleanIds, options: { key, trim: options.trim, ci: options.ci, keepOnly } }, onProgress)
+                : runBackgroundTask('filterDeletePreview', { original, options: { filter, key } }, onProgress));
+        } catch (err) {
+            if (!(err instanceof TaskCancelledError)) showToast(`Preview failed: ${err instanceof Error ? err.message : String(err)}`, 'error');
+            return;
+        }
+
+        setPreviewData(preview);
+        setDeleteTab('delete');
+        setSummary(mode === 'ids'
+            ? `Delete preview → Will remove: ${preview.toDelete.length} / ${original.rowCount}${keepOnly ? ' (keeping only listed IDs)' : ''}, IDs not found: ${preview.notFound.length}`
+            : `Delete preview → Will remove: ${preview.toDelete.length} / ${original.rowCount} where ${describeFilter(filter)}`);
+    };
+
+    const handleRun = async () => {
+        if (!original || !key || !ready || original.diagnostics.rejected) return;
 
-        setPreviewData({ toDelete, notFound });
-        setSummary(`Delete preview → Will remove: ${toDelete.length} / ${original.rows.length}, IDs not found: ${notFound.length}`);
+        let result: DeleteResult;
+        try {
+            result = await task.run(onProgress => mode === 'ids'
+                ? runBackgroundTask('deleteRun', { original, ids: cleanIds, options: { key, trim: options.trim, ci: options.ci, keepOnly } }, onProgress)
+                : runBackgroundTask('filterDeleteRun', { original, options: { filter, key } }, onProgress));
+        } catch (err) {
+            if (!(err instanceof TaskCancelledError)) showToast(`Delete failed: ${err instanceof Error ? err.message : String(err)}`, 'error');
+            return;
+        }
+
+        setSummary(`Delete complete → Removed: ${result.removed}, Remaining: ${result.remaining}`);
+        setAudit({ result, manifest: describeRun(original, result) });
+        setExportSource({ headers: result.headers, rows: result.rows, csv: result.csv, dialect: original.dialect });
     };
 
-    const handleRun = () => {
-        if (!original || !key) return;
-        const { trim, ci } = options;
+    // 4. Audit
+    const describeRun = (file: Dataset, result: DeleteResult): DeleteManifest => {
+        let criteria: string;
+        let settings: string;
+        if (mode === 'filter') {
+            criteria = `Filter: ${describeFilter(filter)}`;
+            settings = '';
+        } else {
+            const source = idSource === 'file' && idsFile ? `column "${idsColumn}" of ${idsFile.name}` : 'pasted list';
+            criteria = `${keepOnly ? 'Keep only' : 'Delete'} ${cleanIds.list.length} IDs from ${source}`;
+            const split = idSource === 'paste' ? `, split on: ${delimiters.join(' ') || 'nothing'}` : '';
+            settings = `trim: ${options.trim}, dedupe: ${options.dedup}, case-insensitive: ${options.ci}${split}`;
+        }
+        return {
+            inputFile: file.name,
+            inputRows: file.rowCount,
+            keyColumn: key,
+            criteria,
+            options: settings,
+            removed: result.removed,
+            remaining: result.remaining,
+            notFound: result.notFound.length,
+            createdAt: new Date(),
+        };
+    };
 
-        const filtered = original.rows.filter(r => {
-            const raw = String(r[key] ?? '');
-            const val = trim ? raw.trim() : raw;
-            const probe = ci ? val.toLowerCase() : val;
-            return !cleanIds.set.has(probe);
+    const exportDeletedRows = () => {
+        if (!original || !audit) return;
+        const { result } = audit;
+        setReportExport({
+            source: { headers: result.headers, rows: result.deleted, csv: result.deletedCsv, dialect: original.dialect },
+            action: 'deleted_rows',
+            title: 'Export deleted rows'
         });
+    };
 
-        // Format-preserving export - remaining rows are unchanged, so changedKeys is empty
-        const changedKeys = new Set<string>();
-        const csv = formatPreservingExport(original.headers, filtered, original, key, changedKeys);
+    const exportNotFound = () => {
+        if (!original || !audit) return;
+        setReportExport({
+            source: { headers: [key], rows: audit.result.notFound.map(id => ({ [key]: id })), dialect: original.dialect },
+            action: 'not_found',
+            title: 'Export IDs not found'
+        });
+    };
 
-        navigator.clipboard.writeText(csv).then(() => {
-            alert(`Copied to clipboard! Removed: ${original.rows.length - filtered.length}, Remaining: ${filtered.length}`);
-        }).catch(() => {
-            alert('Failed to copy to clipboard');
+    const exportManifest = () => {
+        if (!original || !audit) return;
+        setReportExport({
+            source: { headers: MANIFEST_COLUMNS, rows: manifestRows(audit.manifest), dialect: original.dialect },
+            action: 'delete_manifest',
+            title: 'Export delete manifest'
         });
     };
 
@@ -118,9 +226,13 @@ export function DeletePanel() {
         setOriginal(null);
         setKey('');
         setIdsText('');
+        setIdsFile(null);
+        setIdsColumn('');
         setIdsStats('');
-        setCleanIds({ list: [], set: new Set() });
+        setCleanIds({ list: [], set: new Set(), detected: 0 });
+        setFilter(EMPTY_FILTER);
         setPreviewData(null);
+        setAudit(null);
         setSummary('');
     };
 
@@ -139,10 +251,31 @@ export function DeletePanel() {
                 <DropZone
                     label="Original CSV"
                     onFile={handleOriginal}
+                    progress={fileTask.progress}
+                    onCancel={fileTask.cancel}
                     name={original?.name}
-                    rowCount={original?.rows.length}
+                    rowCount={original?.rowCount}
                     columnCount={original?.headers.length}
-                />
+                >
+                    {original && <>
+                        {original.spreadsheet ? (
+                            <SheetPicker source={original.spreadsheet} fileHandle={original.fileHandle} onChange={handleOriginal} />
+                        ) : original.json ? (
+                            <JsonPicker source={original.json} fileHandle={original.fileHandle} onChange={handleOriginal} />
+                        ) : (
+                            <DialectPicker
+                                dialect={original.dialect}
+                                onChange={handleDialect}
+                                encoding={original.encoding}
+                                onEncodingChange={encoding => setOriginal({ ...original, encoding })}
+                            />
+                        )}
+                        <ParseIssues
+                            csv={original}
+                            onPolicyChange={policy => handleDialect(original.dialect, policy)}
+                        />
+                    </>}
+                </DropZone>
                 <Card>
                     <label>
                         Unique Column
@@ -151,39 +284,103 @@ export function DeletePanel() {
                     <select value={key} onChange={e => setKey(e.target.value)} disabled={!original}>
                         {original?.headers.map(h => <option key={h} value={h}>{h}</option>)}
                     </select>
-                    <p className="hint">Example: user_id, email, or product_sku</p>
+                    <p className="hint">
+                        {mode === 'ids'
+                            ? 'Example: user_id, email, or product_sku'
+                            : 'Not used for matching by filter; it lets the remaining rows keep their original formatting.'}
+                    </p>
                 </Card>
             </div>
 
             {/* Step 2 */}
             <div className="grid grid-2" style={{ marginTop: 12 }}>
                 <Card>
-                    <label>Paste IDs (one per line, or comma/semicolon/tab separated)</label>
-                    <textarea
-                        rows={8}
-                        placeholder="Paste IDs here…"
-                        value={idsText}
-                        onChange={e => setIdsText(e.target.value)}
-                    />
-                    <div className="actions" style={{ marginTop: 8 }}>
-                        <label>
-                            <input type="checkbox" checked={options.trim} onChange={e => setOptions({ ...options, trim: e.target.checked })} />
-                            Trim
-                            <HelpTooltip content="Remove leading and trailing whitespace from each ID." />
-                        </label>
-                        <label>
-                            <input type="checkbox" checked={options.dedup} onChange={e => setOptions({ ...options, dedup: e.target.checked })} />
-                            Dedupe
-                            <HelpTooltip content="Remove duplicate IDs from your list." />
-                        </label>
+                    <div style={{ marginBottom: 12 }}>
+                        <SegmentedControl options={MODE_OPTIONS} value={mode} onChange={id => handleMode(id as DeleteMode)} />
+                    </div>
+                    {mode === 'filter' && <>
                         <label>
-                            <input type="checkbox" checked={options.ci} onChange={e => setOptions({ ...options, ci: e.target.checked })} />
-                            Case-insensitive
-                            <HelpTooltip content="Match IDs regardless of uppercase/lowercase (e.g., 'ABC' will match 'abc')." />
+                            Delete rows where
+                            <HelpTooltip content="Conditions in a group are combined with AND (all) or OR (any); groups are combined the same way. Numeric and date comparisons never match cells that are not a number or a date." />
                         </label>
-                        <Button variant="secondary" onClick={handleClean}>Clean IDs</Button>
-                    </div>
-                    <pre className="stat">{idsStats}</pre>
+                        <FilterBuilder columns={original?.headers ?? []} filter={filter} onChange={setFilter} disabled={!original || task.busy} />
+                        {original && problem && <p className="hint">{problem}</p>}
+                    </>}
+                    {mode === 'ids' && <>
+                        <div className="actions" style={{ marginBottom: 8 }}>
+                            <label>
+                                <input type="radio" checked={idSource === 'paste'} onChange={() => setIdSource('paste')} />
+                                Paste IDs
+                            </label>
+                            <label>
+                                <input type="radio" checked={idSource === 'file'} onChange={() => setIdSource('file')} />
+                                Column of another file
+                            </label>
+                        </div>
+                        {idSource === 'paste' && <>
+                            <textarea
+                                rows={8}
+                                placeholder="Paste IDs here…"
+                                value={idsText}
+                                onChange={e => setIdsText(e.target.value)}
+                            />
+                            <div className="actions" style={{ marginTop: 8 }}>
+                                <span className="hint">Split on</span>
+                                {ID_DELIMITERS.map(d => (
+                                    <label key={d.value}>
+                                        <input type="checkbox" checked={delimiters.includes(d.value)} onChange={e => toggleDelimiter(d.value, e.target.checked)} />
+                                        {d.label}
+                                    </label>
+                                ))}
+                            </div>
+                        </>}
+                        {idSource === 'file' && (
+                            <DropZone
+                                label="IDs CSV"
+                                onFile={handleIdsFile}
+                                progress={idsTask.progress}
+                                onCancel={idsTask.cancel}
+                                name={idsFile?.name}
+                                rowCount={idsFile?.rowCount}
+                                columnCount={idsFile?.headers.length}
+                            >
+                                {idsFile && (
+                                    <label>
+                                        ID column
+                                        <select value={idsColumn} onChange={e => setIdsColumn(e.target.value)}>
+                                            {idsFile.headers.map(h => <option key={h} value={h}>{h}</option>)}
+                                        </select>
+                                    </label>
+                                )}
+                            </DropZone>
+                        )}
+                        <div className="actions" style={{ marginTop: 8 }}>
+                            <label>
+                                <input type="checkbox" checked={options.trim} onChange={e => setOptions({ ...options, trim: e.target.checked })} />
+                                Trim
+                                <HelpTooltip content="Remove leading and trailing whitespace from each ID." />
+                            </label>
+                            <label>
+                                <input type="checkbox" checked={options.dedup} onChange={e => setOptions({ ...options, dedup: e.target.checked })} />
+                                Dedupe
+                                <HelpTooltip content="Remove duplicate IDs from your list." />
+                            </label>
+                            <label>
+                                <input type="checkbox" checked={options.ci} onChange={e => setOptions({ ...options, ci: e.target.checked })} />
+                                Case-insensitive
+                                <HelpTooltip content="Match IDs regardless of uppercase/lowercase (e.g., 'ABC' will match 'abc')." />
+                            </label>
+                            <label>
+                                <input type="checkbox" checked={keepOnly} onChange={e => { setKeepOnly(e.target.checked); setPreviewData(null); }} />
+                                Keep only these IDs
+                                <HelpTooltip content="Inverse mode: keep the rows whose ID is listed and delete all others." />
+                            </label>
+                            <Button variant="secondary" onClick={handleClean} disabled={(idSource === 'file' && !idsFile) || task.busy}>
+                                {idSource === 'file' ? 'Load IDs' : 'Clean IDs'}
+                            </Button>
+                        </div>
+                        <pre className="stat">{idsStats}</pre>
+                    </>}
                 </Card>
                 {original && (
                     <ColumnPicker
@@ -195,14 +392,27 @@ export function DeletePanel() {
             </div>
 
             {/* Actions */}
-            {original && cleanIds.list.length > 0 && (
+            {original && ready && (
                 <div style={{ marginTop: 12 }}>
                     <Card>
                         <div className="actions">
-                            <Button variant="secondary" onClick={handlePreview} icon={<Eye size={16} />}>Preview</Button>
-                            <Button variant="danger" onClick={handleRun} icon={<Copy size={16} />}>Delete & Copy</Button>
-                            <Button variant="ghost" onClick={handleReset} icon={<RotateCcw size={16} />}>Reset</Button>
+                            <Button variant="secondary" onClick={handlePreview} disabled={original.diagnostics.rejected || task.busy} icon={<Eye size={16} />}>Preview</Button>
+                            <Button variant="danger" onClick={handleRun} disabled={original.diagnostics.rejected || task.busy} icon={<Download size={16} />}>Delete & Export…</Button>
+                            <Button variant="ghost" onClick={handleReset} disabled={task.busy} icon={<RotateCcw size={16} />}>Reset</Button>
                         </div>
+                        {audit && (
+                            <div className="actions" style={{ marginTop: 8 }}>
+                                <span className="hint">Audit of the last run:</span>
+                                <Button variant="secondary" onClick={exportDeletedRows} disabled={audit.result.removed === 0} icon={<FileX size={16} />}>
+                                    Deleted rows ({audit.result.removed})…
+                                </Button>
+                                <Button variant="secondary" onClick={exportNotFound} disabled={audit.result.notFound.length === 0} icon={<SearchX size={16} />}>
+                                    IDs not found ({audit.result.notFound.length})…
+                                </Button>
+                                <Button variant="secondary" onClick={exportManifest} icon={<ClipboardList size={16} />}>Manifest…</Button>
+                            </div>
+                        )}
+                        <TaskProgress progress={task.progress} onCancel={task.cancel} />
                         {summary && <div className="stat" style={{ marginTop: 8 }}>{summary}</div>}
                     </Card>
                 </div>
@@ -218,12 +428,14 @@ export function DeletePanel() {
                         >
                             To Delete ({previewData.toDelete.length})
                         </button>
-                        <button
-                            className={deleteTab === 'notfound' ? 'active' : ''}
-                            onClick={() => setDeleteTab('notfound')}
-                        >
-                            Not Found ({previewData.notFound.length})
-                        </button>
+                        {mode === 'ids' && (
+                            <button
+                                className={deleteTab === 'notfound' ? 'active' : ''}
+                                onClick={() => setDeleteTab('notfound')}
+                            >
+                                Not Found ({previewData.notFound.length})
+                            </button>
+                        )}
                     </div>
 
                     {deleteTab === 'delete' && (
@@ -235,7 +447,7 @@ export function DeletePanel() {
                         />
                     )}
 
-                    {deleteTab === 'notfound' && (
+                    {deleteTab === 'notfound' && mode === 'ids' && (
                         <div className="card">
                             <div className="header-row"><strong>IDs Not Found</strong></div>
                             <div className="table-wrap">
@@ -252,6 +464,25 @@ export function DeletePanel() {
                     )}
                 </div>
             )}
+
+            <ExportDialog
+                source={exportSource}
+                onClose={() => setExportSource(null)}
+                original={original}
+                action="deleted"
+                encoding={original?.encoding}
+                keyColumns={key ? [key] : []}
+                title="Export remaining rows"
+            />
+            <ExportDialog
+                source={reportExport?.source ?? null}
+                onClose={() => setReportExport(null)}
+                original={original && { ...original, fileHandle: undefined }}
+                action={reportExport?.action ?? ''}
+                encoding={original?.encoding}
+                keyColumns={key ? [key] : []}
+                title={reportExport?.title}
+            />
         </div>
     );
 }
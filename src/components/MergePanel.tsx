@@ -0,0 +1,346 @@
+import { useState, useMemo, useEffect } from 'react';
+import { GitMerge, Download, RotateCcw, FileWarning } from 'lucide-react';
+import { Card } from './ui/Card';
+import { DropZone } from './ui/DropZone';
+import { Stepper } from './ui/Stepper';
+import { Button } from './ui/Button';
+import { KeyColumnsPicker } from './ui/KeyColumnsPicker';
+import { Table } from './ui/Table';
+import { HelpTooltip } from './ui/HelpTooltip';
+import { DialectPicker } from './ui/DialectPicker';
+import { SheetPicker } from './ui/SheetPicker';
+import { JsonPicker } from './ui/JsonPicker';
+import { ParseIssues } from './ui/ParseIssues';
+import { ExportDialog } from './ui/ExportDialog';
+import { ConflictResolver } from './ui/ConflictResolver';
+import { KeyIssuesReport } from './ui/KeyIssuesReport';
+import { TaskProgress, useBackgroundTask } from './ui/TaskProgress';
+import { useToast } from './ui/Toast';
+import { rowKey } from '../lib/csv';
+import type { Dataset, CSVDialect, MalformedRowPolicy, FileReadOptions } from '../lib/csv';
+import type { ExportSource } from '../lib/exportFormats';
+import { CONFLICT_REPORT_COLUMNS } from '../lib/mergeUtils';
+import type { ThreeWayResult, ThreeWayKeyIssues, Resolution, ResolvedMerge, MergeConflict } from '../lib/mergeUtils';
+import { KEY_ISSUE_COLUMNS } from '../lib/keyIssues';
+import type { KeyIssues } from '../lib/keyIssues';
+import { parseFileInBackground, reparseInBackground, runBackgroundTask, TaskCancelledError } from '../lib/workerClient';
+
+type Role = 'base' | 'ours' | 'theirs';
+
+const ROLE_LABELS: Record<Role, string> = {
+    base: 'Base CSV (common ancestor)',
+    ours: 'Our CSV (local edits)',
+    theirs: 'Upstream CSV (fresh export)',
+};
+
+const BLANK_KEY_NOTES: Record<Role, string> = {
+    base: 'Base rows with a blank key are never matched.',
+    ours: 'Our rows with a blank key are kept as they are.',
+    theirs: 'Upstream rows with a blank key are added unless the same row is already in the base or our file.',
+};
+
+export function MergePanel() {
+    const [step, setStep] = useState(1);
+    const [files, setFiles] = useState<Record<Role, Dataset | null>>({ base: null, ours: null, theirs: null });
+    const [keys, setKeys] = useState<string[]>([]);
+    const [keyIssues, setKeyIssues] = useState<ThreeWayKeyIssues | null>(null);
+
+    const [result, setResult] = useState<ThreeWayResult | null>(null);
+    const [resolutions, setResolutions] = useState<(Resolution | null)[]>([]);
+
+    const [summary, setSummary] = useState('');
+    const [exportSource, setExportSource] = useState<ExportSource | null>(null);
+    const [exportAction, setExportAction] = useState<'merged' | 'conflicts'>('merged');
+    // Rows with duplicate or blank keys, exported through a second dialog
+    const [reportExport, setReportExport] = useState<{ source: ExportSource; file: Dataset } | null>(null);
+
+    const baseTask = useBackgroundTask();
+    const oursTask = useBackgroundTask();
+    const theirsTask = useBackgroundTask();
+    const tasks = { base: baseTask, ours: oursTask, theirs: theirsTask };
+    const task = useBackgroundTask();
+    const { showToast } = useToast();
+
+    const { base, ours, theirs } = files;
+    const ready = !!base && !!ours && !!theirs;
+
+    // 1. Files
+    const setFile = (role: Role, csv: Dataset | null) => {
+        setFiles(prev => {
+            const next = { ...prev, [role]: csv };
+            if (next.base && next.ours && next.theirs) setStep(s => Math.max(s, 2));
+            return next;
+        });
+        setResult(null);
+    };
+
+    const handleFile = (role: Role) => async (f: File, opts: FileReadOptions, fileHandle?: FileSystemFileHandle) => {
+        const p = await tasks[role].run(onProgress => parseFileInBackground(f, opts, onProgress));
+        // Only our file can be overwritten with the merge
+        setFile(role, role === 'ours' ? { ...p, fileHandle } : p);
+    };
+
+    const handleDialect = (role: Role) => async (d: CSVDialect, policy?: MalformedRowPolicy) => {
+        const csv = files[role];
+        if (!csv) return;
+        let next: Dataset;
+        try {
+            next = await tasks[role].run(onProgress => reparseInBackground(csv, d, policy, onProgress));
+        } catch (err) {
+            if (!(err instanceof TaskCancelledError)) showToast(`Failed to re-read ${csv.name}: ${err instanceof Error ? err.message : String(err)}`, 'error');
+            return;
+        }
+        if (next.handle !== csv.handle) setFile(role, next);
+        else setFiles(prev => ({ ...prev, [role]: next }));
+    };
+
+    // 2. Keys: columns present in all three files
+    const commonHeaders = useMemo(() => {
+        if (!base || !ours || !theirs) return [];
+        return ours.headers.filter(h => base.headers.includes(h) && theirs.headers.includes(h));
+    }, [base, ours, theirs]);
+
+    useEffect(() => {
+        const valid = keys.filter(k => commonHeaders.includes(k));
+        if (valid.length === 0 && commonHeaders.length > 0) {
+            setKeys([commonHeaders[0]]);
+        } else if (valid.length !== keys.length) {
+            setKeys(valid);
+        }
+    }, [commonHeaders, keys]);
+
+    // Duplicate and blank keys in all three files, checked whenever the files or keys change
+    useEffect(() => {
+        setKeyIssues(null);
+        if (!base || !ours || !theirs || keys.length === 0) return;
+        let stale = false;
+        runBackgroundTask('threeWayKeyIssues', { base, ours, theirs, options: { keys } }).promise
+            .then(result => { if (!stale) setKeyIssues(result); })
+            .catch(err => { if (!stale) showToast(`Key check failed: ${err instanceof Error ? err.message : String(err)}`, 'error'); });
+        return () => { stale = true; };
+    }, [base, ours, theirs, keys]);
+
+    const duplicated = !!keyIssues && (['base', 'ours', 'theirs'] as const).some(role => keyIssues[role].duplicates.length > 0);
+
+    const downloadKeyIssues = async (file: Dataset, issues: KeyIssues) => {
+        let rows: Record<string, any>[];
+        try {
+            rows = await task.run(onProgress => runBackgroundTask('keyIssueRows', { csv: file, issues }, onProgress));
+        } catch (err) {
+            if (!(err instanceof TaskCancelledError)) showToast(`Collecting the rows failed: ${err instanceof Error ? err.message : String(err)}`, 'error');
+            return;
+        }
+        setReportExport({
+            file: { ...file, fileHandle: undefined },   // A report never overwrites the input
+            source: { headers: [...KEY_ISSUE_COLUMNS, ...file.headers], rows, dialect: file.dialect }
+        });
+    };
+
+    const rejected = !!base?.diagnostics.rejected || !!ours?.diagnostics.rejected || !!theirs?.diagnostics.rejected;
+    const unresolved = resolutions.filter(r => r === null).length;
+
+    // 3. Merge
+    const handleMerge = async () => {
+        if (!base || !ours || !theirs || keys.length === 0 || rejected || duplicated) return;
+
+        let merged: ThreeWayResult;
+        try {
+            merged = await task.run(onProgress => runBackgroundTask('threeWayMerge', { base, ours, theirs, options: { keys } }, onProgress));
+        } catch (err) {
+            if (!(err instanceof TaskCancelledError)) showToast(`Merge failed: ${err instanceof Error ? err.message : String(err)}`, 'error');
+            return;
+        }
+
+        setResult(merged);
+        setResolutions(merged.conflicts.map(() => null));
+        setSummary(`Merge → Rows: ${merged.rows.length}, Cells from ours: ${merged.fromOurs}, Cells from upstream: ${merged.fromTheirs}, Rows added: ${merged.added}, Rows deleted: ${merged.deleted}, Conflicts: ${merged.conflicts.length}`);
+        setStep(3);
+    };
+
+    const resolve = async (): Promise<ResolvedMerge | null> => {
+        if (!result || !ours || unresolved > 0) return null;
+        try {
+            return await task.run(onProgress => runBackgroundTask('threeWayResolve', { result, resolutions: resolutions as Resolution[], ours, options: { keys } }, onProgress));
+        } catch (err) {
+            if (!(err instanceof TaskCancelledError)) showToast(`Applying the resolutions failed: ${err instanceof Error ? err.message : String(err)}`, 'error');
+            return null;
+        }
+    };
+
+    const handleExportMerged = async () => {
+        const resolved = await resolve();
+        if (!resolved || !ours) return;
+        setExportAction('merged');
+        setExportSource({
+            headers: resolved.headers,
+            rows: resolved.rows,
+            csv: resolved.csv,
+            dialect: ours.dialect,
+            sheets: [
+                { name: 'Merged', headers: resolved.headers, rows: resolved.rows },
+                { name: 'Conflicts', headers: CONFLICT_REPORT_COLUMNS, rows: resolved.report },
+            ]
+        });
+    };
+
+    const handleExportReport = async () => {
+        const resolved = await resolve();
+        if (!resolved || !ours) return;
+        setExportAction('conflicts');
+        setExportSource({ headers: CONFLICT_REPORT_COLUMNS, rows: resolved.report, dialect: ours.dialect });
+    };
+
+    const handleReset = () => {
+        setFiles({ base: null, ours: null, theirs: null });
+        setKeys([]);
+        setResult(null);
+        setResolutions([]);
+        setStep(1);
+        setSummary('');
+    };
+
+    // Conflicting cells of the merged rows, for highlighting
+    const conflictCells = useMemo(() => {
+        const map = new Map<string, Map<string | null, MergeConflict>>();
+        result?.conflicts.forEach(c => {
+            if (!map.has(c.id)) map.set(c.id, new Map());
+            map.get(c.id)!.set(c.column, c);
+        });
+        return map;
+    }, [result]);
+
+    const fileCard = (role: Role) => {
+        const csv = files[role];
+        return (
+            <DropZone
+                label={ROLE_LABELS[role]}
+                onFile={handleFile(role)}
+                progress={tasks[role].progress}
+                onCancel={tasks[role].cancel}
+                name={csv?.name}
+                rowCount={csv?.rowCount}
+                columnCount={csv?.headers.length}
+            >
+                {csv && <>
+                    {csv.spreadsheet
+                        ? <SheetPicker source={csv.spreadsheet} fileHandle={csv.fileHandle} onChange={handleFile(role)} />
+                        : csv.json
+                            ? <JsonPicker source={csv.json} fileHandle={csv.fileHandle} onChange={handleFile(role)} />
+                            : <DialectPicker dialect={csv.dialect} onChange={handleDialect(role)} />}
+                    <ParseIssues csv={csv} onPolicyChange={policy => handleDialect(role)(csv.dialect, policy)} />
+                </>}
+            </DropZone>
+        );
+    };
+
+    return (
+        <div>
+            <Card style={{ marginBottom: 16 }}>
+                <Stepper steps={['Upload Files', 'Keys', 'Resolve & Export']} currentStep={step} />
+            </Card>
+
+            {/* Step 1: Files */}
+            <div className="grid grid-3">
+                {fileCard('base')}
+                {fileCard('ours')}
+                {fileCard('theirs')}
+            </div>
+
+            {/* Step 2: Keys */}
+            {ready && (
+                <div style={{ marginTop: 12 }}>
+                    <Card>
+                        <label>
+                            Key Columns
+                            <HelpTooltip content="Rows of the three files are matched by these columns. Changes made on only one side are applied automatically; cells both sides changed differently, and rows deleted on one side but changed on the other, are conflicts you resolve before exporting." />
+                        </label>
+                        <KeyColumnsPicker
+                            available={commonHeaders}
+                            selected={keys}
+                            onChange={setKeys}
+                            disabled={step > 2 && !!result}
+                        />
+                        <p className="hint">Only columns present in all three files are shown. Each key must appear at most once per file.</p>
+                        {keyIssues && (['base', 'ours', 'theirs'] as const).map(role => (
+                            <KeyIssuesReport
+                                key={role}
+                                label={ROLE_LABELS[role]}
+                                issues={keyIssues[role]}
+                                onDownload={() => downloadKeyIssues(files[role]!, keyIssues[role])}
+                                blankNote={BLANK_KEY_NOTES[role]}
+                            />
+                        ))}
+                    </Card>
+                </div>
+            )}
+
+            {/* Actions */}
+            {ready && (
+                <div style={{ marginTop: 12 }}>
+                    <Card>
+                        <div className="actions">
+                            <Button variant="primary" onClick={handleMerge} disabled={keys.length === 0 || rejected || duplicated || task.busy} icon={<GitMerge size={16} />}>
+                                Merge
+                            </Button>
+                            <Button variant="ok" onClick={handleExportMerged} disabled={!result || unresolved > 0 || task.busy} icon={<Download size={16} />}>
+                                Export merged…
+                            </Button>
+                            <Button variant="secondary" onClick={handleExportReport} disabled={!result || unresolved > 0 || task.busy} icon={<FileWarning size={16} />}>
+                                Conflict report…
+                            </Button>
+                            <Button variant="ghost" onClick={handleReset} disabled={task.busy} icon={<RotateCcw size={16} />}>
+                                Reset
+                            </Button>
+                        </div>
+                        <TaskProgress progress={task.progress} onCancel={task.cancel} />
+                        {summary && <div className="stat" style={{ marginTop: 8 }}>{summary}</div>}
+                        {result && unresolved > 0 && (
+                            <p className="hint">Resolve every conflict to export the merged file and the conflict report.</p>
+                        )}
+                    </Card>
+                </div>
+            )}
+
+            {/* Step 3: Conflicts and merged rows */}
+            {result && result.conflicts.length > 0 && (
+                <div style={{ marginTop: 12 }}>
+                    <ConflictResolver conflicts={result.conflicts} resolutions={resolutions} onChange={setResolutions} />
+                </div>
+            )}
+
+            {result && (
+                <div style={{ marginTop: 12 }}>
+                    <Table
+                        title="Merged Rows"
+                        hint="Conflicting cells show our value until resolved (hover for all versions)"
+                        headers={result.headers}
+                        rows={result.rows}
+                        rowClassFn={row => (conflictCells.get(rowKey(row, keys))?.has(null) ? 'removed' : '')}
+                        cellInfoFn={(row, h) => {
+                            const c = conflictCells.get(rowKey(row, keys))?.get(h);
+                            return c ? { className: 'deleted', title: `base: ${c.base} • ours: ${c.ours} • upstream: ${c.theirs}` } : null;
+                        }}
+                    />
+                </div>
+            )}
+
+            <ExportDialog
+                source={exportSource}
+                onClose={() => setExportSource(null)}
+                original={exportAction === 'merged' ? ours : ours && { ...ours, fileHandle: undefined }}
+                action={exportAction}
+                encoding={ours?.encoding}
+                keyColumns={keys}
+                title={exportAction === 'merged' ? 'Export merged file' : 'Export conflict report'}
+            />
+            <ExportDialog
+                source={reportExport?.source ?? null}
+                onClose={() => setReportExport(null)}
+                original={reportExport?.file ?? null}
+                action="key_issues"
+                encoding={reportExport?.file.encoding}
+                title="Download rows with duplicate or blank keys"
+            />
+        </div>
+    );
+}
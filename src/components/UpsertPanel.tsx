@@ -1,182 +1,274 @@
 import { useState, useMemo, useEffect } from 'react';
-import { Eye, Copy, RotateCcw } from 'lucide-react';
+import { Eye, Download, RotateCcw, ScrollText, Undo2, Redo2 } from 'lucide-react';
 import { Card } from './ui/Card';
 import { DropZone } from './ui/DropZone';
 import { Stepper } from './ui/Stepper';
 import { Button } from './ui/Button';
 import { ColumnPicker } from './ui/ColumnPicker';
+import { KeyColumnsPicker } from './ui/KeyColumnsPicker';
+import { ColumnMappingEditor } from './ui/ColumnMappingEditor';
+import { MergePolicyEditor } from './ui/MergePolicyEditor';
+import { KeyIssuesReport } from './ui/KeyIssuesReport';
+import { ReviewToolbar, matchesReviewFilter, EMPTY_REVIEW_FILTER } from './ui/ReviewToolbar';
+import type { ReviewFilter } from './ui/ReviewToolbar';
 import { Table } from './ui/Table';
+import type { CellInfo } from './ui/Table';
 import { HelpTooltip } from './ui/HelpTooltip';
-import { parseCSVFile, formatPreservingExport } from '../lib/csv';
-import type { ParsedCSV } from '../lib/csv';
+import { DialectPicker } from './ui/DialectPicker';
+import { SheetPicker } from './ui/SheetPicker';
+import { JsonPicker } from './ui/JsonPicker';
+import { ParseIssues } from './ui/ParseIssues';
+import { ExportDialog } from './ui/ExportDialog';
+import { TaskProgress, useBackgroundTask } from './ui/TaskProgress';
+import { useToast } from './ui/Toast';
+import { rowKey } from '../lib/csv';
+import type { Dataset, CSVDialect, MalformedRowPolicy, FileReadOptions } from '../lib/csv';
+import type { ExportSource } from '../lib/exportFormats';
+import { DEFAULT_SYNC_OPTIONS, DEFAULT_DUPLICATE_RESOLUTION, CHANGE_LOG_COLUMNS } from '../lib/upsertUtils';
+import type { HeaderMode, SyncMode, SyncOptions, DuplicateResolution, UpsertKeyIssues, UpsertPreview, UpsertResult, UpsertReview, ChangeLogEntry } from '../lib/upsertUtils';
+import { KEY_ISSUE_COLUMNS } from '../lib/keyIssues';
+import type { KeyIssues } from '../lib/keyIssues';
+import { initialMapping, mappingConflicts } from '../lib/columnMapping';
+import type { ColumnMapping } from '../lib/columnMapping';
+import { DEFAULT_MERGE_OPTIONS, policyInfo } from '../lib/mergePolicies';
+import type { MergeOptions } from '../lib/mergePolicies';
+import { parseFileInBackground, reparseInBackground, runBackgroundTask, TaskCancelledError } from '../lib/workerClient';
 
 export function UpsertPanel() {
     const [step, setStep] = useState(1);
-    const [original, setOriginal] = useState<ParsedCSV | null>(null);
-    const [mods, setMods] = useState<ParsedCSV | null>(null);
-    const [key, setKey] = useState('');
-    const [headerMode, setHeaderMode] = useState<'original' | 'union'>('original');
+    const [original, setOriginal] = useState<Dataset | null>(null);
+    const [mods, setMods] = useState<Dataset | null>(null);
+    const [mapping, setMapping] = useState<ColumnMapping>({});
+    const [keys, setKeys] = useState<string[]>([]);
+    const [headerMode, setHeaderMode] = useState<HeaderMode>('original');
+    const [merge, setMerge] = useState<MergeOptions>(DEFAULT_MERGE_OPTIONS);
+    const [sync, setSync] = useState<SyncOptions>(DEFAULT_SYNC_OPTIONS);
+    const [keyIssues, setKeyIssues] = useState<UpsertKeyIssues | null>(null);
+    const [duplicates, setDuplicates] = useState<DuplicateResolution>(DEFAULT_DUPLICATE_RESOLUTION);
+    const [insertBlankKeys, setInsertBlankKeys] = useState(false);
 
     const [selectedCols, setSelectedCols] = useState<Set<string>>(new Set());
     const [showOnlyChanged, setShowOnlyChanged] = useState(false);
-    const [previewTab, setPreviewTab] = useState<'updates' | 'inserts'>('updates');
+    const [previewTab, setPreviewTab] = useState<'updates' | 'inserts' | 'deletes'>('updates');
 
-    const [previewData, setPreviewData] = useState<{
-        updates: any[];
-        inserts: any[];
-        changedById: Map<string, Record<string, string>>;
-        headersOut: string[];
-    } | null>(null);
+    const [previewData, setPreviewData] = useState<UpsertPreview | null>(null);
+    // Review of the preview: rejected rows and reverted cells, by rowKey
+    const [rejectedIds, setRejectedIds] = useState<Set<string>>(new Set());
+    const [reverted, setReverted] = useState<Map<string, Set<string>>>(new Map());
+    const [reviewFilter, setReviewFilter] = useState<ReviewFilter>(EMPTY_REVIEW_FILTER);
 
     const [summary, setSummary] = useState('');
+    const [exportSource, setExportSource] = useState<ExportSource | null>(null);
+    const [changeLog, setChangeLog] = useState<ChangeLogEntry[] | null>(null);
+    // Side reports (key issues, change log) exported through a second dialog
+    const [reportExport, setReportExport] = useState<{ source: ExportSource; file: Dataset; action: string; title: string } | null>(null);
+
+    const originalTask = useBackgroundTask();
+    const modsTask = useBackgroundTask();
+    const task = useBackgroundTask();
+    const { showToast } = useToast();
 
     // 1. Files
-    const handleOriginal = async (f: File) => {
-        const p = await parseCSVFile(f);
-        setOriginal(p);
+    const handleOriginal = async (f: File, opts: FileReadOptions, fileHandle?: FileSystemFileHandle) => {
+        const p = await originalTask.run(onProgress => parseFileInBackground(f, opts, onProgress));
+        setOriginal({ ...p, fileHandle });
         if (mods) setStep(2);
     };
-    const handleMods = async (f: File) => {
-        const p = await parseCSVFile(f);
+    const handleMods = async (f: File, opts: FileReadOptions) => {
+        const p = await modsTask.run(onProgress => parseFileInBackground(f, opts, onProgress));
         setMods(p);
         if (original) setStep(2);
     };
 
-    // 2. Keys
+    const reparse = async (csv: Dataset, d: CSVDialect, policy: MalformedRowPolicy | undefined, fileTask: ReturnType<typeof useBackgroundTask>) => {
+        try {
+            return await fileTask.run(onProgress => reparseInBackground(csv, d, policy, onProgress));
+        } catch (err) {
+            if (!(err instanceof TaskCancelledError)) showToast(`Failed to re-read ${csv.name}: ${err instanceof Error ? err.message : String(err)}`, 'error');
+            return null;
+        }
+    };
+
+    const handleOriginalDialect = async (d: CSVDialect, policy?: MalformedRowPolicy) => {
+        if (!original) return;
+        const next = await reparse(original, d, policy, originalTask);
+        if (!next) return;
+        setOriginal(next);
+        if (next.handle !== original.handle) {
+            setKeys([]);
+            setPreviewData(null);
+        }
+    };
+    const handleModsDialect = async (d: CSVDialect, policy?: MalformedRowPolicy) => {
+        if (!mods) return;
+        const next = await reparse(mods, d, policy, modsTask);
+        if (!next) return;
+        setMods(next);
+        if (next.handle !== mods.handle) {
+            setKeys([]);
+            setPreviewData(null);
+        }
+    };
+
+    // 2. Column mapping: start from a saved mapping for these columns, or the suggestions
+    useEffect(() => {
+        if (!original || !mods) return;
+        const initial = initialMapping(original.headers, mods.headers);
+        setMapping(initial.mapping);
+        if (initial.saved) showToast(`Applied saved mapping "${initial.saved.name}"`, 'info');
+    }, [original?.headers, mods?.headers]);
+
+    // Modifications columns under their mapped names (ignored ones dropped)
+    const mappedModsHeaders = useMemo(() => {
+        if (!mods) return [];
+        const out = mods.headers
+            .map(h => (Object.prototype.hasOwnProperty.call(mapping, h) ? mapping[h] : h))
+            .filter((h): h is string => h !== null);
+        return [...new Set(out)];
+    }, [mods, mapping]);
+
+    const conflicts = mappingConflicts(mapping);
+
+    // 3. Keys
     const commonHeaders = useMemo(() => {
-        if (!original || !mods) return [];
+        if (!original) return [];
         const setA = new Set(original.headers);
-        return mods.headers.filter(h => setA.has(h));
-    }, [original, mods]);
+        return mappedModsHeaders.filter(h => setA.has(h));
+    }, [original, mappedModsHeaders]);
 
     useEffect(() => {
-        if (commonHeaders.length > 0 && !key) {
-            setKey(commonHeaders[0]);
+        // Drop key columns that are no longer in both files; default to the first common column
+        const valid = keys.filter(k => commonHeaders.includes(k));
+        if (valid.length === 0 && commonHeaders.length > 0) {
+            setKeys([commonHeaders[0]]);
+        } else if (valid.length !== keys.length) {
+            setKeys(valid);
         }
-    }, [commonHeaders, key]);
+    }, [commonHeaders, keys]);
 
-    // 3. Preview Logic
-    const handlePreview = () => {
-        if (!original || !mods || !key) return;
+    // Keys are being chosen once the mapping has no conflicts; back to mapping when it has
+    useEffect(() => {
+        if (step < 2 || (step === 4 && previewData)) return;
+        setStep(conflicts.length === 0 && keys.length > 0 ? 3 : 2);
+    }, [step, previewData, conflicts.length, keys.length]);
 
-        let headersOut = [...original.headers];
-        if (headerMode === 'union') {
-            const seen = new Set(headersOut);
-            mods.headers.forEach(h => {
-                if (!seen.has(h)) { headersOut.push(h); seen.add(h); }
-            });
-        }
+    // Columns the modifications file can update in matched rows
+    const mergeColumns = useMemo(() => {
+        if (!original) return [];
+        return mappedModsHeaders.filter(h => !keys.includes(h) && (headerMode === 'union' || original.headers.includes(h)));
+    }, [original, mappedModsHeaders, keys, headerMode]);
 
-        const modMap = new Map();
-        mods.rows.forEach(r => {
-            const id = String(r[key] ?? '').trim();
-            if (id) modMap.set(id, r);
+    // Duplicate and blank keys in both files, checked whenever the keys or mapping change
+    useEffect(() => {
+        setKeyIssues(null);
+        if (!original || !mods || keys.length === 0 || conflicts.length > 0) return;
+        let stale = false;
+        runBackgroundTask('upsertKeyIssues', { original, mods, options: { keys, headerMode, mapping } }).promise
+            .then(result => { if (!stale) setKeyIssues(result); })
+            .catch(err => { if (!stale) showToast(`Key check failed: ${err instanceof Error ? err.message : String(err)}`, 'error'); });
+        return () => { stale = true; };
+    }, [original, mods, keys, mapping]);
+
+    const aborted = !!keyIssues && (
+        (duplicates.original === 'abort' && keyIssues.original.duplicates.length > 0) ||
+        (duplicates.mods === 'abort' && keyIssues.mods.duplicates.length > 0)
+    );
+
+    const downloadKeyIssues = async (file: Dataset, issues: KeyIssues) => {
+        let rows: Record<string, any>[];
+        try {
+            rows = await task.run(onProgress => runBackgroundTask('keyIssueRows', { csv: file, issues }, onProgress));
+        } catch (err) {
+            if (!(err instanceof TaskCancelledError)) showToast(`Collecting the rows failed: ${err instanceof Error ? err.message : String(err)}`, 'error');
+            return;
+        }
+        setReportExport({
+            file: { ...file, fileHandle: undefined },   // A report never overwrites the input
+            source: { headers: [...KEY_ISSUE_COLUMNS, ...file.headers], rows, dialect: file.dialect },
+            action: 'key_issues',
+            title: 'Download rows with duplicate or blank keys'
         });
+    };
 
-        const updatesAfter: any[] = [];
-        const inserts: any[] = [];
-        const changedById = new Map<string, Record<string, string>>();
-        let updatedCount = 0;
-
-        original.rows.forEach(or => {
-            const id = String(or[key] ?? '').trim();
-            if (id && modMap.has(id)) {
-                const mr = modMap.get(id);
-                const after = { ...or, ...mr };
-                const changed: Record<string, string> = {};
-                headersOut.forEach(h => {
-                    const before = or[h] ?? '';
-                    const aft = after[h] ?? '';
-                    if (String(before) !== String(aft)) changed[h] = before;
-                });
-                // Only count as update if there are actual changes
-                if (Object.keys(changed).length > 0) {
-                    changedById.set(id, changed);
-                    updatesAfter.push(after);
-                    updatedCount++;
-                }
-                modMap.delete(id);
-            }
+    const downloadChangeLog = () => {
+        if (!original || !changeLog) return;
+        setReportExport({
+            file: { ...original, fileHandle: undefined },
+            source: { headers: CHANGE_LOG_COLUMNS, rows: changeLog, dialect: original.dialect },
+            action: 'changelog',
+            title: 'Export upsert change log'
         });
+    };
 
-        for (const [, r] of modMap) {
-            inserts.push(r);
+    const rejected = !!original?.diagnostics.rejected || !!mods?.diagnostics.rejected;
+    const syncIncomplete = sync.mode === 'flag' && (!sync.flagColumn.trim() || keys.includes(sync.flagColumn));
+    const blocked = rejected || conflicts.length > 0 || syncIncomplete || aborted;
+    const deleteVerb = sync.mode === 'flag' ? 'Flagged' : 'Deleted';
+
+    // 4. Preview Logic
+    const handlePreview = async () => {
+        if (!original || !mods || keys.length === 0 || blocked) return;
+
+        let preview: UpsertPreview;
+        try {
+            preview = await task.run(onProgress => runBackgroundTask('upsertPreview', { original, mods, options: { keys, headerMode, mapping, merge, sync, duplicates, insertBlankKeys } }, onProgress));
+        } catch (err) {
+            if (!(err instanceof TaskCancelledError)) showToast(`Preview failed: ${err instanceof Error ? err.message : String(err)}`, 'error');
+            return;
         }
 
-        setPreviewData({
-            updates: updatesAfter,
-            inserts: inserts,
-            changedById,
-            headersOut
-        });
-        setSummary(`Upsert preview → Updated: ${updatedCount}, Inserted: ${inserts.length}, Output columns: ${headersOut.length}`);
+        setPreviewData(preview);
+        setRejectedIds(new Set());
+        setReverted(new Map());
+        const kept = preview.keptByPolicy > 0 ? `, Kept by merge policies: ${preview.keptByPolicy}` : '';
+        const removed = sync.mode !== 'off' ? `, ${deleteVerb}: ${preview.deletes.length}` : '';
+        setSummary(`Upsert preview → Updated: ${preview.updates.length}, Inserted: ${preview.inserts.length}${removed}${kept}, Output columns: ${preview.headersOut.length}`);
+        if (sync.mode === 'off' && previewTab === 'deletes') setPreviewTab('updates');
 
         // Select all columns by default for preview
-        setSelectedCols(new Set(headersOut));
-        setStep(3);
+        setSelectedCols(new Set(preview.headersOut));
+        setStep(4);
     };
 
-    const handleRun = () => {
-        if (!original || !mods || !key) return;
-
-        let headersOut = [...original.headers];
-        if (headerMode === 'union') {
-            const seen = new Set(headersOut);
-            mods.headers.forEach(h => { if (!seen.has(h)) { headersOut.push(h); seen.add(h); } });
-        }
-
-        const modMap = new Map();
-        mods.rows.forEach(r => {
-            const id = String(r[key] ?? '').trim();
-            if (id) modMap.set(id, r);
-        });
+    // Only rows reviewed in the current preview are turned down
+    const currentReview = (): UpsertReview | undefined => {
+        if (!previewData) return undefined;
+        return {
+            rejected: [...rejectedIds],
+            reverted: Object.fromEntries([...reverted].map(([id, cols]) => [id, [...cols]]))
+        };
+    };
 
-        let updated = 0, inserted = 0;
-        const changedKeys = new Set<string>();  // Track which rows changed
-
-        const outRows = original.rows.map(r => {
-            const row = { ...r }; // shallow clone
-            const id = String(row[key] ?? '').trim();
-            if (id && modMap.has(id)) {
-                const mr = modMap.get(id);
-                // Check if there are actual changes before counting as update
-                let hasChanges = false;
-                headersOut.forEach(h => {
-                    const before = row[h] ?? '';
-                    const after = mr[h] !== undefined ? mr[h] : row[h] ?? '';
-                    if (String(before) !== String(after)) hasChanges = true;
-                });
-                if (hasChanges) {
-                    Object.assign(row, mr);
-                    changedKeys.add(id);  // Mark as changed
-                    updated++;
-                }
-                modMap.delete(id);
-            }
-            return row;
-        });
+    const handleRun = async () => {
+        if (!original || !mods || keys.length === 0 || blocked) return;
 
-        // Insert new rows (all marked as changed since they're new)
-        for (const [id, r] of modMap) {
-            outRows.push(r);
-            changedKeys.add(id);
-            inserted++;
+        let result: UpsertResult;
+        try {
+            result = await task.run(onProgress => runBackgroundTask('upsertRun', { original, mods, options: { keys, headerMode, mapping, merge, sync, duplicates, insertBlankKeys, review: currentReview() } }, onProgress));
+        } catch (err) {
+            if (!(err instanceof TaskCancelledError)) showToast(`Upsert failed: ${err instanceof Error ? err.message : String(err)}`, 'error');
+            return;
         }
 
-        // Format-preserving export: unchanged rows stay byte-identical
-        const csv = formatPreservingExport(headersOut, outRows, original, key, changedKeys);
-
-        navigator.clipboard.writeText(csv).then(() => {
-            alert(`Copied to clipboard! Updated: ${updated}, Inserted: ${inserted}`);
-        }).catch(() => {
-            alert('Failed to copy to clipboard');
-        });
+        const removed = sync.mode !== 'off' ? `, ${deleteVerb}: ${result.deleted}` : '';
+        setSummary(`Upsert complete → Updated: ${result.updated}, Inserted: ${result.inserted}${removed}, Cells changed: ${result.changeLog.length}`);
+        setChangeLog(result.changeLog);
+        setExportSource({ headers: result.headers, rows: result.rows, csv: result.csv, dialect: original.dialect });
     };
 
     const handleReset = () => {
         setOriginal(null);
         setMods(null);
-        setKey('');
+        setMapping({});
+        setKeys([]);
+        setMerge(DEFAULT_MERGE_OPTIONS);
+        setSync(DEFAULT_SYNC_OPTIONS);
+        setDuplicates(DEFAULT_DUPLICATE_RESOLUTION);
+        setInsertBlankKeys(false);
+        setChangeLog(null);
+        setRejectedIds(new Set());
+        setReverted(new Map());
+        setReviewFilter(EMPTY_REVIEW_FILTER);
         setPreviewData(null);
         setStep(1);
         setSummary('');
@@ -191,22 +283,111 @@ export function UpsertPanel() {
             const changedSet = new Set<string>();
             // Check updates
             previewData.updates.forEach(row => {
-                const id = String(row[key] ?? '').trim();
+                const id = rowKey(row, keys);
                 const changed = previewData.changedById.get(id) || {};
                 Object.keys(changed).forEach(c => changedSet.add(c));
             });
-            changedSet.add(key);
+            keys.forEach(k => changedSet.add(k));
             cols = cols.filter(c => changedSet.has(c));
         }
 
-        if (cols.length === 0 && previewData) return [key];
+        if (cols.length === 0 && previewData) return keys;
         return cols;
-    }, [previewData, selectedCols, showOnlyChanged, key]);
+    }, [previewData, selectedCols, showOnlyChanged, keys]);
+
+    // Rows of the current preview tab, narrowed by the review filter
+    const tabRows = !previewData ? [] :
+        previewTab === 'updates' ? previewData.updates :
+            previewTab === 'inserts' ? previewData.inserts : previewData.deletes;
+    const visibleRows = useMemo(
+        () => tabRows.filter(r => matchesReviewFilter(r, reviewFilter, previewCols)),
+        [tabRows, reviewFilter, previewCols]
+    );
+    const visibleIds = visibleRows.map(r => rowKey(r, keys)).filter(Boolean);
+
+    const setAccepted = (ids: string[], accept: boolean) => {
+        const next = new Set(rejectedIds);
+        ids.forEach(id => (accept ? next.delete(id) : next.add(id)));
+        setRejectedIds(next);
+    };
+
+    const toggleRevert = (id: string, column: string) => {
+        const next = new Map(reverted);
+        const cols = new Set(next.get(id));
+        if (cols.has(column)) cols.delete(column);
+        else cols.add(column);
+        if (cols.size > 0) next.set(id, cols);
+        else next.delete(id);
+        setReverted(next);
+    };
+
+    const rowControl = (row: Record<string, any>) => {
+        const id = rowKey(row, keys);
+        if (!id) return null;   // Blank-key inserts can't be told apart; they follow the blank key setting
+        return (
+            <input
+                type="checkbox"
+                checked={!rejectedIds.has(id)}
+                onChange={e => setAccepted([id], e.target.checked)}
+                aria-label={`Accept change for ${id}`}
+            />
+        );
+    };
+
+    const reviewClass = (row: Record<string, any>, base: string) =>
+        rejectedIds.has(rowKey(row, keys)) ? `${base} rejected`.trim() : base;
+
+    const updateCellInfo = (row: Record<string, any>, h: string): CellInfo | null => {
+        const id = rowKey(row, keys);
+        const old = previewData?.changedById.get(id)?.[h];
+        const decision = previewData?.decisionsById.get(id)?.[h];
+        const policy = decision ? policyInfo(decision.policy) : null;
+        if (old === undefined) {
+            return decision && policy
+                ? { className: 'kept', title: `kept original; modifications had: ${decision.incoming} (${policy.label})`, badge: policy.badge }
+                : null;
+        }
+        if (reverted.get(id)?.has(h)) {
+            return {
+                className: 'kept',
+                title: `reverted to the original; modifications had: ${row[h] ?? ''}`,
+                badge: 'reverted',
+                display: old,
+                action: (
+                    <button type="button" className="cell-action" onClick={() => toggleRevert(id, h)} aria-label={`Apply change to ${h}`}>
+                        <Redo2 size={12} />
+                    </button>
+                )
+            };
+        }
+        return {
+            className: 'changed',
+            title: `was: ${old}${policy ? ` (${policy.label})` : ''}`,
+            badge: policy?.badge,
+            action: (
+                <button type="button" className="cell-action" onClick={() => toggleRevert(id, h)} aria-label={`Revert ${h}`}>
+                    <Undo2 size={12} />
+                </button>
+            )
+        };
+    };
+
+    const reviewToolbar = (
+        <ReviewToolbar
+            columns={previewCols}
+            filter={reviewFilter}
+            onFilterChange={setReviewFilter}
+            matching={visibleIds.length}
+            accepted={visibleIds.filter(id => !rejectedIds.has(id)).length}
+            onAcceptAll={() => setAccepted(visibleIds, true)}
+            onRejectAll={() => setAccepted(visibleIds, false)}
+        />
+    );
 
     return (
         <div>
             <Card style={{ marginBottom: 16 }}>
-                <Stepper steps={['Files', 'Keys & Columns', 'Preview & Export']} currentStep={step} />
+                <Stepper steps={['Files', 'Map Columns', 'Keys & Columns', 'Preview & Export']} currentStep={step} />
             </Card>
 
             {/* Step 1: Files */}
@@ -215,60 +396,207 @@ export function UpsertPanel() {
                     <DropZone
                         label="Original CSV"
                         onFile={handleOriginal}
+                        progress={originalTask.progress}
+                        onCancel={originalTask.cancel}
                         name={original?.name}
-                        rowCount={original?.rows.length}
+                        rowCount={original?.rowCount}
                         columnCount={original?.headers.length}
-                    />
+                    >
+                        {original && <>
+                            {original.spreadsheet ? (
+                                <SheetPicker source={original.spreadsheet} fileHandle={original.fileHandle} onChange={handleOriginal} />
+                            ) : original.json ? (
+                                <JsonPicker source={original.json} fileHandle={original.fileHandle} onChange={handleOriginal} />
+                            ) : (
+                                <DialectPicker
+                                    dialect={original.dialect}
+                                    onChange={handleOriginalDialect}
+                                    encoding={original.encoding}
+                                    onEncodingChange={encoding => setOriginal({ ...original, encoding })}
+                                />
+                            )}
+                            <ParseIssues
+                                csv={original}
+                                onPolicyChange={policy => handleOriginalDialect(original.dialect, policy)}
+                            />
+                        </>}
+                    </DropZone>
                     <DropZone
                         label="Modifications CSV"
                         onFile={handleMods}
+                        progress={modsTask.progress}
+                        onCancel={modsTask.cancel}
                         name={mods?.name}
-                        rowCount={mods?.rows.length}
+                        rowCount={mods?.rowCount}
                         columnCount={mods?.headers.length}
-                    />
+                    >
+                        {mods && <>
+                            {mods.spreadsheet
+                                ? <SheetPicker source={mods.spreadsheet} onChange={handleMods} />
+                                : mods.json
+                                    ? <JsonPicker source={mods.json} onChange={handleMods} />
+                                    : <DialectPicker dialect={mods.dialect} onChange={handleModsDialect} />}
+                            <ParseIssues
+                                csv={mods}
+                                onPolicyChange={policy => handleModsDialect(mods.dialect, policy)}
+                            />
+                        </>}
+                    </DropZone>
                 </div>
             </div>
 
-            {/* Step 2: Keys & Config */}
+            {/* Step 2: Column mapping */}
+            {original && mods && (
+                <div style={{ marginTop: 12 }}>
+                    <Card>
+                        <ColumnMappingEditor
+                            originalHeaders={original.headers}
+                            sourceHeaders={mods.headers}
+                            mapping={mapping}
+                            onChange={setMapping}
+                            disabled={step > 3 && !!previewData}
+                        />
+                    </Card>
+                </div>
+            )}
+
+            {/* Step 3: Keys & Config */}
             {original && mods && (
                 <div style={{ marginTop: 12 }}>
                     <div className="grid grid-2">
                         <Card>
                             <label>
-                                Unique Column
-                                <HelpTooltip content="Select a column that uniquely identifies each row (like an ID or email). This column must exist in both files to match rows for updating." />
+                                Key Columns
+                                <HelpTooltip content="Select the column that uniquely identifies each row (like an ID or email), or several columns that do so together (like order_id + line_no). Rows match when all key columns match. Key columns must exist in both files." />
                             </label>
-                            <select value={key} onChange={e => setKey(e.target.value)} disabled={step > 2 && !!previewData}>
-                                {commonHeaders.map(h => <option key={h} value={h}>{h}</option>)}
-                            </select>
+                            <KeyColumnsPicker
+                                available={commonHeaders}
+                                selected={keys}
+                                onChange={setKeys}
+                                disabled={step > 3 && !!previewData}
+                            />
                             <p className="hint">Only columns present in both CSVs are shown.</p>
+                            {keyIssues && <>
+                                <KeyIssuesReport
+                                    label="Original"
+                                    issues={keyIssues.original}
+                                    policy={duplicates.original}
+                                    onPolicyChange={policy => setDuplicates({ ...duplicates, original: policy })}
+                                    onDownload={() => downloadKeyIssues(original, keyIssues.original)}
+                                    blankNote="Original rows with a blank key are never matched and are kept as they are."
+                                    disabled={step > 3 && !!previewData}
+                                />
+                                <KeyIssuesReport
+                                    label="Modifications"
+                                    issues={keyIssues.mods}
+                                    policy={duplicates.mods}
+                                    onPolicyChange={policy => setDuplicates({ ...duplicates, mods: policy })}
+                                    onDownload={() => downloadKeyIssues(mods, keyIssues.mods)}
+                                    blankNote={
+                                        <label>
+                                            <input
+                                                type="checkbox"
+                                                checked={insertBlankKeys}
+                                                onChange={e => setInsertBlankKeys(e.target.checked)}
+                                                disabled={step > 3 && !!previewData}
+                                            />
+                                            {' '}Insert modification rows with a blank key as new rows (otherwise they are ignored)
+                                        </label>
+                                    }
+                                    disabled={step > 3 && !!previewData}
+                                />
+                            </>}
                         </Card>
                         <Card>
                             <label>
                                 Output Schema
                                 <HelpTooltip content="'Keep Original' preserves only columns from your original file. 'Union' adds any new columns from the modifications file at the end." />
                             </label>
-                            <select value={headerMode} onChange={e => setHeaderMode(e.target.value as any)} disabled={step > 2 && !!previewData}>
+                            <select value={headerMode} onChange={e => setHeaderMode(e.target.value as HeaderMode)} disabled={step > 3 && !!previewData}>
                                 <option value="original">Keep Original column order</option>
                                 <option value="union">Union (Original first, then new columns)</option>
                             </select>
                         </Card>
+                        <Card>
+                            <label>
+                                Sync Mode
+                                <HelpTooltip content="Use full sync when the modifications file is a complete snapshot: original rows whose key is not in it are deleted, or kept and marked in a flag column. Rows with a blank key are never removed. In flag mode, a flagged row that is back in the snapshot has its flag cleared." />
+                            </label>
+                            <select value={sync.mode} onChange={e => setSync({ ...sync, mode: e.target.value as SyncMode })} disabled={step > 3 && !!previewData}>
+                                <option value="off">Upsert only (keep rows missing from modifications)</option>
+                                <option value="delete">Full sync: delete missing rows</option>
+                                <option value="flag">Full sync: flag missing rows</option>
+                            </select>
+                            {sync.mode === 'flag' && (
+                                <div className="actions" style={{ marginTop: 8 }}>
+                                    <input
+                                        type="text"
+                                        list="upsert-flag-columns"
+                                        placeholder="Flag column"
+                                        aria-label="Flag column"
+                                        value={sync.flagColumn}
+                                        onChange={e => setSync({ ...sync, flagColumn: e.target.value })}
+                                        disabled={step > 3 && !!previewData}
+                                        style={{ width: 160 }}
+                                    />
+                                    <datalist id="upsert-flag-columns">
+                                        {original.headers.map(h => <option key={h} value={h} />)}
+                                    </datalist>
+                                    <input
+                                        type="text"
+                                        placeholder="Flag value"
+                                        aria-label="Flag value"
+                                        value={sync.flagValue}
+                                        onChange={e => setSync({ ...sync, flagValue: e.target.value })}
+                                        disabled={step > 3 && !!previewData}
+                                        style={{ width: 120 }}
+                                    />
+                                </div>
+                            )}
+                            {sync.mode === 'flag' && syncIncomplete && (
+                                <p className="hint mapping-conflict">Enter a flag column that is not a key column.</p>
+                            )}
+                            {sync.mode === 'delete' && (
+                                <p className="hint">Every original row whose key is missing from the modifications file will be removed.</p>
+                            )}
+                            {sync.mode === 'flag' && !syncIncomplete && (
+                                <p className="hint">
+                                    Missing rows get {sync.flagColumn} = "{sync.flagValue}"
+                                    {!original.headers.includes(sync.flagColumn) && ' (new column)'}.
+                                </p>
+                            )}
+                        </Card>
                     </div>
                 </div>
             )}
 
+            {/* Merge policies */}
+            {original && mods && keys.length > 0 && (
+                <div style={{ marginTop: 12 }}>
+                    <Card>
+                        <MergePolicyEditor
+                            columns={mergeColumns}
+                            timestampColumns={commonHeaders}
+                            options={merge}
+                            onChange={setMerge}
+                            disabled={step > 3 && !!previewData}
+                        />
+                    </Card>
+                </div>
+            )}
+
             {/* Column Picker (only when previewing or ready to preview?) The original showed it after step 2 config. */}
-            {original && mods && key && (
+            {original && mods && keys.length > 0 && (
                 <div style={{ marginTop: 12 }}>
                     <ColumnPicker
-                        allHeaders={previewData ? previewData.headersOut : (headerMode === 'union' ? [...original.headers, ...mods.headers.filter(h => !original.headers.includes(h))] : original.headers)}
+                        allHeaders={previewData ? previewData.headersOut : (headerMode === 'union' ? [...original.headers, ...mappedModsHeaders.filter(h => !original.headers.includes(h))] : original.headers)}
                         selected={selectedCols}
                         onChange={setSelectedCols}
                     />
                     <div style={{ marginTop: 8, display: 'flex', justifyContent: 'flex-end' }}>
                         <label>
                             <input type="checkbox" checked={showOnlyChanged} onChange={e => setShowOnlyChanged(e.target.checked)} />
-                            {' '}Show only changed columns (key always visible)
+                            {' '}Show only changed columns (keys always visible)
                         </label>
                     </div>
                 </div>
@@ -279,16 +607,18 @@ export function UpsertPanel() {
                 <div style={{ marginTop: 12 }}>
                     <Card>
                         <div className="actions">
-                            <Button variant="secondary" onClick={handlePreview} disabled={!key} icon={<Eye size={16} />}>Preview</Button>
-                            <Button variant="ok" onClick={handleRun} disabled={!key} icon={<Copy size={16} />}>Copy CSV</Button>
-                            <Button variant="ghost" onClick={handleReset} icon={<RotateCcw size={16} />}>Reset</Button>
+                            <Button variant="secondary" onClick={handlePreview} disabled={keys.length === 0 || blocked || task.busy} icon={<Eye size={16} />}>Preview</Button>
+                            <Button variant="ok" onClick={handleRun} disabled={keys.length === 0 || blocked || task.busy} icon={<Download size={16} />}>Export…</Button>
+                            <Button variant="secondary" onClick={downloadChangeLog} disabled={!changeLog || task.busy} icon={<ScrollText size={16} />}>Change log…</Button>
+                            <Button variant="ghost" onClick={handleReset} disabled={task.busy} icon={<RotateCcw size={16} />}>Reset</Button>
                         </div>
+                        <TaskProgress progress={task.progress} onCancel={task.cancel} />
                         {summary && <div className="stat" style={{ marginTop: 8 }}>{summary}</div>}
                     </Card>
                 </div>
             )}
 
-            {/* Step 3: Tables with Tabs */}
+            {/* Step 4: Tables with Tabs */}
             {previewData && (
                 <div style={{ marginTop: 12 }}>
                     <div className="segmented" style={{ marginBottom: 16 }}>
@@ -304,32 +634,76 @@ export function UpsertPanel() {
                         >
                             Inserts ({previewData.inserts.length})
                         </button>
+                        {sync.mode !== 'off' && (
+                            <button
+                                className={previewTab === 'deletes' ? 'active' : ''}
+                                onClick={() => setPreviewTab('deletes')}
+                            >
+                                Deletes ({previewData.deletes.length})
+                            </button>
+                        )}
                     </div>
 
                     {previewTab === 'updates' && (
                         <Table
                             title="Updates Preview"
-                            hint="Rows whose values will change"
+                            hint="Rows whose values will change; untick a row to reject it, or revert single cells"
                             headers={previewCols}
-                            rows={previewData.updates}
-                            changedMapByRowFn={(row) => {
-                                const id = String(row[key] ?? '').trim();
-                                return previewData.changedById.get(id) || null;
-                            }}
+                            rows={visibleRows}
+                            rowClassFn={row => reviewClass(row, '')}
+                            rowControlFn={rowControl}
+                            cellInfoFn={updateCellInfo}
+                            toolbar={reviewToolbar}
                         />
                     )}
 
                     {previewTab === 'inserts' && (
                         <Table
                             title="Inserted Rows"
-                            hint="New rows that will be appended"
+                            hint="New rows that will be appended; untick a row to leave it out"
+                            headers={previewCols}
+                            rows={visibleRows}
+                            rowClassFn={row => reviewClass(row, 'inserted')}
+                            rowControlFn={rowControl}
+                            toolbar={reviewToolbar}
+                        />
+                    )}
+
+                    {previewTab === 'deletes' && sync.mode !== 'off' && (
+                        <Table
+                            title={sync.mode === 'flag' ? 'Flagged Rows' : 'Deleted Rows'}
+                            hint={sync.mode === 'flag'
+                                ? `Rows missing from the modifications file; ${sync.flagColumn} will be set to "${sync.flagValue}"`
+                                : 'Rows missing from the modifications file that will be removed'}
                             headers={previewCols}
-                            rows={previewData.inserts}
-                            rowClassFn={() => 'inserted'}
+                            rows={visibleRows}
+                            rowClassFn={row => reviewClass(row, sync.mode === 'delete' ? 'removed' : '')}
+                            rowControlFn={rowControl}
+                            changedMapByRowFn={(row) => previewData.changedById.get(rowKey(row, keys)) || null}
+                            toolbar={reviewToolbar}
                         />
                     )}
                 </div>
             )}
+
+            <ExportDialog
+                source={exportSource}
+                onClose={() => setExportSource(null)}
+                original={original}
+                action="upserted"
+                encoding={original?.encoding}
+                keyColumns={keys}
+                title="Export upsert result"
+            />
+
+            <ExportDialog
+                source={reportExport?.source ?? null}
+                onClose={() => setReportExport(null)}
+                original={reportExport?.file ?? null}
+                action={reportExport?.action ?? ''}
+                encoding={reportExport?.file.encoding}
+                title={reportExport?.title}
+            />
         </div>
     );
 }
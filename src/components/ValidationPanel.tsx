@@ -6,19 +6,30 @@ import { Button } from './ui/Button';
 import { Stepper } from './ui/Stepper';
 
 import { useToast } from './ui/Toast';
-import { parseCSVFile } from '../lib/csv';
-import type { ParsedCSV } from '../lib/csv';
-import { validateDataset, ValidationRule, RuleType, ValidationResult, CrossColumnOperator } from '../lib/validationUtils';
+import { DialectPicker } from './ui/DialectPicker';
+import { SheetPicker } from './ui/SheetPicker';
+import { JsonPicker } from './ui/JsonPicker';
+import { ExportDialog } from './ui/ExportDialog';
+import { ParseIssues } from './ui/ParseIssues';
+import { TaskProgress, useBackgroundTask } from './ui/TaskProgress';
+import { DEFAULT_DIALECT } from '../lib/csv';
+import type { Dataset, CSVDialect, MalformedRowPolicy, FileReadOptions } from '../lib/csv';
+import type { ExportSource } from '../lib/exportFormats';
+import { parseFileInBackground, reparseInBackground, runBackgroundTask, TaskCancelledError } from '../lib/workerClient';
+import type { ValidationRule, RuleType, ValidationResult, CrossColumnOperator } from '../lib/validationUtils';
 
 
 
 export function ValidationPanel() {
     const { showToast } = useToast();
+    const fileTask = useBackgroundTask();
+    const task = useBackgroundTask();
     const [step, setStep] = useState<number>(1);
-    const [csv, setCsv] = useState<ParsedCSV | null>(null);
+    const [csv, setCsv] = useState<Dataset | null>(null);
     const [rules, setRules] = useState<ValidationRule[]>([]);
     const [result, setResult] = useState<ValidationResult | null>(null);
     const [keyColumn, setKeyColumn] = useState<string>('');
+    const [exportSource, setExportSource] = useState<ExportSource | null>(null);
 
     // Rule Form State
     const [newRuleColumn, setNewRuleColumn] = useState('');
@@ -26,16 +37,30 @@ export function ValidationPanel() {
     const [newRuleSeverity, setNewRuleSeverity] = useState<'error' | 'warning'>('error');
     const [newRuleParams, setNewRuleParams] = useState<any>({});
 
-    const handleFile = async (file: File) => {
+    // Read errors and cancellation are reported by the DropZone
+    const handleFile = async (file: File, opts: FileReadOptions) => {
+        const parsed = await fileTask.run(onProgress => parseFileInBackground(file, opts, onProgress));
+        setCsv(parsed);
+        if (parsed.headers.length > 0) {
+            setKeyColumn(parsed.headers[0]); // Default key
+        }
+        setStep(2);
+    };
+
+    const handleDialect = async (d: CSVDialect, policy?: MalformedRowPolicy) => {
+        if (!csv) return;
+        let next: Dataset;
         try {
-            const parsed = await parseCSVFile(file);
-            setCsv(parsed);
-            if (parsed.headers.length > 0) {
-                setKeyColumn(parsed.headers[0]); // Default key
-            }
-            setStep(2);
+            next = await fileTask.run(onProgress => reparseInBackground(csv, d, policy, onProgress));
         } catch (err) {
-            showToast('Failed to parse CSV', 'error');
+            if (!(err instanceof TaskCancelledError)) showToast(`Failed to re-read ${csv.name}: ${err instanceof Error ? err.message : String(err)}`, 'error');
+            return;
+        }
+        setCsv(next);
+        if (next.handle !== csv.handle) {
+            setKeyColumn(next.headers[0] ?? '');
+            setRules([]);
+            setResult(null);
         }
     };
 
@@ -59,9 +84,15 @@ export function ValidationPanel() {
         setRules(rules.filter(r => r.id !== id));
     };
 
-    const runValidation = () => {
-        if (!csv) return;
-        const res = validateDataset(csv.rows, rules, keyColumn);
+    const runValidation = async () => {
+        if (!csv || csv.diagnostics.rejected) return;
+        let res: ValidationResult;
+        try {
+            res = await task.run(onProgress => runBackgroundTask('validate', { csv, rules, keyColumn }, onProgress));
+        } catch (err) {
+            if (!(err instanceof TaskCancelledError)) showToast(`Validation failed: ${err instanceof Error ? err.message : String(err)}`, 'error');
+            return;
+        }
         setResult(res);
         setStep(3);
         showToast(`Validation complete. Found ${res.invalidRows} invalid rows.`, res.invalidRows > 0 ? 'warning' : 'success');
@@ -142,29 +173,29 @@ export function ValidationPanel() {
     };
 
     // Download report
-    const downloadReport = () => {
-        if (!result) return;
+    const downloadReport = async () => {
+        if (!result || !csv) return;
         const headers = ['Row ID', 'Column', 'Value', 'Issue', 'Severity'];
-        const rows = result.errors.map(e => [
-            e.rowId,
-            e.column,
-            String(e.value),
-            e.message,
-            e.severity
-        ]);
-        const csvContent = [
-            headers.join(','),
-            ...rows.map(r => r.map(c => `"${c.replace(/"/g, '""')}"`).join(','))
-        ].join('\n');
-
-        const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-        const url = URL.createObjectURL(blob);
-        const link = document.createElement('a');
-        link.href = url;
-        link.setAttribute('download', 'validation-report.csv');
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
+        const rows = result.errors.map(e => ({
+            'Row ID': e.rowId,
+            'Column': e.column,
+            'Value': String(e.value),
+            'Issue': e.message,
+            'Severity': e.severity
+        }));
+        // Excel exports also get the data itself, annotated per row
+        let data: Record<string, any>[];
+        try {
+            data = await task.run(onProgress => runBackgroundTask('validationRows', { csv, result, keyColumn }, onProgress));
+        } catch (err) {
+            if (!(err instanceof TaskCancelledError)) showToast(`Export failed: ${err instanceof Error ? err.message : String(err)}`, 'error');
+            return;
+        }
+        const sheets = [
+            { name: 'Issues', headers, rows },
+            { name: 'Data', headers: ['_validation_status', '_validation_issues', ...csv.headers], rows: data },
+        ];
+        setExportSource({ headers, rows, sheets, dialect: { ...DEFAULT_DIALECT, lineTerminator: '\n', bom: csv.dialect.bom } });
     };
 
     return (
@@ -175,11 +206,37 @@ export function ValidationPanel() {
 
             {/* Step 1: Upload */}
             <div style={{ display: step === 1 ? 'block' : 'none' }}>
-                <DropZone label="Upload CSV to Validate" onFile={handleFile} />
+                <DropZone
+                    label="Upload CSV to Validate"
+                    onFile={handleFile}
+                    progress={fileTask.progress}
+                    onCancel={fileTask.cancel}
+                />
             </div>
 
             {/* Step 2: Rules */}
             <div style={{ display: step === 2 ? 'block' : 'none' }}>
+                {csv && (
+                    <Card style={{ marginBottom: 16 }}>
+                        <label>{csv.name}</label>
+                        {csv.spreadsheet ? (
+                            <SheetPicker source={csv.spreadsheet} onChange={handleFile} />
+                        ) : csv.json ? (
+                            <JsonPicker source={csv.json} onChange={handleFile} />
+                        ) : (
+                            <DialectPicker
+                                dialect={csv.dialect}
+                                onChange={handleDialect}
+                                encoding={csv.encoding}
+                                onEncodingChange={encoding => setCsv({ ...csv, encoding })}
+                            />
+                        )}
+                        <ParseIssues
+                            csv={csv}
+                            onPolicyChange={policy => handleDialect(csv.dialect, policy)}
+                        />
+                    </Card>
+                )}
                 <div className="grid grid-2">
                     {/* Add Rule Form */}
                     <Card>
@@ -276,9 +333,10 @@ export function ValidationPanel() {
                             {csv?.headers.map(h => <option key={h} value={h}>{h}</option>)}
                         </select>
                     </Card>
-                    <Button variant="primary" onClick={runValidation} disabled={rules.length === 0}>
+                    <Button variant="primary" onClick={runValidation} disabled={rules.length === 0 || !!csv?.diagnostics.rejected || task.busy}>
                         Run Validation
                     </Button>
+                    <TaskProgress progress={task.progress} onCancel={task.cancel} />
                 </div>
             </div>
 
@@ -305,10 +363,11 @@ export function ValidationPanel() {
                     <Card>
                         <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
                             <h3>Validation Errors</h3>
-                            <Button variant="secondary" onClick={downloadReport} icon={<Download size={14} />} disabled={result.errors.length === 0}>
+                            <Button variant="secondary" onClick={downloadReport} icon={<Download size={14} />} disabled={result.errors.length === 0 || task.busy}>
                                 Export Report
                             </Button>
                         </div>
+                        <TaskProgress progress={task.progress} onCancel={task.cancel} />
                         <div style={{ marginTop: '16px' }}>
                             {result.errors.length === 0 ? (
                                 <div style={{ textAlign: 'center', padding: '40px', color: 'var(--success)' }}>
@@ -368,6 +427,16 @@ export function ValidationPanel() {
                     </div>
                 </div>
             )}
+
+            <ExportDialog
+                source={exportSource}
+                onClose={() => setExportSource(null)}
+                original={csv}
+                action="validation_report"
+                encoding={csv?.encoding}
+                keyColumns={['Row ID', 'Column']}
+                title="Export validation report"
+            />
         </div>
     );
 }
@@ -0,0 +1,124 @@
+import { Wand2 } from 'lucide-react';
+import { Button } from './Button';
+import { HelpTooltip } from './HelpTooltip';
+import { DATE_FORMATS, DEFAULT_COLUMN_COMPARE, columnCompareFor } from '../../lib/compareUtils';
+import type { ColumnCompare, DateFormat, ValueType } from '../../lib/compareUtils';
+
+interface ColumnCompareEditorProps {
+    columns: string[];
+    settings: Record<string, ColumnCompare>;  // Columns without an entry use the defaults
+    onChange: (settings: Record<string, ColumnCompare>) => void;
+    onDetect?: () => void;                    // Guess number and date columns from the data
+    disabled?: boolean;
+}
+
+function isDefault(c: ColumnCompare): boolean {
+    return (Object.keys(DEFAULT_COLUMN_COMPARE) as (keyof ColumnCompare)[]).every(k => c[k] === DEFAULT_COLUMN_COMPARE[k]);
+}
+
+export function ColumnCompareEditor({ columns, settings, onChange, onDetect, disabled }: ColumnCompareEditorProps) {
+    const setColumn = (column: string, patch: Partial<ColumnCompare>) => {
+        const next = { ...columnCompareFor(column, { columns: settings }), ...patch };
+        const rest = Object.entries(settings).filter(([c]) => c !== column);
+        onChange(Object.fromEntries(isDefault(next) ? rest : [...rest, [column, next] as const]));
+    };
+
+    const ignored = columns.filter(c => columnCompareFor(c, { columns: settings }).ignore).length;
+
+    return (
+        <div className="column-compare">
+            <div className="header-row">
+                <label className="grow" style={{ margin: 0 }}>
+                    Column Comparison
+                    <HelpTooltip content="Compare numbers and dates by value instead of as text. Tolerances apply when matched rows are compared; aligning rows by position or content uses exact values. Ignored columns are still shown but never count as changes." />
+                </label>
+                {onDetect && (
+                    <Button variant="secondary" onClick={onDetect} disabled={disabled} icon={<Wand2 size={16} />}>Detect types</Button>
+                )}
+            </div>
+            {ignored > 0 && <p className="hint">{ignored} column{ignored === 1 ? '' : 's'} ignored.</p>}
+            <div className="table-wrap" style={{ marginTop: 8 }}>
+                <table>
+                    <thead>
+                        <tr>
+                            <th>Column</th><th>Compare as</th><th>Tolerance (±)</th><th>Tolerance (%)</th>
+                            <th>Date format</th><th>Collapse spaces</th><th>Ignore</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {columns.map(c => {
+                            const s = columnCompareFor(c, { columns: settings });
+                            return (
+                                <tr key={c} className={s.ignore ? 'ignored' : ''}>
+                                    <td><code>{c}</code></td>
+                                    <td>
+                                        <select
+                                            value={s.type}
+                                            onChange={e => setColumn(c, { type: e.target.value as ValueType })}
+                                            disabled={disabled}
+                                            aria-label={`Compare ${c} as`}
+                                        >
+                                            <option value="text">Text</option>
+                                            <option value="number">Number</option>
+                                            <option value="date">Date</option>
+                                        </select>
+                                    </td>
+                                    <td>
+                                        <input
+                                            type="number"
+                                            min={0}
+                                            step="any"
+                                            value={s.absTolerance}
+                                            onChange={e => setColumn(c, { absTolerance: Math.max(0, Number(e.target.value) || 0) })}
+                                            disabled={disabled || s.type !== 'number'}
+                                            aria-label={`Absolute tolerance for ${c}`}
+                                        />
+                                    </td>
+                                    <td>
+                                        <input
+                                            type="number"
+                                            min={0}
+                                            step="any"
+                                            value={s.relTolerance * 100}
+                                            onChange={e => setColumn(c, { relTolerance: Math.max(0, Number(e.target.value) || 0) / 100 })}
+                                            disabled={disabled || s.type !== 'number'}
+                                            aria-label={`Relative tolerance for ${c} in percent`}
+                                        />
+                                    </td>
+                                    <td>
+                                        <select
+                                            value={s.dateFormat}
+                                            onChange={e => setColumn(c, { dateFormat: e.target.value as DateFormat })}
+                                            disabled={disabled || s.type !== 'date'}
+                                            aria-label={`Date format of ${c}`}
+                                        >
+                                            {DATE_FORMATS.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+                                        </select>
+                                    </td>
+                                    <td>
+                                        <input
+                                            type="checkbox"
+                                            checked={s.collapseWhitespace}
+                                            onChange={e => setColumn(c, { collapseWhitespace: e.target.checked })}
+                                            disabled={disabled}
+                                            aria-label={`Collapse whitespace in ${c}`}
+                                        />
+                                    </td>
+                                    <td>
+                                        <input
+                                            type="checkbox"
+                                            checked={s.ignore}
+                                            onChange={e => setColumn(c, { ignore: e.target.checked })}
+                                            disabled={disabled}
+                                            aria-label={`Ignore ${c}`}
+                                        />
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,153 @@
+import { useState, useMemo } from 'react';
+import { Save, Trash2, Wand2 } from 'lucide-react';
+import { Button } from './Button';
+import { HelpTooltip } from './HelpTooltip';
+import { useToast } from './Toast';
+import {
+    suggestMapping,
+    mappingFromSuggestions,
+    mergeSavedMapping,
+    mappingConflicts,
+    loadSavedMappings,
+    saveMapping,
+    deleteSavedMapping
+} from '../../lib/columnMapping';
+import type { ColumnMapping, MappingSuggestion, SavedMapping } from '../../lib/columnMapping';
+
+interface ColumnMappingEditorProps {
+    originalHeaders: string[];
+    sourceHeaders: string[];          // Modifications file columns
+    mapping: ColumnMapping;
+    onChange: (mapping: ColumnMapping) => void;
+    disabled?: boolean;
+}
+
+const IGNORE = '';
+
+function describeMatch(suggestion: MappingSuggestion | undefined, target: string | null): string {
+    if (target === null) return 'Ignored';
+    if (!suggestion || suggestion.target !== target) {
+        return suggestion && target === suggestion.source ? 'Kept as new column' : 'Manual';
+    }
+    switch (suggestion.reason) {
+        case 'exact': return 'Same name';
+        case 'normalized': return 'Same name (case/spacing)';
+        case 'fuzzy': return `Similar name (${Math.round(suggestion.score * 100)}%)`;
+        default: return '';
+    }
+}
+
+export function ColumnMappingEditor({ originalHeaders, sourceHeaders, mapping, onChange, disabled }: ColumnMappingEditorProps) {
+    const [saved, setSaved] = useState<SavedMapping[]>(() => loadSavedMappings());
+    const [selectedSaved, setSelectedSaved] = useState('');
+    const [saveName, setSaveName] = useState('');
+    const { showToast } = useToast();
+
+    const suggestions = useMemo(() => suggestMapping(originalHeaders, sourceHeaders), [originalHeaders, sourceHeaders]);
+    const bySource = useMemo(() => new Map(suggestions.map(s => [s.source, s])), [suggestions]);
+    const conflicts = mappingConflicts(mapping);
+    const mapped = sourceHeaders.filter(h => {
+        const target = mapping[h];
+        return target !== null && target !== undefined && originalHeaders.includes(target);
+    }).length;
+
+    const setTarget = (source: string, value: string) => {
+        onChange({ ...mapping, [source]: value === IGNORE ? null : value });
+    };
+
+    const handleLoad = (name: string) => {
+        setSelectedSaved(name);
+        const entry = saved.find(m => m.name === name);
+        if (entry) onChange(mergeSavedMapping(entry.mapping, suggestions));
+    };
+
+    const handleSave = () => {
+        const name = saveName.trim();
+        if (!name) return;
+        try {
+            setSaved(saveMapping(name, sourceHeaders, mapping));
+            setSelectedSaved(name);
+            setSaveName('');
+            showToast(`Saved mapping "${name}"`, 'success');
+        } catch (err) {
+            showToast(`Could not save mapping: ${err instanceof Error ? err.message : String(err)}`, 'error');
+        }
+    };
+
+    const handleDelete = () => {
+        if (!selectedSaved) return;
+        setSaved(deleteSavedMapping(selectedSaved));
+        setSelectedSaved('');
+    };
+
+    return (
+        <div className="column-mapping">
+            <div className="header-row">
+                <label className="grow" style={{ margin: 0 }}>
+                    Column Mapping
+                    <HelpTooltip content="Match each column of the modifications file to a column of the original. Suggestions ignore case, spaces and underscores and also match similar names. Columns without a match are added as new columns in Union mode, or can be ignored." />
+                </label>
+                <span className="hint">{mapped}/{sourceHeaders.length} columns matched</span>
+            </div>
+
+            <div className="actions" style={{ marginTop: 8 }}>
+                <select value={selectedSaved} onChange={e => handleLoad(e.target.value)} disabled={disabled || saved.length === 0} aria-label="Saved mappings">
+                    <option value="">{saved.length === 0 ? 'No saved mappings' : 'Load saved mapping…'}</option>
+                    {saved.map(m => <option key={m.name} value={m.name}>{m.name}</option>)}
+                </select>
+                <Button variant="ghost" onClick={handleDelete} disabled={disabled || !selectedSaved} icon={<Trash2 size={16} />} aria-label="Delete saved mapping" />
+                <input
+                    type="text"
+                    placeholder="Mapping name"
+                    value={saveName}
+                    onChange={e => setSaveName(e.target.value)}
+                    onKeyDown={e => { if (e.key === 'Enter') handleSave(); }}
+                    disabled={disabled}
+                    style={{ width: 180 }}
+                />
+                <Button variant="secondary" onClick={handleSave} disabled={disabled || !saveName.trim()} icon={<Save size={16} />}>Save</Button>
+                <Button variant="ghost" onClick={() => onChange(mappingFromSuggestions(suggestions))} disabled={disabled} icon={<Wand2 size={16} />}>
+                    Reset to suggestions
+                </Button>
+            </div>
+
+            {conflicts.length > 0 && (
+                <p className="hint mapping-conflict">
+                    Several columns map to {conflicts.map(c => `"${c}"`).join(', ')}; each original column can be used once.
+                </p>
+            )}
+
+            <div className="table-wrap" style={{ marginTop: 12 }}>
+                <table>
+                    <thead>
+                        <tr><th>Modifications column</th><th>Original column</th><th>Match</th></tr>
+                    </thead>
+                    <tbody>
+                        {sourceHeaders.map(source => {
+                            const target = mapping[source] === undefined ? source : mapping[source];
+                            const isNew = target !== null && !originalHeaders.includes(target);
+                            return (
+                                <tr key={source} className={target !== null && conflicts.includes(target) ? 'conflict' : ''}>
+                                    <td><code>{source}</code></td>
+                                    <td>
+                                        <select
+                                            value={target ?? IGNORE}
+                                            onChange={e => setTarget(source, e.target.value)}
+                                            disabled={disabled}
+                                            aria-label={`Original column for ${source}`}
+                                        >
+                                            <option value={IGNORE}>— Ignore this column —</option>
+                                            {!originalHeaders.includes(source) && <option value={source}>New column: {source}</option>}
+                                            {originalHeaders.map(h => <option key={h} value={h}>{h}</option>)}
+                                        </select>
+                                    </td>
+                                    <td className={isNew ? 'hint' : ''}>{describeMatch(bySource.get(source), target)}</td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,93 @@
+import { formatRowKey } from '../../lib/csv';
+import type { MergeConflict, Resolution } from '../../lib/mergeUtils';
+import { Button } from './Button';
+
+interface ConflictResolverProps {
+    conflicts: MergeConflict[];
+    resolutions: (Resolution | null)[];   // By conflict index; null = not yet resolved
+    onChange: (resolutions: (Resolution | null)[]) => void;
+}
+
+const MAX_LISTED = 500;
+
+const KIND_LABELS: Record<MergeConflict['kind'], string> = {
+    'cell': 'Both changed',
+    'deleted-by-ours': 'We deleted, upstream changed',
+    'deleted-by-theirs': 'Upstream deleted, we changed',
+};
+
+function choices(conflict: MergeConflict): { value: Resolution; label: string }[] {
+    if (conflict.kind === 'cell') {
+        return [
+            { value: 'ours', label: 'Ours' },
+            { value: 'theirs', label: 'Upstream' },
+            { value: 'base', label: 'Base' },
+        ];
+    }
+    return conflict.kind === 'deleted-by-ours'
+        ? [{ value: 'ours', label: 'Delete' }, { value: 'theirs', label: 'Keep upstream row' }]
+        : [{ value: 'theirs', label: 'Delete' }, { value: 'ours', label: 'Keep our row' }];
+}
+
+export function ConflictResolver({ conflicts, resolutions, onChange }: ConflictResolverProps) {
+    const unresolved = resolutions.filter(r => r === null).length;
+    const listed = conflicts.slice(0, MAX_LISTED);
+
+    const set = (index: number, resolution: Resolution) => {
+        const next = [...resolutions];
+        next[index] = resolution;
+        onChange(next);
+    };
+    const setAll = (resolution: Resolution) => onChange(conflicts.map(() => resolution));
+
+    return (
+        <div className="card conflict-resolver">
+            <div className="header-row" style={{ justifyContent: 'space-between' }}>
+                <strong>Conflicts</strong>
+                <span className="hint">{unresolved === 0 ? 'All conflicts resolved' : `${unresolved} of ${conflicts.length} unresolved`}</span>
+            </div>
+            <div className="actions" style={{ margin: '8px 0 12px' }}>
+                <Button variant="secondary" onClick={() => setAll('ours')}>Use ours for all</Button>
+                <Button variant="secondary" onClick={() => setAll('theirs')}>Use upstream for all</Button>
+            </div>
+            <div className="table-wrap">
+                <table>
+                    <thead>
+                        <tr><th>Key</th><th>Column</th><th>Conflict</th><th>Base</th><th>Ours</th><th>Upstream</th><th>Take</th></tr>
+                    </thead>
+                    <tbody>
+                        {listed.map((c, i) => (
+                            <tr key={i} className={resolutions[i] === null ? 'unresolved' : ''}>
+                                <td><code>{formatRowKey(c.id)}</code></td>
+                                <td>{c.column ?? <span className="hint">(row)</span>}</td>
+                                <td>{KIND_LABELS[c.kind]}</td>
+                                <td className={resolutions[i] === 'base' ? 'chosen' : ''}>{c.base}</td>
+                                <td className={resolutions[i] === 'ours' ? 'chosen' : ''}>{c.ours}</td>
+                                <td className={resolutions[i] === 'theirs' ? 'chosen' : ''}>{c.theirs}</td>
+                                <td>
+                                    <div className="segmented compact">
+                                        {choices(c).map(choice => (
+                                            <button
+                                                key={choice.value}
+                                                type="button"
+                                                className={resolutions[i] === choice.value ? 'active' : ''}
+                                                onClick={() => set(i, choice.value)}
+                                            >
+                                                {choice.label}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+            {conflicts.length > MAX_LISTED && (
+                <p className="hint">
+                    Showing the first {MAX_LISTED} of {conflicts.length} conflicts; use the buttons above to resolve the rest.
+                </p>
+            )}
+        </div>
+    );
+}
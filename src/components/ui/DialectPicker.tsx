@@ -0,0 +1,94 @@
+import type { CSVDialect, EscapeStyle, LineTerminator } from '../../lib/csv';
+import { UNICODE_ENCODINGS, LEGACY_ENCODINGS, isUnicodeEncoding, encodingLabel } from '../../lib/encoding';
+
+interface DialectPickerProps {
+    dialect: CSVDialect;
+    onChange: (dialect: CSVDialect) => void;
+    encoding?: string;                              // Output encoding (defaults to the detected one)
+    onEncodingChange?: (encoding: string) => void;
+    disabled?: boolean;
+}
+
+const DELIMITERS = [
+    { value: ',', label: 'Comma (,)' },
+    { value: ';', label: 'Semicolon (;)' },
+    { value: '\t', label: 'Tab' },
+    { value: '|', label: 'Pipe (|)' },
+];
+
+const LINE_TERMINATORS: { value: LineTerminator; label: string }[] = [
+    { value: '\r\n', label: 'CRLF (Windows)' },
+    { value: '\n', label: 'LF (Unix)' },
+    { value: '\r', label: 'CR (classic Mac)' },
+];
+
+function describe(dialect: CSVDialect, encoding?: string): string {
+    const delimiter = DELIMITERS.find(d => d.value === dialect.delimiter)?.label ?? `"${dialect.delimiter}"`;
+    const terminator = LINE_TERMINATORS.find(t => t.value === dialect.lineTerminator)?.label.split(' ')[0];
+    const enc = encoding ? encodingLabel(encoding).split(' ')[0] : null;
+    return [delimiter, terminator, enc, dialect.bom ? 'BOM' : null].filter(Boolean).join(' • ');
+}
+
+export function DialectPicker({ dialect, onChange, encoding, onEncodingChange, disabled }: DialectPickerProps) {
+    const update = (patch: Partial<CSVDialect>) => onChange({ ...dialect, ...patch });
+    const isCustomDelimiter = !DELIMITERS.some(d => d.value === dialect.delimiter);
+    const canWriteBOM = !encoding || isUnicodeEncoding(encoding);
+
+    return (
+        <details className="dialect-picker">
+            <summary>Format: {describe(dialect, encoding)}</summary>
+            <div className="dialect-grid">
+                <label>
+                    Delimiter
+                    <select value={dialect.delimiter} onChange={e => update({ delimiter: e.target.value })} disabled={disabled}>
+                        {DELIMITERS.map(d => <option key={d.value} value={d.value}>{d.label}</option>)}
+                        {isCustomDelimiter && <option value={dialect.delimiter}>{`"${dialect.delimiter}"`}</option>}
+                    </select>
+                </label>
+                <label>
+                    Quote
+                    <select value={dialect.quoteChar} onChange={e => update({ quoteChar: e.target.value })} disabled={disabled}>
+                        <option value={'"'}>Double (")</option>
+                        <option value="'">Single (')</option>
+                    </select>
+                </label>
+                <label>
+                    Escape
+                    <select value={dialect.escapeStyle} onChange={e => update({ escapeStyle: e.target.value as EscapeStyle })} disabled={disabled}>
+                        <option value="double">Doubled quote</option>
+                        <option value="backslash">Backslash</option>
+                    </select>
+                </label>
+                <label>
+                    Line ending
+                    <select value={dialect.lineTerminator} onChange={e => update({ lineTerminator: e.target.value as LineTerminator })} disabled={disabled}>
+                        {LINE_TERMINATORS.map(t => <option key={t.label} value={t.value}>{t.label}</option>)}
+                    </select>
+                </label>
+                {encoding && onEncodingChange && (
+                    <label>
+                        Encoding
+                        <select value={encoding} onChange={e => onEncodingChange(e.target.value)} disabled={disabled}>
+                            <optgroup label="Unicode">
+                                {UNICODE_ENCODINGS.map(enc => <option key={enc.value} value={enc.value}>{enc.label}</option>)}
+                            </optgroup>
+                            <optgroup label="Legacy code pages">
+                                {LEGACY_ENCODINGS.map(enc => <option key={enc.value} value={enc.value}>{enc.label}</option>)}
+                            </optgroup>
+                        </select>
+                    </label>
+                )}
+            </div>
+            <div className="actions" style={{ marginTop: 8 }}>
+                <label>
+                    <input type="checkbox" checked={dialect.trailingNewline} onChange={e => update({ trailingNewline: e.target.checked })} disabled={disabled} />
+                    {' '}Trailing newline
+                </label>
+                <label>
+                    <input type="checkbox" checked={dialect.bom && canWriteBOM} onChange={e => update({ bom: e.target.checked })} disabled={disabled || !canWriteBOM} />
+                    {' '}Byte order mark
+                </label>
+            </div>
+        </details>
+    );
+}
@@ -1,30 +1,45 @@
-import { useRef, useState, DragEvent } from 'react';
+import { useRef, useState, DragEvent, ReactNode } from 'react';
 import { Upload, FileCheck, Loader2 } from 'lucide-react';
 import { useToast } from './Toast';
+import { TaskProgress } from './TaskProgress';
+import { TaskCancelledError } from '../../lib/workerClient';
+import type { ProgressInfo, FileReadOptions } from '../../lib/csv';
+import { LEGACY_ENCODINGS, DEFAULT_LEGACY_ENCODING } from '../../lib/encoding';
+import { supportsOpenPicker, pickFile, droppedFileHandle } from '../../lib/fileSave';
 
 interface DropZoneProps {
     label: string;
-    onFile: (file: File) => void;
+    onFile: (file: File, options: FileReadOptions, handle?: FileSystemFileHandle) => void | Promise<void>;
     accept?: string;
     name?: string;
     rowCount?: number;
     columnCount?: number;
+    children?: ReactNode;     // Extra file details shown under the file info (e.g. format picker)
+    progress?: ProgressInfo | null;   // Read/parse progress while onFile is pending
+    onCancel?: () => void;
 }
 
-const MAX_FILE_SIZE_MB = 50;
+// CSV is parsed chunk by chunk and only the worker keeps the rows and raw records (the page
+// gets a summary), so the limit keeps that one copy within a browser tab's memory
+const MAX_FILE_SIZE_MB = 500;
 const MAX_FILE_SIZE_BYTES = MAX_FILE_SIZE_MB * 1024 * 1024;
+const DEFAULT_ACCEPT = '.csv,.tsv,.tab,.psv,.txt,.xlsx,.xlsm,.xls,.json,.ndjson,.jsonl';
 
 export function DropZone({
     label,
     onFile,
-    accept = '.csv',
+    accept = DEFAULT_ACCEPT,
     name,
     rowCount,
-    columnCount
+    columnCount,
+    children,
+    progress,
+    onCancel
 }: DropZoneProps) {
     const inputRef = useRef<HTMLInputElement>(null);
     const [isDrag, setIsDrag] = useState(false);
     const [isLoading, setIsLoading] = useState(false);
+    const [fallbackEncoding, setFallbackEncoding] = useState(DEFAULT_LEGACY_ENCODING);
     const { showToast } = useToast();
 
     const handleDragOver = (e: DragEvent) => {
@@ -37,10 +52,12 @@ export function DropZone({
         setIsDrag(false);
     };
 
-    const validateAndProcessFile = (file: File) => {
+    const extensions = accept.split(',').map(ext => ext.trim().toLowerCase());
+
+    const validateAndProcessFile = async (file: File, handle?: Promise<FileSystemFileHandle | undefined>) => {
         // Check file type
-        if (!file.name.toLowerCase().endsWith('.csv')) {
-            showToast('Please upload a CSV file', 'error');
+        if (!extensions.some(ext => file.name.toLowerCase().endsWith(ext))) {
+            showToast(`Please upload a CSV, spreadsheet or JSON file (${extensions.join(', ')})`, 'error');
             return;
         }
 
@@ -51,20 +68,39 @@ export function DropZone({
         }
 
         setIsLoading(true);
-
-        // Simulate processing delay for UX
-        setTimeout(() => {
-            onFile(file);
-            setIsLoading(false);
+        try {
+            await onFile(file, { fallbackEncoding }, await handle);
             showToast(`${file.name} uploaded successfully`, 'success');
-        }, 300);
+        } catch (err) {
+            if (err instanceof TaskCancelledError) {
+                showToast(`Loading ${file.name} cancelled`, 'info');
+            } else {
+                showToast(`Failed to read ${file.name}: ${err instanceof Error ? err.message : String(err)}`, 'error');
+            }
+        } finally {
+            setIsLoading(false);
+        }
     };
 
     const handleDrop = (e: DragEvent) => {
         e.preventDefault();
         setIsDrag(false);
         if (e.dataTransfer.files?.[0]) {
-            validateAndProcessFile(e.dataTransfer.files[0]);
+            validateAndProcessFile(e.dataTransfer.files[0], droppedFileHandle(e.dataTransfer.items?.[0]));
+        }
+    };
+
+    // Open through the File System Access API where available so results can be saved back to the file
+    const browse = async () => {
+        if (!supportsOpenPicker()) {
+            inputRef.current?.click();
+            return;
+        }
+        try {
+            const picked = await pickFile(extensions);
+            if (picked) validateAndProcessFile(picked.file, Promise.resolve(picked.handle));
+        } catch {
+            inputRef.current?.click();
         }
     };
 
@@ -77,14 +113,14 @@ export function DropZone({
             <div
                 className={`drop ${isDrag ? 'drag' : ''} ${hasFile ? 'has-file' : ''}`}
                 tabIndex={0}
-                onClick={() => !isLoading && inputRef.current?.click()}
+                onClick={() => !isLoading && browse()}
                 onDragOver={handleDragOver}
                 onDragLeave={handleDragLeave}
                 onDrop={handleDrop}
                 onKeyDown={(e) => {
                     if ((e.key === 'Enter' || e.key === ' ') && !isLoading) {
                         e.preventDefault();
-                        inputRef.current?.click();
+                        browse();
                     }
                 }}
                 aria-label={`Upload ${label}`}
@@ -114,12 +150,24 @@ export function DropZone({
                         ? 'Processing...'
                         : hasFile
                             ? 'Click to replace file'
-                            : 'Drag CSV file here or click to browse'}
+                            : 'Drag CSV/TSV/Excel/JSON file here or click to browse'}
                 </span>
                 {!hasFile && !isLoading && (
                     <span className="drop-hint">Max file size: {MAX_FILE_SIZE_MB}MB</span>
                 )}
             </div>
+            <div className="encoding-row">
+                <span className="hint">If not UTF-8/UTF-16, read as</span>
+                <select
+                    value={fallbackEncoding}
+                    onChange={e => setFallbackEncoding(e.target.value)}
+                    aria-label="Legacy encoding fallback"
+                    disabled={isLoading}
+                >
+                    {LEGACY_ENCODINGS.map(enc => <option key={enc.value} value={enc.value}>{enc.label}</option>)}
+                </select>
+            </div>
+            {isLoading && <TaskProgress progress={progress ?? null} onCancel={onCancel} />}
             {name && (
                 <div className="file-info">
                     <span className="file-name">{name}</span>
@@ -128,6 +176,7 @@ export function DropZone({
                     )}
                 </div>
             )}
+            {children}
         </div>
     );
 }
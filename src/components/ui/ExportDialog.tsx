@@ -0,0 +1,232 @@
+import { useState, useEffect } from 'react';
+import { X, Copy, Download } from 'lucide-react';
+import { Button } from './Button';
+import { TaskProgress, useBackgroundTask } from './TaskProgress';
+import { useToast } from './Toast';
+import { createTextBlob } from '../../lib/encoding';
+import { DEFAULT_FILENAME_TEMPLATE, FILENAME_TOKENS, expandFileName, requestWriteAccess, chooseSaveTarget, saveBlob, supportsSavePicker } from '../../lib/fileSave';
+import type { SaveTarget } from '../../lib/fileSave';
+import type { Dataset } from '../../lib/csv';
+import {
+    EXPORT_FORMATS,
+    SQL_DIALECTS,
+    DEFAULT_EXPORT_OPTIONS,
+    formatInfo,
+    isDelimitedFormat,
+    tableNameFromFile
+} from '../../lib/exportFormats';
+import type { ExportSource, ExportOptions, ExportFormat, SqlDialect } from '../../lib/exportFormats';
+import { runBackgroundTask, TaskCancelledError } from '../../lib/workerClient';
+
+interface ExportDialogProps {
+    source: ExportSource | null;     // The dialog is open while a source is set
+    onClose: () => void;
+    original: Dataset | null;        // Input the result came from: names the file, and can be overwritten if opened with a handle
+    action: string;                  // Fills {action} in the file name template, e.g. "upserted"
+    encoding?: string;               // Encoding for CSV/TSV output (other formats are UTF-8)
+    keyColumns?: string[];           // Default conflict target for SQL UPSERT
+    title?: string;
+}
+
+export function ExportDialog({ source, onClose, original, action, encoding = 'utf-8', keyColumns = [], title = 'Export' }: ExportDialogProps) {
+    const [options, setOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+    const [template, setTemplate] = useState(DEFAULT_FILENAME_TEMPLATE);
+    const [overwrite, setOverwrite] = useState(false);
+    const task = useBackgroundTask();
+    const { showToast } = useToast();
+
+    // Fresh defaults for each result being exported (the chosen format is kept);
+    // data read from JSON keeps its numbers and booleans when written back as JSON
+    useEffect(() => {
+        if (!source) return;
+        setOptions(prev => ({ ...prev, tableName: tableNameFromFile(original?.name ?? 'data'), keyColumns, inferTypes: !!original?.json }));
+        setOverwrite(false);
+    }, [source]);
+
+    useEffect(() => {
+        if (!source) return;
+        const onKey = (e: KeyboardEvent) => {
+            if (e.key === 'Escape' && !task.busy) onClose();
+        };
+        window.addEventListener('keydown', onKey);
+        return () => window.removeEventListener('keydown', onKey);
+    }, [source, task.busy, onClose]);
+
+    if (!source) return null;
+
+    const info = formatInfo(options.format);
+    const isSql = options.format === 'sql-insert' || options.format === 'sql-upsert';
+    const isBinary = options.format === 'xlsx';
+    const isJson = options.format === 'json' || options.format === 'json-nested' || options.format === 'ndjson';
+    const hasNullOption = isSql || isJson;
+    // Only a delimited text input written back in its own format can be replaced in place
+    const overwriteHandle = options.format === 'csv' && original?.fileHandle && !original.spreadsheet && !original.json
+        ? original.fileHandle
+        : undefined;
+    const overwriting = overwrite && !!overwriteHandle;
+    const fileName = overwriting
+        ? overwriteHandle!.name
+        : expandFileName(template, { original: original?.name ?? 'data', action }, info.extension);
+    const update = (patch: Partial<ExportOptions>) => setOptions({ ...options, ...patch });
+
+    const serialize = async (): Promise<string | Uint8Array | null> => {
+        try {
+            return await task.run(onProgress => runBackgroundTask('serializeExport', { source, options }, onProgress));
+        } catch (err) {
+            if (!(err instanceof TaskCancelledError)) showToast(`Export failed: ${err instanceof Error ? err.message : String(err)}`, 'error');
+            return null;
+        }
+    };
+
+    const handleCopy = async () => {
+        const text = await serialize();
+        if (typeof text !== 'string') return;
+        navigator.clipboard.writeText(text).then(() => {
+            showToast(`Copied ${source.rows.length} rows as ${info.label}`, 'success');
+        }).catch(() => {
+            showToast('Failed to copy to clipboard', 'error');
+        });
+    };
+
+    const handleSave = async () => {
+        // Ask for write access or the save location while the click still counts as user
+        // activation; both fail once the export has run for a while
+        if (overwriting && !(await requestWriteAccess(overwriteHandle!))) {
+            showToast(`Permission to write ${fileName} was denied; untick "Overwrite the original file" to save a copy instead`, 'error');
+            return;
+        }
+        let target: SaveTarget | null;
+        try {
+            target = await chooseSaveTarget(fileName, info.mimeType, overwriting ? overwriteHandle : undefined);
+        } catch (err) {
+            showToast(`Save failed: ${err instanceof Error ? err.message : String(err)}`, 'error');
+            return;
+        }
+        if (!target) return;
+
+        const output = await serialize();
+        if (output === null) return;
+
+        // Delimited text keeps the source encoding and BOM; the other text formats are UTF-8
+        const delimited = isDelimitedFormat(options.format);
+        const blob = typeof output === 'string'
+            ? createTextBlob(output, delimited ? encoding : 'utf-8', delimited && source.dialect.bom, info.mimeType)
+            : new Blob([output as BlobPart], { type: info.mimeType });
+        try {
+            await saveBlob(blob, target);
+            if (target.handle) showToast(overwriting ? `Overwrote ${target.fileName}` : `Saved ${source.rows.length} rows`, 'success');
+        } catch (err) {
+            showToast(`Save failed: ${err instanceof Error ? err.message : String(err)}`, 'error');
+        }
+    };
+
+    const toggleKey = (h: string) => {
+        const next = options.keyColumns.includes(h)
+            ? options.keyColumns.filter(k => k !== h)
+            : [...options.keyColumns, h];
+        update({ keyColumns: next });
+    };
+
+    return (
+        <div className="dialog-backdrop" onClick={() => !task.busy && onClose()}>
+            <div className="dialog card" role="dialog" aria-modal="true" aria-label={title} onClick={e => e.stopPropagation()}>
+                <div className="header-row">
+                    <strong className="grow">{title}</strong>
+                    <span className="hint">{source.rows.length.toLocaleString()} rows • {source.headers.length} columns</span>
+                    <Button variant="ghost" onClick={onClose} disabled={task.busy} aria-label="Close" icon={<X size={16} />} />
+                </div>
+
+                <div className="dialog-grid">
+                    <label>
+                        Format
+                        <select value={options.format} onChange={e => update({ format: e.target.value as ExportFormat })} disabled={task.busy}>
+                            {EXPORT_FORMATS.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+                        </select>
+                    </label>
+                    {isSql && (
+                        <>
+                            <label>
+                                SQL dialect
+                                <select value={options.sqlDialect} onChange={e => update({ sqlDialect: e.target.value as SqlDialect })} disabled={task.busy}>
+                                    {SQL_DIALECTS.map(d => <option key={d.value} value={d.value}>{d.label}</option>)}
+                                </select>
+                            </label>
+                            <label>
+                                Table name
+                                <input type="text" value={options.tableName} onChange={e => update({ tableName: e.target.value })} disabled={task.busy} />
+                            </label>
+                        </>
+                    )}
+                </div>
+
+                {isBinary && source.sheets && (
+                    <p className="hint" style={{ marginTop: 12 }}>
+                        Sheets: {source.sheets.map(s => `${s.name} (${s.rows.length.toLocaleString()})`).join(', ')}
+                    </p>
+                )}
+
+                <div className="dialog-grid" style={{ marginTop: 12 }}>
+                    <label>
+                        File name
+                        <input
+                            type="text"
+                            value={template}
+                            onChange={e => setTemplate(e.target.value)}
+                            disabled={task.busy || overwriting}
+                            title={`Tokens: ${FILENAME_TOKENS.join(' ')}`}
+                        />
+                    </label>
+                </div>
+                <p className="hint">
+                    {overwriting ? 'Replaces' : supportsSavePicker() ? 'Suggested name' : 'Saves as'} <code>{fileName}</code>
+                </p>
+                {overwriteHandle && (
+                    <label style={{ marginTop: 8 }}>
+                        <input type="checkbox" checked={overwrite} onChange={e => setOverwrite(e.target.checked)} disabled={task.busy} />
+                        {' '}Overwrite the original file
+                    </label>
+                )}
+
+                {hasNullOption && (
+                    <label style={{ marginTop: 12 }}>
+                        <input type="checkbox" checked={options.emptyAsNull} onChange={e => update({ emptyAsNull: e.target.checked })} disabled={task.busy} />
+                        {' '}Write empty values as {isSql ? 'NULL' : 'null'}
+                    </label>
+                )}
+                {isJson && (
+                    <label style={{ marginTop: 8 }}>
+                        <input type="checkbox" checked={options.inferTypes} onChange={e => update({ inferTypes: e.target.checked })} disabled={task.busy} />
+                        {' '}Write numbers and true/false as JSON values
+                    </label>
+                )}
+
+                {options.format === 'sql-upsert' && (
+                    <div style={{ marginTop: 12 }}>
+                        <label>Conflict key columns</label>
+                        {options.sqlDialect === 'mysql' && (
+                            <p className="hint">MySQL matches on the table's own primary/unique keys; key columns are left out of the update list.</p>
+                        )}
+                        <div className="colpicker">
+                            <div className="list">
+                                {source.headers.map(h => (
+                                    <label className="item" key={h}>
+                                        <input type="checkbox" checked={options.keyColumns.includes(h)} onChange={() => toggleKey(h)} disabled={task.busy} />
+                                        <span>{h}</span>
+                                    </label>
+                                ))}
+                            </div>
+                        </div>
+                    </div>
+                )}
+
+                <div className="actions" style={{ marginTop: 16, justifyContent: 'flex-end' }}>
+                    <Button variant="secondary" onClick={handleCopy} disabled={task.busy || isBinary} icon={<Copy size={16} />}>Copy</Button>
+                    <Button variant={overwriting ? 'danger' : 'ok'} onClick={handleSave} disabled={task.busy} icon={<Download size={16} />}>
+                        {overwriting ? 'Overwrite' : supportsSavePicker() ? `Save .${info.extension}…` : `Download .${info.extension}`}
+                    </Button>
+                </div>
+                <TaskProgress progress={task.progress} onCancel={task.cancel} />
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,100 @@
+import { Plus, X } from 'lucide-react';
+import { Button } from './Button';
+import { FILTER_OPERATORS, operatorInfo, newCondition, newGroup, conditionProblem } from '../../lib/rowFilter';
+import type { RowFilter, FilterGroup, FilterCondition, FilterMatch, FilterOperator } from '../../lib/rowFilter';
+
+interface FilterBuilderProps {
+    columns: string[];
+    filter: RowFilter;
+    onChange: (filter: RowFilter) => void;
+    disabled?: boolean;
+}
+
+const PLACEHOLDERS = { text: 'Value', number: 'Number, e.g. 100', date: 'Date, e.g. 2024-01-01', none: '' };
+
+function MatchSelect({ value, onChange, disabled, label }: { value: FilterMatch; onChange: (m: FilterMatch) => void; disabled?: boolean; label: string }) {
+    return (
+        <select className="filter-match" value={value} onChange={e => onChange(e.target.value as FilterMatch)} disabled={disabled} aria-label={label}>
+            <option value="all">All of (AND)</option>
+            <option value="any">Any of (OR)</option>
+        </select>
+    );
+}
+
+export function FilterBuilder({ columns, filter, onChange, disabled }: FilterBuilderProps) {
+    const first = columns[0] ?? '';
+
+    const setGroup = (id: string, patch: Partial<FilterGroup>) =>
+        onChange({ ...filter, groups: filter.groups.map(g => (g.id === id ? { ...g, ...patch } : g)) });
+    const removeGroup = (id: string) => onChange({ ...filter, groups: filter.groups.filter(g => g.id !== id) });
+
+    const setCondition = (group: FilterGroup, id: string, patch: Partial<FilterCondition>) =>
+        setGroup(group.id, { conditions: group.conditions.map(c => (c.id === id ? { ...c, ...patch } : c)) });
+    const removeCondition = (group: FilterGroup, id: string) => {
+        const conditions = group.conditions.filter(c => c.id !== id);
+        if (conditions.length === 0) removeGroup(group.id);
+        else setGroup(group.id, { conditions });
+    };
+
+    return (
+        <div className="filter-builder">
+            {filter.groups.length > 1 && (
+                <div className="header-row">
+                    <span className="hint">Rows must match</span>
+                    <MatchSelect value={filter.match} onChange={match => onChange({ ...filter, match })} disabled={disabled} label="Combine groups" />
+                    <span className="hint">the groups below</span>
+                </div>
+            )}
+            {filter.groups.map((group, gi) => (
+                <div key={group.id} className="filter-group">
+                    <div className="header-row">
+                        <strong>Group {gi + 1}</strong>
+                        <MatchSelect value={group.match} onChange={match => setGroup(group.id, { match })} disabled={disabled} label={`Combine conditions of group ${gi + 1}`} />
+                        <span className="grow" />
+                        <Button variant="ghost" onClick={() => removeGroup(group.id)} disabled={disabled} icon={<X size={14} />}>Remove group</Button>
+                    </div>
+                    {group.conditions.map(c => {
+                        const { operand } = operatorInfo(c.operator);
+                        const problem = conditionProblem(c, columns);
+                        return (
+                            <div key={c.id} className={`filter-condition ${problem ? 'invalid' : ''}`} title={problem ?? undefined}>
+                                <select value={c.column} onChange={e => setCondition(group, c.id, { column: e.target.value })} disabled={disabled} aria-label="Column">
+                                    {!columns.includes(c.column) && <option value={c.column}>{c.column || '(choose)'}</option>}
+                                    {columns.map(h => <option key={h} value={h}>{h}</option>)}
+                                </select>
+                                <select value={c.operator} onChange={e => setCondition(group, c.id, { operator: e.target.value as FilterOperator })} disabled={disabled} aria-label="Operator">
+                                    {FILTER_OPERATORS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                                </select>
+                                {operand !== 'none' && (
+                                    <input
+                                        type="text"
+                                        value={c.value}
+                                        placeholder={PLACEHOLDERS[operand]}
+                                        onChange={e => setCondition(group, c.id, { value: e.target.value })}
+                                        disabled={disabled}
+                                        aria-label="Value"
+                                    />
+                                )}
+                                {operand === 'text' && (
+                                    <label title="Case-sensitive">
+                                        <input type="checkbox" checked={c.caseSensitive} onChange={e => setCondition(group, c.id, { caseSensitive: e.target.checked })} disabled={disabled} />
+                                        Aa
+                                    </label>
+                                )}
+                                <button type="button" className="cell-action" onClick={() => removeCondition(group, c.id)} disabled={disabled} title="Remove condition" aria-label="Remove condition">
+                                    <X size={14} />
+                                </button>
+                            </div>
+                        );
+                    })}
+                    <Button variant="ghost" onClick={() => setGroup(group.id, { conditions: [...group.conditions, newCondition(first)] })} disabled={disabled} icon={<Plus size={14} />}>
+                        Add condition
+                    </Button>
+                </div>
+            ))}
+            <Button variant="secondary" onClick={() => onChange({ ...filter, groups: [...filter.groups, newGroup(first)] })} disabled={disabled || columns.length === 0} icon={<Plus size={16} />}>
+                Add group
+            </Button>
+        </div>
+    );
+}
@@ -0,0 +1,77 @@
+import { useState, useEffect } from 'react';
+import { useToast } from './Toast';
+import { TaskCancelledError } from '../../lib/workerClient';
+import type { JsonSource, JsonArrayMode, FileReadOptions } from '../../lib/csv';
+
+interface JsonPickerProps {
+    source: JsonSource;
+    onChange: (file: File, options: FileReadOptions, handle?: FileSystemFileHandle) => void | Promise<void>;   // Re-reads the file (the panel's file handler)
+    fileHandle?: FileSystemFileHandle;   // Handle the file was opened with, kept across re-reads
+    disabled?: boolean;
+}
+
+const ARRAY_MODES: { value: JsonArrayMode; label: string }[] = [
+    { value: 'index', label: 'One column per item (tags.0, tags.1)' },
+    { value: 'join', label: 'Join items into one column' },
+];
+
+export function JsonPicker({ source, onChange, fileHandle, disabled }: JsonPickerProps) {
+    const [separator, setSeparator] = useState(source.arraySeparator);
+    const [isLoading, setIsLoading] = useState(false);
+    const { showToast } = useToast();
+
+    useEffect(() => {
+        setSeparator(source.arraySeparator);
+    }, [source]);
+
+    const reload = async (options: FileReadOptions) => {
+        setIsLoading(true);
+        try {
+            await onChange(source.file, options, fileHandle);
+        } catch (err) {
+            if (!(err instanceof TaskCancelledError)) {
+                showToast(`Failed to read JSON: ${err instanceof Error ? err.message : String(err)}`, 'error');
+            }
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const commitSeparator = () => {
+        if (separator === source.arraySeparator) return;
+        if (separator === '') {
+            setSeparator(source.arraySeparator);
+            return;
+        }
+        reload({ ...source.readOptions, arrayMode: source.arrayMode, arraySeparator: separator });
+    };
+
+    return (
+        <div className="sheet-picker">
+            <span className="hint">{source.format === 'ndjson' ? 'NDJSON' : 'JSON'} • nested fields as dotted columns</span>
+            <label>
+                Arrays
+                <select
+                    value={source.arrayMode}
+                    onChange={e => reload({ ...source.readOptions, arrayMode: e.target.value as JsonArrayMode, arraySeparator: source.arraySeparator })}
+                    disabled={disabled || isLoading}
+                >
+                    {ARRAY_MODES.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+                </select>
+            </label>
+            {source.arrayMode === 'join' && (
+                <label>
+                    Separator
+                    <input
+                        type="text"
+                        value={separator}
+                        onChange={e => setSeparator(e.target.value)}
+                        onBlur={commitSeparator}
+                        onKeyDown={e => { if (e.key === 'Enter') commitSeparator(); }}
+                        disabled={disabled || isLoading}
+                    />
+                </label>
+            )}
+        </div>
+    );
+}
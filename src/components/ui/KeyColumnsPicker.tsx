@@ -0,0 +1,49 @@
+import { X, ArrowUp } from 'lucide-react';
+
+interface KeyColumnsPickerProps {
+    available: string[];          // Columns that can be part of the key
+    selected: string[];           // Key columns in order
+    onChange: (selected: string[]) => void;
+    disabled?: boolean;
+}
+
+export function KeyColumnsPicker({ available, selected, onChange, disabled }: KeyColumnsPickerProps) {
+    const remaining = available.filter(h => !selected.includes(h));
+
+    const remove = (h: string) => onChange(selected.filter(k => k !== h));
+    const moveUp = (i: number) => {
+        const next = [...selected];
+        [next[i - 1], next[i]] = [next[i], next[i - 1]];
+        onChange(next);
+    };
+
+    return (
+        <div className="key-picker">
+            <div className="key-list">
+                {selected.map((h, i) => (
+                    <span className="key-chip" key={h}>
+                        <span className="key-index">{i + 1}</span>
+                        <span className="key-name" title={h}>{h}</span>
+                        {i > 0 && (
+                            <button type="button" onClick={() => moveUp(i)} disabled={disabled} aria-label={`Move ${h} up`}>
+                                <ArrowUp size={12} />
+                            </button>
+                        )}
+                        <button type="button" onClick={() => remove(h)} disabled={disabled} aria-label={`Remove ${h}`}>
+                            <X size={12} />
+                        </button>
+                    </span>
+                ))}
+                {selected.length === 0 && <span className="hint">No key column selected</span>}
+            </div>
+            <select
+                value=""
+                onChange={e => e.target.value && onChange([...selected, e.target.value])}
+                disabled={disabled || remaining.length === 0}
+            >
+                <option value="">{selected.length === 0 ? 'Add key column…' : 'Add another key column…'}</option>
+                {remaining.map(h => <option key={h} value={h}>{h}</option>)}
+            </select>
+        </div>
+    );
+}
@@ -0,0 +1,92 @@
+import type { ReactNode } from 'react';
+import { AlertTriangle, Download } from 'lucide-react';
+import { Button } from './Button';
+import { formatRowKey } from '../../lib/csv';
+import { DUPLICATE_POLICIES, hasKeyIssues } from '../../lib/keyIssues';
+import type { DuplicatePolicy, KeyIssues } from '../../lib/keyIssues';
+
+interface KeyIssuesReportProps {
+    label: string;                // Which file, e.g. "Original"
+    issues: KeyIssues;
+    policy?: DuplicatePolicy;     // Without a policy, duplicate keys always block
+    onPolicyChange?: (policy: DuplicatePolicy) => void;
+    onDownload: () => void;
+    blankNote: ReactNode;         // What happens to rows with a blank key
+    disabled?: boolean;
+}
+
+const MAX_LISTED = 200;
+const MAX_ROW_NUMBERS = 12;
+
+function rowList(rows: number[]): string {
+    const shown = rows.slice(0, MAX_ROW_NUMBERS).join(', ');
+    return rows.length > MAX_ROW_NUMBERS ? `${shown} … (+${rows.length - MAX_ROW_NUMBERS})` : shown;
+}
+
+function describe(issues: KeyIssues): string {
+    const parts: string[] = [];
+    const { duplicates, duplicateRows, blankRows } = issues;
+    if (duplicates.length > 0) {
+        parts.push(`${duplicates.length} duplicated key${duplicates.length === 1 ? '' : 's'} (${duplicateRows} extra row${duplicateRows === 1 ? '' : 's'})`);
+    }
+    if (blankRows.length > 0) parts.push(`${blankRows.length} row${blankRows.length === 1 ? '' : 's'} with a blank key`);
+    return parts.join(' • ');
+}
+
+export function KeyIssuesReport({ label, issues, policy, onPolicyChange, onDownload, blankNote, disabled }: KeyIssuesReportProps) {
+    if (!hasKeyIssues(issues)) return null;
+
+    const aborted = (!policy || policy === 'abort') && issues.duplicates.length > 0;
+    const listed = issues.duplicates.slice(0, MAX_LISTED);
+
+    return (
+        <details className={`parse-issues ${aborted ? 'rejected' : ''}`} open={aborted}>
+            <summary>
+                <AlertTriangle size={14} /> {label}: {describe(issues)}
+            </summary>
+            {issues.duplicates.length > 0 && policy && onPolicyChange && (
+                <label className="parse-policy">
+                    Duplicate keys
+                    <select value={policy} onChange={e => onPolicyChange(e.target.value as DuplicatePolicy)} disabled={disabled}>
+                        {DUPLICATE_POLICIES.map(p => <option key={p.value} value={p.value}>{p.label}</option>)}
+                    </select>
+                </label>
+            )}
+            {aborted && (
+                <p className="hint">
+                    {policy ? 'Preview and export are blocked until another option is chosen or the file is fixed.' : 'Blocked until the duplicate keys are fixed in the file.'}
+                </p>
+            )}
+            {issues.blankRows.length > 0 && <div className="hint">{blankNote}</div>}
+            <div className="table-wrap" style={{ marginTop: 8 }}>
+                <table>
+                    <thead>
+                        <tr><th>Key</th><th>Rows</th><th>Data rows</th></tr>
+                    </thead>
+                    <tbody>
+                        {listed.map(d => (
+                            <tr key={d.key}>
+                                <td><code>{formatRowKey(d.key)}</code></td>
+                                <td>{d.rows.length}</td>
+                                <td>{rowList(d.rows)}</td>
+                            </tr>
+                        ))}
+                        {issues.blankRows.length > 0 && (
+                            <tr>
+                                <td className="hint">(blank)</td>
+                                <td>{issues.blankRows.length}</td>
+                                <td>{rowList(issues.blankRows)}</td>
+                            </tr>
+                        )}
+                    </tbody>
+                </table>
+            </div>
+            {issues.duplicates.length > MAX_LISTED && (
+                <p className="hint">Showing the first {MAX_LISTED} of {issues.duplicates.length} duplicated keys.</p>
+            )}
+            <div className="actions" style={{ marginTop: 8 }}>
+                <Button variant="secondary" onClick={onDownload} icon={<Download size={16} />}>Download offending rows…</Button>
+            </div>
+        </details>
+    );
+}
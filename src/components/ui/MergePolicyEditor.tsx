@@ -0,0 +1,110 @@
+import { HelpTooltip } from './HelpTooltip';
+import { MERGE_POLICIES, policyInfo, policyFor } from '../../lib/mergePolicies';
+import type { MergePolicy, MergeOptions } from '../../lib/mergePolicies';
+
+interface MergePolicyEditorProps {
+    columns: string[];            // Columns the modifications file can update (keys excluded)
+    timestampColumns: string[];   // Columns present in both files
+    options: MergeOptions;
+    onChange: (options: MergeOptions) => void;
+    disabled?: boolean;
+}
+
+const DEFAULT = '';
+
+export function MergePolicyEditor({ columns, timestampColumns, options, onChange, disabled }: MergePolicyEditorProps) {
+    const used = new Set<MergePolicy>([options.defaultPolicy, ...columns.map(c => policyFor(c, options))]);
+
+    const setColumn = (column: string, value: string) => {
+        const rest = Object.entries(options.columns).filter(([c]) => c !== column);
+        const next = value === DEFAULT ? rest : [...rest, [column, value as MergePolicy] as const];
+        onChange({ ...options, columns: Object.fromEntries(next) });
+    };
+
+    return (
+        <div className="merge-policies">
+            <div className="header-row">
+                <label className="grow" style={{ margin: 0 }}>
+                    Merge Policies
+                    <HelpTooltip content="Decide how each column of a matched row is updated. 'Overwrite' copies the modifications value even when it is empty; the other policies can keep populated original values. Inserted rows are always taken as they are." />
+                </label>
+                <select
+                    value={options.defaultPolicy}
+                    onChange={e => onChange({ ...options, defaultPolicy: e.target.value as MergePolicy })}
+                    disabled={disabled}
+                    aria-label="Default merge policy"
+                >
+                    {MERGE_POLICIES.map(p => <option key={p.value} value={p.value}>Default: {p.label}</option>)}
+                </select>
+            </div>
+            <p className="hint">{policyInfo(options.defaultPolicy).description}.</p>
+
+            {(used.has('newer') || used.has('append')) && (
+                <div className="merge-settings">
+                    {used.has('newer') && (
+                        <label>
+                            Timestamp column
+                            <select
+                                value={options.timestampColumn}
+                                onChange={e => onChange({ ...options, timestampColumn: e.target.value })}
+                                disabled={disabled}
+                            >
+                                <option value="">— Choose a column —</option>
+                                {timestampColumns.map(h => <option key={h} value={h}>{h}</option>)}
+                            </select>
+                        </label>
+                    )}
+                    {used.has('append') && (
+                        <label>
+                            Append separator
+                            <input
+                                type="text"
+                                value={options.separator}
+                                onChange={e => onChange({ ...options, separator: e.target.value })}
+                                disabled={disabled}
+                                style={{ width: 100 }}
+                            />
+                        </label>
+                    )}
+                </div>
+            )}
+            {used.has('newer') && !options.timestampColumn && (
+                <p className="hint mapping-conflict">
+                    Choose a timestamp column; without one, 'Newer by timestamp' behaves like 'Overwrite if non-empty'.
+                </p>
+            )}
+
+            {columns.length > 0 && (
+                <div className="table-wrap" style={{ marginTop: 12 }}>
+                    <table>
+                        <thead>
+                            <tr><th>Column</th><th>Policy</th><th>Effect</th></tr>
+                        </thead>
+                        <tbody>
+                            {columns.map(c => {
+                                const override = Object.prototype.hasOwnProperty.call(options.columns, c) ? options.columns[c] : undefined;
+                                return (
+                                    <tr key={c}>
+                                        <td><code>{c}</code></td>
+                                        <td>
+                                            <select
+                                                value={override ?? DEFAULT}
+                                                onChange={e => setColumn(c, e.target.value)}
+                                                disabled={disabled}
+                                                aria-label={`Merge policy for ${c}`}
+                                            >
+                                                <option value={DEFAULT}>Default ({policyInfo(options.defaultPolicy).label})</option>
+                                                {MERGE_POLICIES.map(p => <option key={p.value} value={p.value}>{p.label}</option>)}
+                                            </select>
+                                        </td>
+                                        <td className="hint">{policyInfo(override ?? options.defaultPolicy).description}</td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+}
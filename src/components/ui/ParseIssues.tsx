@@ -0,0 +1,105 @@
+import { AlertTriangle } from 'lucide-react';
+import type { Dataset, ParseDiagnostics, ParseIssueKind, MalformedRowPolicy } from '../../lib/csv';
+
+interface ParseIssuesProps {
+    csv: Dataset;
+    onPolicyChange: (policy: MalformedRowPolicy) => void;
+    disabled?: boolean;
+}
+
+const MAX_LISTED = 200;
+
+const KIND_LABELS: Record<ParseIssueKind, string> = {
+    too_many_fields: 'Too many fields',
+    too_few_fields: 'Too few fields',
+    unterminated_quote: 'Unterminated quote',
+    malformed_quote: 'Malformed quote',
+    duplicate_header: 'Duplicate header',
+    blank_header: 'Blank header',
+};
+
+const POLICIES: { value: MalformedRowPolicy; label: string }[] = [
+    { value: 'pad', label: 'Pad / truncate to header width' },
+    { value: 'skip', label: 'Skip malformed rows' },
+    { value: 'reject', label: 'Reject file' },
+];
+
+function describe(diagnostics: ParseDiagnostics): string {
+    const { issues, policy, skipped, repaired, rejected } = diagnostics;
+    const rows = new Set(issues.filter(i => i.record > 0).map(i => i.record)).size;
+    const parts = [`${issues.length} parse issue${issues.length === 1 ? '' : 's'}`];
+    if (rows > 0) parts.push(`${rows} malformed row${rows === 1 ? '' : 's'}`);
+    if (rejected) parts.push('file rejected');
+    else if (policy === 'skip' && skipped.length > 0) parts.push(`${skipped.length} skipped`);
+    else if (policy === 'pad' && repaired.length > 0) parts.push(`${repaired.length} padded/truncated`);
+    return parts.join(' • ');
+}
+
+export function ParseIssues({ csv, onPolicyChange, disabled }: ParseIssuesProps) {
+    const { diagnostics } = csv;
+    if (diagnostics.issues.length === 0) return null;
+
+    const listed = diagnostics.issues.slice(0, MAX_LISTED);
+    const renamed = csv.headers
+        .map((header, i) => ({ header, original: csv.originalHeaders[i] ?? '', position: i + 1 }))
+        .filter(c => c.header !== c.original);
+
+    return (
+        <details className={`parse-issues ${diagnostics.rejected ? 'rejected' : ''}`} open={diagnostics.rejected}>
+            <summary>
+                <AlertTriangle size={14} /> {describe(diagnostics)}
+            </summary>
+            <label className="parse-policy">
+                Malformed rows
+                <select
+                    value={diagnostics.policy}
+                    onChange={e => onPolicyChange(e.target.value as MalformedRowPolicy)}
+                    disabled={disabled}
+                >
+                    {POLICIES.map(p => <option key={p.value} value={p.value}>{p.label}</option>)}
+                </select>
+            </label>
+            {renamed.length > 0 && (
+                <div className="table-wrap header-mapping">
+                    <table>
+                        <thead>
+                            <tr><th>Column</th><th>Header in file</th><th>Read as</th></tr>
+                        </thead>
+                        <tbody>
+                            {renamed.map(c => (
+                                <tr key={c.position}>
+                                    <td>{c.position}</td>
+                                    <td><code>{c.original === '' ? '(blank)' : JSON.stringify(c.original)}</code></td>
+                                    <td><code>{c.header}</code></td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+            {diagnostics.rejected && (
+                <p className="hint">This file is rejected until its malformed rows are fixed or another policy is chosen.</p>
+            )}
+            <div className="table-wrap">
+                <table>
+                    <thead>
+                        <tr><th>Line</th><th>Record</th><th>Problem</th><th>Raw text</th></tr>
+                    </thead>
+                    <tbody>
+                        {listed.map((issue, i) => (
+                            <tr key={i}>
+                                <td>{issue.line}</td>
+                                <td>{issue.record === 0 ? 'header' : issue.record}</td>
+                                <td title={issue.message}>{KIND_LABELS[issue.kind]}</td>
+                                <td><code>{issue.snippet}</code></td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+            {diagnostics.issues.length > MAX_LISTED && (
+                <p className="hint">Showing the first {MAX_LISTED} of {diagnostics.issues.length} issues.</p>
+            )}
+        </details>
+    );
+}
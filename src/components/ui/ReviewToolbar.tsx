@@ -0,0 +1,53 @@
+import { Check, X, Search } from 'lucide-react';
+import { Button } from './Button';
+
+export interface ReviewFilter {
+    column: string;           // '' = any column
+    text: string;             // Case-insensitive substring
+}
+
+export const EMPTY_REVIEW_FILTER: ReviewFilter = { column: '', text: '' };
+
+export function matchesReviewFilter(row: Record<string, any>, filter: ReviewFilter, columns: string[]): boolean {
+    const needle = filter.text.trim().toLowerCase();
+    if (!needle) return true;
+    const searched = filter.column ? [filter.column] : columns;
+    return searched.some(h => String(row[h] ?? '').toLowerCase().includes(needle));
+}
+
+interface ReviewToolbarProps {
+    columns: string[];
+    filter: ReviewFilter;
+    onFilterChange: (filter: ReviewFilter) => void;
+    matching: number;         // Rows shown under the filter
+    accepted: number;         // Of those, how many are accepted
+    onAcceptAll: () => void;
+    onRejectAll: () => void;
+}
+
+export function ReviewToolbar({ columns, filter, onFilterChange, matching, accepted, onAcceptAll, onRejectAll }: ReviewToolbarProps) {
+    const filtered = filter.text.trim() !== '';
+    return (
+        <div className="review-toolbar">
+            <Search size={14} />
+            <select value={filter.column} onChange={e => onFilterChange({ ...filter, column: e.target.value })} aria-label="Filter column">
+                <option value="">Any column</option>
+                {columns.map(h => <option key={h} value={h}>{h}</option>)}
+            </select>
+            <input
+                type="text"
+                placeholder="Contains…"
+                value={filter.text}
+                onChange={e => onFilterChange({ ...filter, text: e.target.value })}
+                aria-label="Filter text"
+            />
+            <span className="hint grow">{accepted} of {matching} {filtered ? 'matching ' : ''}row{matching === 1 ? '' : 's'} accepted</span>
+            <Button variant="secondary" onClick={onAcceptAll} disabled={matching === 0} icon={<Check size={16} />}>
+                Accept {filtered ? 'matching' : 'all'}
+            </Button>
+            <Button variant="secondary" onClick={onRejectAll} disabled={matching === 0} icon={<X size={16} />}>
+                Reject {filtered ? 'matching' : 'all'}
+            </Button>
+        </div>
+    );
+}
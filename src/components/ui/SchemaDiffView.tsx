@@ -0,0 +1,83 @@
+import { Columns3 } from 'lucide-react';
+import type { ColumnRenames, SchemaDiff } from '../../lib/schemaDiff';
+
+interface SchemaDiffViewProps {
+    schema: SchemaDiff;
+    renames: ColumnRenames;       // Detected renames the user chose to diff as one column
+    onRenamesChange: (renames: ColumnRenames) => void;
+    disabled?: boolean;
+}
+
+const percent = (n: number) => `${Math.round(n * 100)}%`;
+
+function describe(schema: SchemaDiff): string {
+    const parts: string[] = [];
+    if (schema.added.length > 0) parts.push(`${schema.added.length} added`);
+    if (schema.removed.length > 0) parts.push(`${schema.removed.length} removed`);
+    if (schema.renamed.length > 0) parts.push(`${schema.renamed.length} likely renamed`);
+    if (schema.moved.length > 0) parts.push(`${schema.moved.length} reordered`);
+    return parts.length > 0 ? parts.join(' • ') : 'same columns, different order';
+}
+
+export function SchemaDiffView({ schema, renames, onRenamesChange, disabled }: SchemaDiffViewProps) {
+    if (schema.unchanged) {
+        return <p className="hint schema-same"><Columns3 size={14} /> Columns: both files have the same columns in the same order.</p>;
+    }
+
+    const setRename = (from: string, to: string, on: boolean) => {
+        const rest = Object.entries(renames).filter(([c]) => c !== to);
+        onRenamesChange(Object.fromEntries(on ? [...rest, [to, from] as const] : rest));
+    };
+
+    return (
+        <details className="schema-diff" open>
+            <summary>
+                <Columns3 size={14} /> Columns: {describe(schema)}
+            </summary>
+            <div className="table-wrap" style={{ marginTop: 8 }}>
+                <table>
+                    <thead>
+                        <tr><th>Change</th><th>Column</th><th>Details</th></tr>
+                    </thead>
+                    <tbody>
+                        {schema.added.map(c => (
+                            <tr key={`added-${c}`} className="added">
+                                <td>Added</td><td><code>{c}</code></td><td>Only in Compare CSV</td>
+                            </tr>
+                        ))}
+                        {schema.removed.map(c => (
+                            <tr key={`removed-${c}`} className="removed">
+                                <td>Removed</td><td><code>{c}</code></td><td>Only in Base CSV</td>
+                            </tr>
+                        ))}
+                        {schema.renamed.map(r => (
+                            <tr key={`renamed-${r.from}`}>
+                                <td>Renamed?</td>
+                                <td><code>{r.from}</code> → <code>{r.to}</code></td>
+                                <td>
+                                    Name similarity {percent(r.nameScore)}, value overlap {percent(r.valueOverlap)}
+                                    <label className="schema-rename">
+                                        <input
+                                            type="checkbox"
+                                            checked={renames[r.to] === r.from}
+                                            onChange={e => setRename(r.from, r.to, e.target.checked)}
+                                            disabled={disabled}
+                                        />
+                                        Compare as the same column
+                                    </label>
+                                </td>
+                            </tr>
+                        ))}
+                        {schema.moved.map(m => (
+                            <tr key={`moved-${m.column}`}>
+                                <td>Reordered</td>
+                                <td><code>{m.column}</code></td>
+                                <td>Position {m.basePosition} → {m.comparePosition} (among shared columns)</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </details>
+    );
+}
@@ -0,0 +1,72 @@
+import { useState, useEffect } from 'react';
+import { useToast } from './Toast';
+import { TaskCancelledError } from '../../lib/workerClient';
+import type { SpreadsheetSource, FileReadOptions } from '../../lib/csv';
+
+interface SheetPickerProps {
+    source: SpreadsheetSource;
+    onChange: (file: File, options: FileReadOptions, handle?: FileSystemFileHandle) => void | Promise<void>;   // Re-reads the workbook (the panel's file handler)
+    fileHandle?: FileSystemFileHandle;   // Handle the file was opened with, kept across re-reads
+    disabled?: boolean;
+}
+
+export function SheetPicker({ source, onChange, fileHandle, disabled }: SheetPickerProps) {
+    const [headerRow, setHeaderRow] = useState(String(source.headerRow));
+    const [isLoading, setIsLoading] = useState(false);
+    const { showToast } = useToast();
+
+    useEffect(() => {
+        setHeaderRow(String(source.headerRow));
+    }, [source]);
+
+    const reload = async (options: FileReadOptions) => {
+        setIsLoading(true);
+        try {
+            await onChange(source.file, options, fileHandle);
+        } catch (err) {
+            if (!(err instanceof TaskCancelledError)) {
+                showToast(`Failed to read sheet: ${err instanceof Error ? err.message : String(err)}`, 'error');
+            }
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const commitHeaderRow = () => {
+        const row = parseInt(headerRow, 10);
+        if (!Number.isFinite(row) || row === source.headerRow) {
+            setHeaderRow(String(source.headerRow));
+            return;
+        }
+        reload({ ...source.readOptions, sheet: source.sheet, headerRow: row });
+    };
+
+    return (
+        <div className="sheet-picker">
+            <label>
+                Sheet
+                <select
+                    value={source.sheet}
+                    onChange={e => reload({ ...source.readOptions, sheet: e.target.value })}
+                    disabled={disabled || isLoading || source.sheetNames.length < 2}
+                >
+                    {source.sheetNames.map(name => <option key={name} value={name}>{name}</option>)}
+                </select>
+            </label>
+            <label>
+                Header row
+                <input
+                    type="number"
+                    min={source.firstRow}
+                    max={source.lastRow}
+                    value={headerRow}
+                    onChange={e => setHeaderRow(e.target.value)}
+                    onBlur={commitHeaderRow}
+                    onKeyDown={e => { if (e.key === 'Enter') commitHeaderRow(); }}
+                    disabled={disabled || isLoading}
+                />
+            </label>
+            <span className="hint">Rows {source.firstRow}–{source.lastRow} in use</span>
+        </div>
+    );
+}
@@ -1,4 +1,12 @@
+import type { ReactNode } from 'react';
 
+export interface CellInfo {
+    className: string;
+    title: string;
+    badge?: string;
+    display?: string;         // Shown instead of the row's value
+    action?: ReactNode;       // Small control shown after the value
+}
 
 interface TableProps {
     headers: string[];
@@ -6,11 +14,16 @@ interface TableProps {
     rowClassFn?: (row: any) => string;
     // Map of ColumnName -> PreviousValue (if changed)
     changedMapByRowFn?: (row: any) => Record<string, string> | null;
+    // Per-cell annotation; takes precedence over changedMapByRowFn for that cell
+    cellInfoFn?: (row: any, header: string) => CellInfo | null;
+    // Extra leading column with per-row controls
+    rowControlFn?: (row: any) => ReactNode;
+    toolbar?: ReactNode;      // Shown between the title and the table
     title: string;
     hint?: string;
 }
 
-export function Table({ headers, rows, rowClassFn, changedMapByRowFn, title, hint }: TableProps) {
+export function Table({ headers, rows, rowClassFn, changedMapByRowFn, cellInfoFn, rowControlFn, toolbar, title, hint }: TableProps) {
     const CAP = 2000;
     const slice = rows.length > CAP ? rows.slice(0, CAP) : rows;
 
@@ -20,10 +33,12 @@ export function Table({ headers, rows, rowClassFn, changedMapByRowFn, title, hin
                 <strong>{title}</strong>
                 {hint && <span className="hint">{hint}</span>}
             </div>
+            {toolbar}
             <div className="table-wrap">
                 <table>
                     <thead>
                         <tr>
+                            {rowControlFn && <th className="row-control" />}
                             {headers.map(h => <th key={h}>{h}</th>)}
                         </tr>
                     </thead>
@@ -33,17 +48,21 @@ export function Table({ headers, rows, rowClassFn, changedMapByRowFn, title, hin
                             const cls = rowClassFn ? rowClassFn(r) : '';
                             return (
                                 <tr key={i} className={cls}>
+                                    {rowControlFn && <td className="row-control">{rowControlFn(r)}</td>}
                                     {headers.map(h => {
                                         const val = r[h] ?? '';
                                         const oldVal = changed?.[h];
                                         const isChanged = oldVal !== undefined;
+                                        const info = cellInfoFn ? cellInfoFn(r, h) : null;
                                         return (
                                             <td
                                                 key={h}
-                                                className={isChanged ? 'changed' : ''}
-                                                title={isChanged ? `was: ${oldVal}` : undefined}
+                                                className={info ? info.className : isChanged ? 'changed' : ''}
+                                                title={info ? info.title : isChanged ? `was: ${oldVal}` : undefined}
                                             >
-                                                {val}
+                                                {info?.display ?? val}
+                                                {info?.badge && <span className="cell-badge">{info.badge}</span>}
+                                                {info?.action}
                                             </td>
                                         );
                                     })}
@@ -52,7 +71,7 @@ export function Table({ headers, rows, rowClassFn, changedMapByRowFn, title, hin
                         })}
                         {rows.length > CAP && (
                             <tr>
-                                <td colSpan={headers.length} className="hint">
+                                <td colSpan={headers.length + (rowControlFn ? 1 : 0)} className="hint">
                                     Showing first {CAP.toLocaleString()} of {rows.length.toLocaleString()} rows…
                                 </td>
                             </tr>
@@ -0,0 +1,68 @@
+import { useState, useRef, useCallback } from 'react';
+import { X } from 'lucide-react';
+import { Button } from './Button';
+import type { ProgressInfo, ProgressCallback, ProgressPhase } from '../../lib/csv';
+import type { TaskHandle } from '../../lib/workerClient';
+
+const PHASE_LABELS: Record<ProgressPhase, string> = {
+    reading: 'Reading file',
+    parsing: 'Parsing rows',
+    processing: 'Processing',
+};
+
+interface TaskProgressProps {
+    progress: ProgressInfo | null;
+    onCancel?: () => void;
+}
+
+export function TaskProgress({ progress, onCancel }: TaskProgressProps) {
+    if (!progress) return null;
+
+    const pct = progress.total > 0 ? Math.min(100, Math.round((progress.loaded / progress.total) * 100)) : null;
+
+    return (
+        <div className="task-progress" role="status" aria-live="polite">
+            <div className="progress-track">
+                <div
+                    className={`progress-fill ${pct === null ? 'indeterminate' : ''}`}
+                    style={pct === null ? undefined : { width: `${pct}%` }}
+                />
+            </div>
+            <span className="hint">
+                {PHASE_LABELS[progress.phase]}{pct !== null && ` ${pct}%`}
+                {progress.rows !== undefined && ` (${progress.rows.toLocaleString()} rows)`}...
+            </span>
+            {onCancel && (
+                <Button variant="ghost" onClick={onCancel} icon={<X size={14} />}>
+                    Cancel
+                </Button>
+            )}
+        </div>
+    );
+}
+
+/**
+ * Track one background task at a time: its progress, and a cancel function for the running task.
+ */
+export function useBackgroundTask() {
+    const [progress, setProgress] = useState<ProgressInfo | null>(null);
+    const current = useRef<TaskHandle<unknown> | null>(null);
+
+    const run = useCallback(async <T,>(start: (onProgress: ProgressCallback) => TaskHandle<T>): Promise<T> => {
+        setProgress({ phase: 'processing', loaded: 0, total: 0 });
+        const handle = start(setProgress);
+        current.current = handle;
+        try {
+            return await handle.promise;
+        } finally {
+            if (current.current === handle) {
+                current.current = null;
+                setProgress(null);
+            }
+        }
+    }, []);
+
+    const cancel = useCallback(() => current.current?.cancel(), []);
+
+    return { run, cancel, progress, busy: progress !== null };
+}
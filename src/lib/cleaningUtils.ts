@@ -3,6 +3,9 @@
  * Functions for handling missing values, text standardization, and deduplication
  */
 
+import { formatPreservingExport, PREVIEW_ROWS } from './csv';
+import type { ParsedCSV } from './csv';
+
 export type FillStrategy = 'remove' | 'value' | 'average' | 'mode' | 'empty';
 export type TextCase = 'trim' | 'lowercase' | 'uppercase' | 'titlecase';
 export type ColumnType = 'text' | 'number' | 'email' | 'date' | 'phone' | 'unknown';
@@ -248,18 +251,20 @@ export function trimAllColumns(
     return { rows: newRows, affected };
 }
 
+export interface DataQualitySummary {
+    totalRows: number;
+    missingByColumn: Record<string, number>;
+    columnTypes: Record<string, ColumnType>;
+    duplicateCount: number;
+}
+
 /**
  * Get summary of data quality issues
  */
 export function getDataQualitySummary(
     rows: Record<string, any>[],
     headers: string[]
-): {
-    totalRows: number;
-    missingByColumn: Record<string, number>;
-    columnTypes: Record<string, ColumnType>;
-    duplicateCount: number;
-} {
+): DataQualitySummary {
     const missingByColumn: Record<string, number> = {};
     const columnTypes: Record<string, ColumnType> = {};
 
@@ -420,3 +425,105 @@ export function combineColumns(
 
     return { rows: newRows, headers: newHeaders, affected: rows.length };
 }
+
+/**
+ * One step of a cleaning session. Steps are replayed in order on the original rows.
+ */
+export type CleaningOperation =
+    | { type: 'missing'; column: string; strategy: FillStrategy; fillValue?: string }
+    | { type: 'text'; column: string; mode: TextCase }
+    | { type: 'dedupe'; columns: string[] }
+    | { type: 'trimAll' }
+    | { type: 'findReplace'; column: string; find: string; replace: string; regex: boolean }
+    | { type: 'split'; column: string; delimiter: string }
+    | { type: 'combine'; columns: string[]; separator: string; newColumn: string };
+
+interface CleanedRows {
+    headers: string[];
+    rows: Record<string, any>[];
+    affected: number[];           // Rows or values changed by each operation, by position
+    changedKeys: Set<string>;     // First-column values of rows to rebuild on export
+}
+
+function applyOperations(csv: ParsedCSV, operations: CleaningOperation[]): CleanedRows {
+    let { headers, rows } = csv;
+    const affected: number[] = [];
+    const changedKeys = new Set<string>();
+
+    // Value edits mark every row they ran over as changed
+    const markChanged = (source: Record<string, any>[], count: number) => {
+        if (count === 0 || !csv.headers[0]) return;
+        source.forEach(row => {
+            const key = String(row[csv.headers[0]] ?? '').trim();
+            if (key) changedKeys.add(key);
+        });
+    };
+
+    for (const op of operations) {
+        let result: { rows: Record<string, any>[]; headers?: string[]; affected: number };
+        switch (op.type) {
+            case 'missing':
+                result = handleMissingValues(rows, op.column, op.strategy, op.fillValue);
+                markChanged(rows, result.affected);
+                break;
+            case 'text':
+                result = standardizeText(rows, op.column, op.mode);
+                markChanged(rows, result.affected);
+                break;
+            case 'dedupe':
+                result = removeDuplicates(rows, op.columns);
+                break;
+            case 'trimAll':
+                result = trimAllColumns(rows, csv.headers);
+                markChanged(rows, result.affected);
+                break;
+            case 'findReplace':
+                result = findAndReplace(rows, op.column, op.find, op.replace, op.regex, false);
+                break;
+            case 'split':
+                result = splitColumn(rows, headers, op.column, op.delimiter);
+                break;
+            case 'combine':
+                result = combineColumns(rows, headers, op.columns, op.separator, op.newColumn);
+                break;
+        }
+        rows = result.rows;
+        headers = result.headers ?? headers;
+        affected.push(result.affected);
+    }
+    return { headers, rows, affected, changedKeys };
+}
+
+export interface CleaningPreview {
+    headers: string[];
+    rowCount: number;
+    rows: Record<string, any>[];  // First PREVIEW_ROWS rows
+    affected: number[];
+    quality: DataQualitySummary;
+}
+
+/**
+ * The cleaned data after `operations`, as far as the page shows it: the first rows,
+ * what each operation changed and the data quality summary.
+ */
+export function previewCleaning(csv: ParsedCSV, operations: CleaningOperation[]): CleaningPreview {
+    const { headers, rows, affected } = applyOperations(csv, operations);
+    return {
+        headers,
+        rowCount: rows.length,
+        rows: rows.slice(0, PREVIEW_ROWS),
+        affected,
+        quality: getDataQualitySummary(rows, headers)
+    };
+}
+
+/**
+ * The cleaned data for export, limited to `columns`. The CSV keeps the original
+ * formatting of rows no operation changed.
+ */
+export function exportCleaning(csv: ParsedCSV, operations: CleaningOperation[], columns: string[]): { headers: string[]; rows: Record<string, any>[]; csv: string } {
+    const cleaned = applyOperations(csv, operations);
+    const headers = cleaned.headers.filter(h => columns.includes(h));
+    const text = formatPreservingExport(headers, cleaned.rows, csv, headers[0] || '', cleaned.changedKeys);
+    return { headers, rows: cleaned.rows, csv: text };
+}
@@ -0,0 +1,231 @@
+/**
+ * Column Mapping
+ * Matching a modifications file's columns to the original's: suggestions, renaming, and saved mappings
+ */
+
+import type { ParsedCSV } from './csv';
+
+/**
+ * Target column for each modifications column, by modifications header. A target that is not an
+ * original column keeps the column as new (added in union mode); null ignores the column.
+ */
+export type ColumnMapping = Record<string, string | null>;
+
+export type MatchReason = 'exact' | 'normalized' | 'fuzzy' | 'none';
+
+export interface MappingSuggestion {
+    source: string;           // Modifications column
+    target: string | null;    // Suggested original column, or null when nothing is close enough
+    reason: MatchReason;
+    score: number;            // 0..1 name similarity
+}
+
+export interface SavedMapping {
+    name: string;
+    sourceHeaders: string[];  // Modifications columns the mapping was made for
+    mapping: ColumnMapping;
+    savedAt: string;
+}
+
+const FUZZY_THRESHOLD = 0.7;
+const STORAGE_KEY = 'csvstudio.columnMappings';
+
+function hasSource(mapping: ColumnMapping, source: string): boolean {
+    return Object.prototype.hasOwnProperty.call(mapping, source);
+}
+
+/**
+ * Header name reduced for comparison: case, whitespace, underscores, hyphens and dots ignored.
+ */
+export function normalizeHeaderName(name: string): string {
+    return name.toLowerCase().replace(/[\s_\-.]+/g, '');
+}
+
+function bigrams(s: string): string[] {
+    const out: string[] = [];
+    for (let i = 0; i < s.length - 1; i++) out.push(s.slice(i, i + 2));
+    return out;
+}
+
+function isSubsequence(short: string, long: string): boolean {
+    let j = 0;
+    for (let i = 0; i < long.length && j < short.length; i++) {
+        if (long[i] === short[j]) j++;
+    }
+    return j === short.length;
+}
+
+/**
+ * Similarity of two header names (0..1): bigram overlap of the normalized names, raised when
+ * one name contains the other (`email` / `Email Address`) or abbreviates it (`CustID` / `customer_id`).
+ */
+export function headerSimilarity(a: string, b: string): number {
+    const x = normalizeHeaderName(a);
+    const y = normalizeHeaderName(b);
+    if (!x || !y) return 0;
+    if (x === y) return 1;
+
+    const bx = bigrams(x);
+    const by = bigrams(y);
+    const pool = [...by];
+    let common = 0;
+    bx.forEach(g => {
+        const i = pool.indexOf(g);
+        if (i >= 0) {
+            common++;
+            pool.splice(i, 1);
+        }
+    });
+    const dice = bx.length + by.length > 0 ? (2 * common) / (bx.length + by.length) : 0;
+
+    const [short, long] = x.length <= y.length ? [x, y] : [y, x];
+    let bonus = 0;
+    if (short.length >= 3 && long.includes(short)) bonus = 0.8;
+    else if (short.length >= 3 && short[0] === long[0] && isSubsequence(short, long)) bonus = 0.7;
+
+    return Math.max(dice, bonus);
+}
+
+/**
+ * Suggest a target for every modifications column. Exact names are matched first, then
+ * normalized names, then the most similar remaining names; each original column is used once.
+ */
+export function suggestMapping(originalHeaders: string[], sourceHeaders: string[]): MappingSuggestion[] {
+    const suggestions = new Map<string, MappingSuggestion>();
+    const used = new Set<string>();
+
+    const assign = (source: string, target: string, reason: MatchReason, score: number) => {
+        suggestions.set(source, { source, target, reason, score });
+        used.add(target);
+    };
+
+    sourceHeaders.forEach(s => {
+        if (originalHeaders.includes(s) && !used.has(s)) assign(s, s, 'exact', 1);
+    });
+
+    sourceHeaders.forEach(s => {
+        if (suggestions.has(s)) return;
+        const target = originalHeaders.find(o => !used.has(o) && normalizeHeaderName(o) === normalizeHeaderName(s));
+        if (target) assign(s, target, 'normalized', 1);
+    });
+
+    const candidates: { source: string; target: string; score: number }[] = [];
+    sourceHeaders.forEach(s => {
+        if (suggestions.has(s)) return;
+        originalHeaders.forEach(o => {
+            if (used.has(o)) return;
+            const score = headerSimilarity(s, o);
+            if (score >= FUZZY_THRESHOLD) candidates.push({ source: s, target: o, score });
+        });
+    });
+    candidates
+        .sort((a, b) => b.score - a.score)
+        .forEach(c => {
+            if (!suggestions.has(c.source) && !used.has(c.target)) assign(c.source, c.target, 'fuzzy', c.score);
+        });
+
+    return sourceHeaders.map(s => suggestions.get(s) ?? { source: s, target: null, reason: 'none', score: 0 });
+}
+
+/**
+ * Mapping from suggestions: suggested columns map to their match, the rest are kept under their own name.
+ */
+export function mappingFromSuggestions(suggestions: MappingSuggestion[]): ColumnMapping {
+    return Object.fromEntries(suggestions.map(s => [s.source, s.target ?? s.source]));
+}
+
+/**
+ * Target columns that more than one modifications column maps to.
+ */
+export function mappingConflicts(mapping: ColumnMapping): string[] {
+    const counts = new Map<string, number>();
+    Object.values(mapping).forEach(t => {
+        if (t !== null) counts.set(t, (counts.get(t) ?? 0) + 1);
+    });
+    return [...counts].filter(([, n]) => n > 1).map(([t]) => t);
+}
+
+/**
+ * Rename a dataset's columns by mapping, dropping ignored ones. Columns missing from the
+ * mapping keep their name. If two columns map to the same target, the later one wins.
+ */
+export function applyColumnMapping(csv: ParsedCSV, mapping: ColumnMapping): ParsedCSV {
+    const pairs = csv.headers
+        .map(h => [h, hasSource(mapping, h) ? mapping[h] : h] as const)
+        .filter((p): p is readonly [string, string] => p[1] !== null);
+    const identity = pairs.length === csv.headers.length && pairs.every(([from, to]) => from === to);
+    if (identity) return csv;
+
+    const headers = [...new Set(pairs.map(([, to]) => to))];
+    const rows = csv.rows.map(r => {
+        const out: Record<string, any> = {};
+        pairs.forEach(([from, to]) => { out[to] = r[from]; });
+        return out;
+    });
+    return { ...csv, headers, rows };
+}
+
+function readSaved(): SavedMapping[] {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        return raw ? JSON.parse(raw) as SavedMapping[] : [];
+    } catch {
+        return [];
+    }
+}
+
+function writeSaved(mappings: SavedMapping[]): void {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(mappings));
+}
+
+/**
+ * Mappings saved in this browser, newest first.
+ */
+export function loadSavedMappings(): SavedMapping[] {
+    return readSaved().sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+}
+
+/**
+ * Save (or replace, by name) a mapping for files with these columns.
+ */
+export function saveMapping(name: string, sourceHeaders: string[], mapping: ColumnMapping): SavedMapping[] {
+    const entry: SavedMapping = { name, sourceHeaders, mapping, savedAt: new Date().toISOString() };
+    writeSaved([entry, ...readSaved().filter(m => m.name !== name)]);
+    return loadSavedMappings();
+}
+
+export function deleteSavedMapping(name: string): SavedMapping[] {
+    writeSaved(readSaved().filter(m => m.name !== name));
+    return loadSavedMappings();
+}
+
+/**
+ * The most recent saved mapping made for exactly this set of columns, if any.
+ */
+export function findSavedMapping(saved: SavedMapping[], sourceHeaders: string[]): SavedMapping | undefined {
+    const key = [...sourceHeaders].sort().join('\n');
+    return saved.find(m => [...m.sourceHeaders].sort().join('\n') === key);
+}
+
+/**
+ * Bring a saved mapping onto the current columns: known columns take the saved target,
+ * columns the mapping doesn't know fall back to the suggestions.
+ */
+export function mergeSavedMapping(saved: ColumnMapping, suggestions: MappingSuggestion[]): ColumnMapping {
+    return Object.fromEntries(suggestions.map(s => [
+        s.source,
+        hasSource(saved, s.source) ? saved[s.source] : s.target ?? s.source
+    ]));
+}
+
+/**
+ * Starting mapping for a pair of files: a saved mapping made for these columns when there
+ * is one, otherwise the suggestions.
+ */
+export function initialMapping(originalHeaders: string[], sourceHeaders: string[]): { mapping: ColumnMapping; saved?: SavedMapping } {
+    const suggestions = suggestMapping(originalHeaders, sourceHeaders);
+    const saved = findSavedMapping(loadSavedMappings(), sourceHeaders);
+    return saved
+        ? { mapping: mergeSavedMapping(saved.mapping, suggestions), saved }
+        : { mapping: mappingFromSuggestions(suggestions) };
+}
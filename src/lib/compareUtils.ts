@@ -0,0 +1,564 @@
+/**
+ * Compare Utilities
+ * Keyed diff of two CSV files and diff export
+ */
+
+import { rowKey, formatRowKey } from './csv';
+import type { ParsedCSV, Dataset } from './csv';
+import type { SheetData } from './exportFormats';
+import { findKeyIssues } from './keyIssues';
+import { toNumber, toTime } from './mergePolicies';
+import { renameColumns } from './schemaDiff';
+import type { ColumnRenames } from './schemaDiff';
+
+/**
+ * Rewrites applied to key values before matching, so "00042", "42" and "A-42" / "a42" can meet.
+ */
+export interface KeyNormalization {
+    stripLeadingZeros: boolean;
+    alphanumericOnly: boolean;    // Drop everything but letters and digits
+    caseFold: boolean;
+}
+
+export const DEFAULT_KEY_NORMALIZATION: KeyNormalization = { stripLeadingZeros: false, alphanumericOnly: false, caseFold: false };
+
+/**
+ * How rows are matched: by key columns, by position (aligned like a text diff), or by
+ * full content regardless of position (multiset).
+ */
+export type CompareMode = 'key' | 'positional' | 'multiset';
+
+export const COMPARE_MODES: { value: CompareMode; label: string }[] = [
+    { value: 'key', label: 'Key columns' },
+    { value: 'positional', label: 'Row position' },
+    { value: 'multiset', label: 'Row content' },
+];
+
+export type ValueType = 'text' | 'number' | 'date';
+
+/**
+ * Day/month order of numeric dates such as 01/05/2024. ISO dates (year first) are always
+ * read as year-month-day; 'auto' reads a first part above 12 as the day, otherwise month first.
+ */
+export type DateFormat = 'auto' | 'mdy' | 'dmy';
+
+export const DATE_FORMATS: { value: DateFormat; label: string }[] = [
+    { value: 'auto', label: 'Auto' },
+    { value: 'mdy', label: 'MM/DD/YYYY' },
+    { value: 'dmy', label: 'DD/MM/YYYY' },
+];
+
+/**
+ * How one column's values are compared.
+ */
+export interface ColumnCompare {
+    type: ValueType;
+    absTolerance: number;         // Numbers within this distance are equal
+    relTolerance: number;         // ... or within this fraction of the larger magnitude
+    dateFormat: DateFormat;
+    collapseWhitespace: boolean;  // Runs of whitespace count as one space
+    ignore: boolean;              // Shown, but never counted as a change
+}
+
+export const DEFAULT_COLUMN_COMPARE: ColumnCompare = {
+    type: 'text', absTolerance: 0, relTolerance: 0, dateFormat: 'auto', collapseWhitespace: false, ignore: false
+};
+
+export interface CompareOptions {
+    mode: CompareMode;
+    keys: string[];               // Key columns; rows match when all of them match (key mode)
+    trim: boolean;
+    ci: boolean;
+    keyNormalization: KeyNormalization;
+    nullValues: string[];         // Values that count as empty, e.g. NULL or N/A (case-insensitive)
+    columns: Record<string, ColumnCompare>;   // Per-column settings; missing columns use DEFAULT_COLUMN_COMPARE
+    renames: ColumnRenames;       // Compare columns diffed as the base column they were renamed from
+}
+
+export interface DiffResult {
+    added: Record<string, any>[];
+    removed: Record<string, any>[];
+    changed: Record<string, any>[];
+    changedById: Map<string, Record<string, string>>;   // changedRowId -> { column: base value }
+    duplicates: Record<string, any>[];  // Every row of a key that repeats in either file, see DUPLICATE_COLUMNS
+    duplicateKeys: number;
+    blankKeys: number;            // Rows left out because a key part is empty
+    allHeaders: string[];
+    extraHeaders: string[];       // Columns the keyless modes put in front of the data (row numbers or counts)
+    aligned: boolean;             // False when positional mode gave up aligning and paired rows by position
+}
+
+// Columns the Duplicates rows carry in front of the data
+export const DUPLICATE_COLUMNS = ['_file', '_row', '_key'];
+
+/**
+ * Normalize a value for comparison according to the trim / case options.
+ */
+export function normalizeValue(val: any, options: Pick<CompareOptions, 'trim' | 'ci'>): string {
+    let s = String(val ?? '');
+    if (options.trim) s = s.trim();
+    if (options.ci) s = s.toLowerCase();
+    return s;
+}
+
+export function columnCompareFor(column: string, options: Pick<CompareOptions, 'columns'>): ColumnCompare {
+    return Object.prototype.hasOwnProperty.call(options.columns, column) ? options.columns[column] : DEFAULT_COLUMN_COMPARE;
+}
+
+/**
+ * Parse a date cell to epoch milliseconds (UTC for numeric dates), or null. Numeric dates
+ * (2024-01-05, 01/05/2024, 5.1.2024, with an optional hh:mm[:ss] time) follow the format
+ * hint; anything else goes through toTime (epoch values, Date.parse).
+ */
+export function parseDate(value: string, format: DateFormat): number | null {
+    const s = value.trim();
+    const time = (rest: string | undefined) => {
+        const t = rest?.match(/^[T ](\d{1,2}):(\d{2})(?::(\d{2}))?/);
+        return t ? [Number(t[1]), Number(t[2]), Number(t[3] ?? 0)] : [0, 0, 0];
+    };
+    const build = (y: number, m: number, d: number, rest?: string) => {
+        if (m < 1 || m > 12 || d < 1 || d > 31) return null;
+        const [hh, mm, ss] = time(rest);
+        return Date.UTC(y < 100 ? 2000 + y : y, m - 1, d, hh, mm, ss);
+    };
+
+    const iso = s.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})((?:[T ].*)?)$/);
+    if (iso) return build(Number(iso[1]), Number(iso[2]), Number(iso[3]), iso[4]);
+
+    const numeric = s.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4}|\d{2})((?:[T ].*)?)$/);
+    if (numeric) {
+        const [a, b, y] = [Number(numeric[1]), Number(numeric[2]), Number(numeric[3])];
+        const dayFirst = format === 'dmy' || (format === 'auto' && a > 12);
+        return dayFirst ? build(y, b, a, numeric[4]) : build(y, a, b, numeric[4]);
+    }
+    return toTime(s);
+}
+
+/**
+ * A cell prepared for comparison: trimmed / collapsed / case-folded text per the options,
+ * with null-equivalents turned into ''.
+ */
+function prepareValue(val: any, column: ColumnCompare, options: CompareOptions): string {
+    let s = normalizeValue(val, options);
+    if (column.collapseWhitespace) s = s.replace(/\s+/g, ' ').trim();
+    if (options.nullValues.some(n => n.toLowerCase() === s.trim().toLowerCase())) return '';
+    return s;
+}
+
+/**
+ * Canonical form of a cell for exact matching (row content signatures): numbers and dates
+ * by value, other cells as prepared text. Tolerances do not apply here.
+ */
+function canonicalValue(val: any, column: ColumnCompare, options: CompareOptions): string {
+    const s = prepareValue(val, column, options);
+    if (column.type === 'number') {
+        const n = toNumber(s);
+        if (n !== null) return `#${n}`;
+    } else if (column.type === 'date') {
+        const t = parseDate(s, column.dateFormat);
+        if (t !== null) return `@${t}`;
+    }
+    return s;
+}
+
+/**
+ * Whether two cells of a column are equal under its settings. Numbers are equal within the
+ * absolute or relative tolerance (and always within floating-point noise); values that do
+ * not parse as the column's type are compared as text.
+ */
+export function cellsEqual(a: any, b: any, column: ColumnCompare, options: CompareOptions): boolean {
+    const x = prepareValue(a, column, options);
+    const y = prepareValue(b, column, options);
+    if (x === y) return true;
+    if (column.type === 'number') {
+        const m = toNumber(x), n = toNumber(y);
+        if (m !== null && n !== null) {
+            const scale = Math.max(Math.abs(m), Math.abs(n));
+            return Math.abs(m - n) <= Math.max(column.absTolerance, column.relTolerance * scale, scale * 1e-12);
+        }
+    } else if (column.type === 'date') {
+        const m = parseDate(x, column.dateFormat), n = parseDate(y, column.dateFormat);
+        if (m !== null && n !== null) return m === n;
+    }
+    return false;
+}
+
+/**
+ * Guess number and date columns from a file: every non-empty value (at most the first
+ * `sample` rows of its preview) must parse. Columns with no values stay text.
+ */
+export function detectValueTypes(csv: Dataset, sample = 1000): Record<string, ValueType> {
+    const rows = csv.preview.slice(0, sample);
+    return Object.fromEntries(csv.headers.map(h => {
+        const values = rows.map(r => String(r[h] ?? '').trim()).filter(v => v !== '');
+        if (values.length === 0) return [h, 'text'];
+        if (values.every(v => toNumber(v) !== null)) return [h, 'number'];
+        if (values.every(v => /\d/.test(v) && /[-/.:]/.test(v) && parseDate(v, 'auto') !== null)) return [h, 'date'];
+        return [h, 'text'];
+    }));
+}
+
+/**
+ * Normalize one key value: trimmed, then rewritten per the key normalization options
+ * (case folds with either caseFold or the case-insensitive comparison option).
+ */
+export function normalizeKeyPart(val: any, options: Pick<CompareOptions, 'ci' | 'keyNormalization'>): string {
+    const { stripLeadingZeros, alphanumericOnly, caseFold } = options.keyNormalization;
+    let s = String(val ?? '').trim();
+    if (alphanumericOnly) s = s.replace(/[^\p{L}\p{N}]/gu, '');
+    if (stripLeadingZeros) s = s.replace(/^0+(?=.)/, '');
+    if (caseFold || options.ci) s = s.toLowerCase();
+    return s;
+}
+
+/**
+ * Matching key of a row after normalization; empty when any key part is empty.
+ */
+export function compareKey(row: Record<string, any>, options: Pick<CompareOptions, 'keys' | 'ci' | 'keyNormalization'>): string {
+    const normalized = Object.fromEntries(options.keys.map(k => [k, normalizeKeyPart(row[k], options)]));
+    return rowKey(normalized, options.keys);
+}
+
+/**
+ * Index rows by key, leaving out blank keys and the keys in `skip`.
+ */
+function indexRows(csv: ParsedCSV, options: CompareOptions, skip: Set<string>): Map<string, Record<string, any>> {
+    const map = new Map<string, Record<string, any>>();
+    csv.rows.forEach(r => {
+        const id = compareKey(r, options);
+        if (id && !skip.has(id)) map.set(id, r);
+    });
+    return map;
+}
+
+/**
+ * Rows of both files whose key repeats in either of them, grouped by key in order of first appearance.
+ */
+function duplicateRows(baseCSV: ParsedCSV, compareCSV: ParsedCSV, keys: Set<string>, options: CompareOptions): Record<string, any>[] {
+    const byKey = new Map<string, Record<string, any>[]>();
+    const collect = (csv: ParsedCSV, file: string) => csv.rows.forEach((r, i) => {
+        const id = compareKey(r, options);
+        if (!keys.has(id)) return;
+        if (!byKey.has(id)) byKey.set(id, []);
+        byKey.get(id)!.push({ _file: file, _row: i + 1, _key: formatRowKey(id), ...r });
+    });
+    collect(baseCSV, 'base');
+    collect(compareCSV, 'compare');
+    return [...byKey.values()].flat();
+}
+
+/**
+ * Union of both files' headers, base order first.
+ */
+function unionHeaders(baseCSV: ParsedCSV, compareCSV: ParsedCSV): string[] {
+    const allHeaders = [...baseCSV.headers];
+    const seen = new Set(allHeaders);
+    compareCSV.headers.forEach(h => {
+        if (!seen.has(h)) {
+            allHeaders.push(h);
+            seen.add(h);
+        }
+    });
+    return allHeaders;
+}
+
+/**
+ * Columns whose (normalized) values differ, mapped to the base value; null when none do.
+ */
+function cellDiffs(baseRow: Record<string, any>, compareRow: Record<string, any>, headers: string[], options: CompareOptions): Record<string, string> | null {
+    const diffs: Record<string, string> = {};
+    let hasChange = false;
+    headers.forEach(h => {
+        const column = columnCompareFor(h, options);
+        if (column.ignore) return;
+        if (!cellsEqual(baseRow[h] ?? '', compareRow[h] ?? '', column, options)) {
+            diffs[h] = String(baseRow[h] ?? ''); // Store original base value
+            hasChange = true;
+        }
+    });
+    return hasChange ? diffs : null;
+}
+
+/**
+ * Full-content signature of a row over the given columns (ignored columns left out), from
+ * the cells' canonical values.
+ */
+function rowSignature(row: Record<string, any>, headers: string[], options: CompareOptions): string {
+    return JSON.stringify(headers
+        .map(h => ({ h, column: columnCompareFor(h, options) }))
+        .filter(({ column }) => !column.ignore)
+        .map(({ h, column }) => canonicalValue(row[h] ?? '', column, options)));
+}
+
+/**
+ * Identifier of a changed row, as used in `changedById`: the compare key, or in positional
+ * mode the compare row number.
+ */
+export function changedRowId(row: Record<string, any>, options: CompareOptions): string {
+    return options.mode === 'positional' ? String(row._row) : compareKey(row, options);
+}
+
+/**
+ * Diff two files by key columns: rows only in compare are added, only in base are removed,
+ * and rows present in both with any differing (normalized) value are changed. Keys that
+ * repeat in either file cannot be matched one to one; their rows go to `duplicates` instead.
+ */
+function keyedDiff(baseCSV: ParsedCSV, compareCSV: ParsedCSV, allHeaders: string[], options: CompareOptions): DiffResult {
+    const keyOf = (r: Record<string, any>) => compareKey(r, options);
+
+    const baseIssues = findKeyIssues(baseCSV, options.keys, keyOf);
+    const compareIssues = findKeyIssues(compareCSV, options.keys, keyOf);
+    const duplicated = new Set([...baseIssues.duplicates, ...compareIssues.duplicates].map(d => d.key));
+
+    // Build maps by key
+    const baseMap = indexRows(baseCSV, options, duplicated);
+    const compareMap = indexRows(compareCSV, options, duplicated);
+
+    // Key cells matched (after key normalization), so they are not differences
+    const valueHeaders = allHeaders.filter(h => !options.keys.includes(h));
+
+    const added: any[] = [];
+    const removed: any[] = [];
+    const changed: any[] = [];
+    const changedById = new Map<string, Record<string, string>>();
+
+    // Find removed and changed
+    baseMap.forEach((baseRow, id) => {
+        const compareRow = compareMap.get(id);
+        if (!compareRow) {
+            removed.push(baseRow);
+            return;
+        }
+        const diffs = cellDiffs(baseRow, compareRow, valueHeaders, options);
+        if (diffs) {
+            changed.push(compareRow);
+            changedById.set(id, diffs);
+        }
+    });
+
+    // Find added
+    compareMap.forEach((compareRow, id) => {
+        if (!baseMap.has(id)) {
+            added.push(compareRow);
+        }
+    });
+
+    return {
+        added, removed, changed, changedById,
+        duplicates: duplicateRows(baseCSV, compareCSV, duplicated, options),
+        duplicateKeys: duplicated.size,
+        blankKeys: baseIssues.blankRows.length + compareIssues.blankRows.length,
+        allHeaders,
+        extraHeaders: [],
+        aligned: true
+    };
+}
+
+// Edit distance beyond which positional mode stops aligning (the trace grows with its square)
+const MAX_ALIGN_EDITS = 2000;
+
+/**
+ * Longest common subsequence of two sequences as matched index pairs in order, by Myers'
+ * O((N+M)D) diff. Null when more than `maxEdits` insertions and deletions would be needed.
+ */
+function alignSequences(a: number[], b: number[], maxEdits: number): [number, number][] | null {
+    const n = a.length, m = b.length, max = n + m;
+    const v = new Int32Array(2 * max + 2);
+    const trace: Int32Array[] = [];
+
+    for (let d = 0; d <= Math.min(max, maxEdits); d++) {
+        for (let k = -d; k <= d; k += 2) {
+            let x = k === -d || (k !== d && v[max + k - 1] < v[max + k + 1]) ? v[max + k + 1] : v[max + k - 1] + 1;
+            let y = x - k;
+            while (x < n && y < m && a[x] === b[y]) { x++; y++; }
+            v[max + k] = x;
+            if (x >= n && y >= m) {
+                trace.push(v.slice(max - d, max + d + 1));
+                return backtrack(trace, n, m);
+            }
+        }
+        trace.push(v.slice(max - d, max + d + 1));
+    }
+    return null;
+}
+
+function backtrack(trace: Int32Array[], n: number, m: number): [number, number][] {
+    const pairs: [number, number][] = [];
+    let x = n, y = m;
+    for (let d = trace.length - 1; d > 0; d--) {
+        const prev = trace[d - 1];   // Holds k in [-(d - 1), d - 1]
+        const at = (k: number) => prev[k + d - 1];
+        const k = x - y;
+        const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+        const prevX = at(prevK);
+        const prevY = prevX - prevK;
+        while (x > prevX && y > prevY) pairs.push([--x, --y]);
+        x = prevX;
+        y = prevY;
+    }
+    while (x > 0 && y > 0) pairs.push([--x, --y]);
+    return pairs.reverse();
+}
+
+/**
+ * Diff two files row by row, aligning them like a text diff: identical rows are matched in
+ * order (longest common subsequence), and between matches the leftover rows are paired up
+ * as changed, with any surplus reported as removed (base) or added (compare). Rows carry
+ * their 1-based row numbers, which take precedence over data columns of the same name.
+ * Past MAX_ALIGN_EDITS the middle is paired by position only.
+ */
+function positionalDiff(baseCSV: ParsedCSV, compareCSV: ParsedCSV, allHeaders: string[], options: CompareOptions): DiffResult {
+    const base = baseCSV.rows, other = compareCSV.rows;
+
+    // Equal rows share an id, so the alignment compares numbers
+    const ids = new Map<string, number>();
+    const idOf = (r: Record<string, any>) => {
+        const sig = rowSignature(r, allHeaders, options);
+        let id = ids.get(sig);
+        if (id === undefined) ids.set(sig, id = ids.size);
+        return id;
+    };
+    const a = base.map(idOf), b = other.map(idOf);
+
+    // Identical leading and trailing rows need no search
+    let head = 0;
+    while (head < a.length && head < b.length && a[head] === b[head]) head++;
+    let tail = 0;
+    while (tail < a.length - head && tail < b.length - head && a[a.length - 1 - tail] === b[b.length - 1 - tail]) tail++;
+
+    const middle = alignSequences(a.slice(head, a.length - tail), b.slice(head, b.length - tail), MAX_ALIGN_EDITS);
+    const pairs: [number, number][] = [];
+    for (let i = 0; i < head; i++) pairs.push([i, i]);
+    middle?.forEach(([i, j]) => pairs.push([i + head, j + head]));
+    for (let t = tail; t > 0; t--) pairs.push([a.length - t, b.length - t]);
+    pairs.push([a.length, b.length]);   // Sentinel closing the last gap
+
+    const added: any[] = [];
+    const removed: any[] = [];
+    const changed: any[] = [];
+    const changedById = new Map<string, Record<string, string>>();
+
+    let i = 0, j = 0;
+    pairs.forEach(([pi, pj]) => {
+        // Gap before this match: pair rows up, then the surplus is removed or added
+        while (i < pi && j < pj) {
+            const diffs = cellDiffs(base[i], other[j], allHeaders, options);
+            if (diffs) {
+                changed.push({ ...other[j], _base_row: i + 1, _row: j + 1 });
+                changedById.set(String(j + 1), diffs);
+            }
+            i++;
+            j++;
+        }
+        for (; i < pi; i++) removed.push({ ...base[i], _base_row: i + 1, _row: '' });
+        for (; j < pj; j++) added.push({ ...other[j], _base_row: '', _row: j + 1 });
+        i = pi + 1;
+        j = pj + 1;
+    });
+
+    return {
+        added, removed, changed, changedById,
+        duplicates: [], duplicateKeys: 0, blankKeys: 0,
+        allHeaders,
+        extraHeaders: ['_base_row', '_row'],
+        aligned: middle !== null
+    };
+}
+
+/**
+ * Diff two files as multisets of rows: rows are matched by full content, and a row that
+ * occurs more often in compare is added (more often in base, removed), once per distinct
+ * row with both occurrence counts. Nothing is "changed" in this mode.
+ */
+function multisetDiff(baseCSV: ParsedCSV, compareCSV: ParsedCSV, allHeaders: string[], options: CompareOptions): DiffResult {
+    const counts = new Map<string, { row: Record<string, any>; base: number; compare: number }>();
+    const count = (csv: ParsedCSV, side: 'base' | 'compare') => csv.rows.forEach(r => {
+        const sig = rowSignature(r, allHeaders, options);
+        let entry = counts.get(sig);
+        if (!entry) counts.set(sig, entry = { row: r, base: 0, compare: 0 });
+        entry[side]++;
+    });
+    count(baseCSV, 'base');
+    count(compareCSV, 'compare');
+
+    const added: any[] = [];
+    const removed: any[] = [];
+    counts.forEach(({ row, base, compare }) => {
+        const annotated = { ...row, _base_count: base, _compare_count: compare };
+        if (compare > base) added.push(annotated);
+        else if (base > compare) removed.push(annotated);
+    });
+
+    return {
+        added, removed, changed: [], changedById: new Map(),
+        duplicates: [], duplicateKeys: 0, blankKeys: 0,
+        allHeaders,
+        extraHeaders: ['_base_count', '_compare_count'],
+        aligned: true
+    };
+}
+
+/**
+ * Diff two files in the chosen mode: by key columns, by aligned row position, or as
+ * multisets of row contents. Renamed compare columns are reported under their base names.
+ */
+export function computeDiff(baseCSV: ParsedCSV, compareFile: ParsedCSV, options: CompareOptions): DiffResult {
+    const compareCSV = renameColumns(compareFile, options.renames);
+    const allHeaders = unionHeaders(baseCSV, compareCSV);
+    if (options.mode === 'positional') return positionalDiff(baseCSV, compareCSV, allHeaders, options);
+    if (options.mode === 'multiset') return multisetDiff(baseCSV, compareCSV, allHeaders, options);
+    return keyedDiff(baseCSV, compareCSV, allHeaders, options);
+}
+
+/**
+ * Flatten a diff into export rows with _diff_type / _changed_columns annotation columns.
+ */
+export function buildDiffRows(diff: DiffResult, options: CompareOptions): { headers: string[]; rows: Record<string, any>[] } {
+    const rows: any[] = [];
+
+    diff.added.forEach(r => {
+        rows.push({ _diff_type: 'ADDED', ...r });
+    });
+    diff.removed.forEach(r => {
+        rows.push({ _diff_type: 'REMOVED', ...r });
+    });
+    diff.changed.forEach(r => {
+        const oldVals = diff.changedById.get(changedRowId(r, options)) || {};
+        const changedCols = Object.keys(oldVals).join('; ');
+        rows.push({ _diff_type: 'CHANGED', _changed_columns: changedCols, ...r });
+    });
+
+    return { headers: ['_diff_type', '_changed_columns', ...diff.extraHeaders, ...diff.allHeaders], rows };
+}
+
+/**
+ * Lay a diff out as workbook sheets: one per kind of difference, a Changes sheet
+ * listing every changed cell with its base and compare values, and the duplicated keys' rows.
+ */
+export function buildDiffSheets(diff: DiffResult, options: CompareOptions): SheetData[] {
+    const changes: Record<string, any>[] = [];
+    const changedRows = diff.changed.map(r => {
+        const oldVals = diff.changedById.get(changedRowId(r, options)) || {};
+        const key = options.mode === 'positional' ? `row ${r._row}` : formatRowKey(rowKey(r, options.keys));
+        Object.entries(oldVals).forEach(([column, baseValue]) => {
+            changes.push({ key, column, base_value: baseValue, compare_value: String(r[column] ?? '') });
+        });
+        return { _changed_columns: Object.keys(oldVals).join('; '), ...r };
+    });
+
+    const headers = [...diff.extraHeaders, ...diff.allHeaders];
+    const sheets: SheetData[] = [
+        { name: 'Added', headers, rows: diff.added },
+        { name: 'Removed', headers, rows: diff.removed },
+    ];
+    if (options.mode !== 'multiset') {
+        sheets.push(
+            { name: 'Changed', headers: ['_changed_columns', ...headers], rows: changedRows },
+            { name: 'Changes', headers: ['key', 'column', 'base_value', 'compare_value'], rows: changes },
+        );
+    }
+    if (options.mode === 'key') {
+        sheets.push({ name: 'Duplicates', headers: [...DUPLICATE_COLUMNS, ...diff.allHeaders], rows: diff.duplicates });
+    }
+    return sheets;
+}
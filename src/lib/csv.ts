@@ -1,87 +1,633 @@
 import Papa from 'papaparse';
+import { streamFileText } from './encoding';
+import type { ReadOptions } from './encoding';
+
+export type EscapeStyle = 'double' | 'backslash';
+export type LineTerminator = '\r\n' | '\n' | '\r';
+
+/**
+ * How a delimited text file is written: separators, quoting and file framing.
+ */
+export interface CSVDialect {
+    delimiter: string;
+    quoteChar: string;
+    escapeStyle: EscapeStyle;         // "" (doubled) or \" (backslash) inside quoted fields
+    lineTerminator: LineTerminator;
+    trailingNewline: boolean;         // File ends with a line terminator
+    bom: boolean;                     // File starts with a byte order mark
+}
+
+export const DEFAULT_DIALECT: CSVDialect = {
+    delimiter: ',',
+    quoteChar: '"',
+    escapeStyle: 'double',
+    lineTerminator: '\r\n',
+    trailingNewline: false,
+    bom: false
+};
+
+/**
+ * What to do with data records whose shape is wrong (field count differs from the header, broken quoting).
+ * - reject: refuse the file until the problems are fixed
+ * - skip: leave malformed records out of the rows
+ * - pad: pad short records with empty values and truncate long ones to the header width
+ */
+export type MalformedRowPolicy = 'reject' | 'skip' | 'pad';
+
+export const DEFAULT_ROW_POLICY: MalformedRowPolicy = 'pad';
+
+export type ParseIssueKind =
+    | 'too_many_fields'
+    | 'too_few_fields'
+    | 'unterminated_quote'
+    | 'malformed_quote'
+    | 'duplicate_header'
+    | 'blank_header';
+
+export interface ParseIssue {
+    kind: ParseIssueKind;
+    line: number;             // 1-based physical line the record starts on
+    record: number;           // 0 = header record, 1.. = data records in file order
+    message: string;
+    snippet: string;          // Start of the raw record text
+}
+
+export interface ParseDiagnostics {
+    policy: MalformedRowPolicy;
+    issues: ParseIssue[];
+    rejected: boolean;                            // Policy is 'reject' and some data record is malformed
+    skipped: { index: number; raw: string }[];    // Records left out by the 'skip' policy (index among all data records)
+    repaired: number[];                           // Row indexes padded or truncated by the 'pad' policy
+}
+
+export interface ParseOptions {
+    dialect?: Partial<CSVDialect>;    // Replaces the detected dialect fields
+    rowPolicy?: MalformedRowPolicy;
+}
+
+/**
+ * Where a dataset read from a spreadsheet came from, so another sheet or header row can be picked.
+ */
+export interface SpreadsheetSource {
+    file: File;
+    sheetNames: string[];
+    sheet: string;
+    headerRow: number;        // Worksheet row number of the header
+    firstRow: number;         // Worksheet rows in use
+    lastRow: number;
+    readOptions: ReadOptions; // Decoding options the file was read with, kept when it is re-read
+}
+
+/**
+ * How JSON arrays become columns: one per position (`tags.0`, `tags.1`) or one joined column.
+ */
+export type JsonArrayMode = 'index' | 'join';
+
+/**
+ * Where a dataset read from JSON/NDJSON came from, so it can be re-read with other array handling.
+ */
+export interface JsonSource {
+    file: File;
+    format: 'json' | 'ndjson';
+    arrayMode: JsonArrayMode;
+    arraySeparator: string;
+    readOptions: ReadOptions; // Decoding options the file was read with, kept when it is re-read
+}
+
+/**
+ * Options for reading a file of any supported format: decoding, plus the sheet and header row
+ * of a spreadsheet or the array handling of JSON.
+ */
+export interface FileReadOptions extends ReadOptions {
+    sheet?: string;              // Spreadsheets: sheet to read (defaults to the first)
+    headerRow?: number;          // Spreadsheets: worksheet row number holding the headers
+    arrayMode?: JsonArrayMode;   // JSON: arrays as indexed columns or one joined column
+    arraySeparator?: string;     // JSON: separator for joined arrays
+}
 
 export interface ParsedCSV {
     rows: Record<string, any>[];
-    headers: string[];
+    headers: string[];        // Unique column names: trimmed, blanks named column_N, repeats suffixed name__2, name__3…
+    originalHeaders: string[];    // Header cell text exactly as in the file, by column position
     name: string;
-    rawLines: string[];       // Original raw lines (index 0 = first data row)
+    rawLines: string[];       // Original raw record text per row (index 0 = first data row), may span several physical lines
     rawHeaderLine: string;    // Original header line
+    dialect: CSVDialect;      // Detected (or overridden) file dialect, used by every export path
+    encoding: string;         // Detected source encoding; files are written back in this encoding unless changed
+    diagnostics: ParseDiagnostics;
+    spreadsheet?: SpreadsheetSource;  // Set when the data was read from an .xlsx/.xls sheet
+    json?: JsonSource;                // Set when the data was read from flattened JSON/NDJSON records
+}
+
+// Rows of a dataset the page keeps for previews and column sampling
+export const PREVIEW_ROWS = 1000;
+
+/**
+ * What the page holds of a parsed file. The rows and raw records stay with the background
+ * worker under `handle`; tasks receive the full dataset there (see workerTasks.ts).
+ */
+export interface Dataset {
+    handle: string;           // Id of the copy held by the worker
+    name: string;
+    headers: string[];
+    originalHeaders: string[];
+    rowCount: number;
+    preview: Record<string, any>[];   // First PREVIEW_ROWS rows
+    dialect: CSVDialect;
+    encoding: string;
+    diagnostics: ParseDiagnostics;
+    spreadsheet?: SpreadsheetSource;
+    json?: JsonSource;
+    fileHandle?: FileSystemFileHandle;  // Set when the file was opened with a writable handle (File System Access API)
+}
+
+/**
+ * The page's summary of a dataset stored under `handle`.
+ */
+export function summarizeCSV(csv: ParsedCSV, handle: string): Dataset {
+    return {
+        handle,
+        name: csv.name,
+        headers: csv.headers,
+        originalHeaders: csv.originalHeaders,
+        rowCount: csv.rows.length,
+        preview: csv.rows.slice(0, PREVIEW_ROWS),
+        dialect: csv.dialect,
+        encoding: csv.encoding,
+        diagnostics: csv.diagnostics,
+        spreadsheet: csv.spreadsheet,
+        json: csv.json
+    };
+}
+
+export type ProgressPhase = 'reading' | 'parsing' | 'processing';
+
+/**
+ * Progress of a long-running operation. A total of 0 means the amount of work is unknown.
+ */
+export interface ProgressInfo {
+    phase: ProgressPhase;
+    loaded: number;
+    total: number;
+    rows?: number;            // Rows read so far, while parsing
 }
 
+export type ProgressCallback = (progress: ProgressInfo) => void;
+
+const SNIPPET_LENGTH = 120;
+
+const DIALECT_SAMPLE_SIZE = 64 * 1024;
+
 /**
- * Parse a CSV file, preserving original raw lines for format-preserving export.
- */
-export async function parseCSVFile(file: File): Promise<ParsedCSV> {
-    return new Promise((resolve, reject) => {
-        // First read raw content to preserve original lines
-        const reader = new FileReader();
-        reader.onload = (e) => {
-            const rawContent = e.target?.result as string;
-            // Split by both \r\n and \n to handle different line endings
-            const allLines = rawContent.split(/\r?\n/).filter(line => line.trim() !== '');
-            const rawHeaderLine = allLines[0] || '';
-            const rawDataLines = allLines.slice(1);
-
-            // Now parse with PapaParse for structured data
-            Papa.parse(file, {
-                header: true,
-                skipEmptyLines: true,
-                transformHeader: (h: string) => String(h || '').trim(),
-                complete: (results: Papa.ParseResult<any>) => {
-                    const rows = results.data || [];
-                    let headers: string[] = [];
-                    if (results.meta && results.meta.fields) {
-                        headers = results.meta.fields.map((h: string) => String(h || '').trim());
-                    } else if (rows.length > 0) {
-                        headers = Object.keys(rows[0] as object);
-                    }
-
-                    resolve({
-                        rows,
-                        headers,
-                        name: file.name,
-                        rawLines: rawDataLines,
-                        rawHeaderLine
-                    });
-                },
-                error: (err: Error) => {
-                    reject(err);
+ * Detect the dialect of CSV text (without BOM) from a sample of its content.
+ */
+export function detectDialect(content: string): CSVDialect {
+    const sample = content.slice(0, DIALECT_SAMPLE_SIZE);
+
+    // Line terminator: first line break wins
+    let lineTerminator: LineTerminator = DEFAULT_DIALECT.lineTerminator;
+    const breakMatch = sample.match(/\r\n|\n|\r/);
+    if (breakMatch) lineTerminator = breakMatch[0] as LineTerminator;
+
+    // Quote char: single quotes only when fields never open with a double quote
+    const fieldStart = (q: string) => new RegExp(`(^|[,;\\t|])${q}`, 'm').test(sample);
+    const quoteChar = !fieldStart('"') && fieldStart("'") ? "'" : '"';
+
+    // Escape style: backslash-escaped quotes with no doubled quotes inside values
+    const hasBackslashEscape = sample.includes('\\' + quoteChar);
+    const doubledInside = new RegExp(`[^,;\\t|\\r\\n]${quoteChar}${quoteChar}[^,;\\t|\\r\\n]`).test(sample);
+    const escapeStyle: EscapeStyle = hasBackslashEscape && !doubledInside ? 'backslash' : 'double';
+
+    // Delimiter: let the parser score the common candidates on the sample
+    const guess = Papa.parse<string[]>(sample, {
+        preview: 20,
+        skipEmptyLines: true,
+        newline: lineTerminator,
+        quoteChar,
+        escapeChar: escapeStyle === 'backslash' ? '\\' : quoteChar
+    });
+    const delimiter = guess.meta.delimiter || DEFAULT_DIALECT.delimiter;
+
+    return {
+        delimiter,
+        quoteChar,
+        escapeStyle,
+        lineTerminator,
+        trailingNewline: content.endsWith(lineTerminator),
+        bom: false
+    };
+}
+
+/**
+ * Build unique, trimmed header names. Blank cells become column_N (1-based position)
+ * and repeated names get a numeric suffix (email, email__2, email__3…).
+ */
+function buildHeaders(rawHeaders: string[]): string[] {
+    const trimmed = rawHeaders.map(raw => String(raw ?? '').trim());
+    const used = new Set(trimmed.filter(Boolean));
+    const seen = new Set<string>();
+    const counts = new Map<string, number>();
+
+    return trimmed.map((name, i) => {
+        const base = name || `column_${i + 1}`;
+        if (!seen.has(base) && (name || !used.has(base))) {
+            seen.add(base);
+            used.add(base);
+            return base;
+        }
+        let n = counts.get(base) ?? 1;
+        let header: string;
+        do {
+            n++;
+            header = `${base}__${n}`;
+        } while (used.has(header));
+        counts.set(base, n);
+        used.add(header);
+        return header;
+    });
+}
+
+const QUOTE_ERROR_KINDS: Record<string, ParseIssueKind> = {
+    MissingQuotes: 'unterminated_quote',
+    InvalidQuotes: 'malformed_quote',
+};
+
+function countLineBreaks(text: string): number {
+    return text.match(/\r\n|\r|\n/g)?.length ?? 0;
+}
+
+function snippetOf(raw: string): string {
+    const text = raw.replace(/^[\r\n]+/, '');   // Blank lines kept in front of the record
+    return text.length > SNIPPET_LENGTH ? text.slice(0, SNIPPET_LENGTH) + '…' : text;
+}
+
+/**
+ * Issues in one parsed record: parser quote errors plus a field count that differs from the header.
+ */
+function recordIssues(
+    record: { fields: string[]; raw: string; line: number; errors: string[] },
+    index: number,
+    width: number
+): ParseIssue[] {
+    const base = { line: record.line, record: index, snippet: snippetOf(record.raw) };
+    const issues: ParseIssue[] = [];
+
+    new Set(record.errors).forEach(code => {
+        const kind = QUOTE_ERROR_KINDS[code];
+        if (kind) {
+            const message = kind === 'unterminated_quote'
+                ? 'Quoted field is never closed; the rest of the file may have been read into it'
+                : 'Characters after a closing quote';
+            issues.push({ ...base, kind, message });
+        }
+    });
+
+    const count = record.fields.length;
+    if (count > width) {
+        issues.push({ ...base, kind: 'too_many_fields', message: `${count} fields, header has ${width}` });
+    } else if (count < width) {
+        issues.push({ ...base, kind: 'too_few_fields', message: `${count} fields, header has ${width}` });
+    }
+    return issues;
+}
+
+/**
+ * Report blank and repeated header cells, with the name each column was given instead.
+ */
+function headerIssues(record: { fields: string[]; raw: string; line: number }, headers: string[]): ParseIssue[] {
+    const base = { line: record.line, record: 0, snippet: snippetOf(record.raw) };
+    const issues: ParseIssue[] = [];
+    record.fields.forEach((field, i) => {
+        const name = field.trim();
+        if (!name) {
+            issues.push({ ...base, kind: 'blank_header', message: `Column ${i + 1} has no name; read as "${headers[i]}"` });
+        } else if (headers[i] !== name) {
+            issues.push({ ...base, kind: 'duplicate_header', message: `Column "${name}" appears more than once; column ${i + 1} read as "${headers[i]}"` });
+        }
+    });
+    return issues;
+}
+
+interface RawRecord {
+    fields: string[];
+    raw: string;
+    line: number;
+    errors: string[];
+}
+
+/**
+ * Parser that takes CSV text in pieces, e.g. the decoded chunks of a file, and turns each
+ * record into a row as soon as it is complete, so the text is never held as one string.
+ */
+export interface CSVParser {
+    push: (text: string) => void;
+    finish: () => ParsedCSV;
+    rowCount: () => number;
+}
+
+/**
+ * Create an incremental CSV parser; see parseCSVText for how records are read.
+ * The dialect is detected from the first 64 KB of text (all of it when shorter).
+ */
+export function createCSVParser(name: string, options: ParseOptions = {}): CSVParser {
+    const policy = options.rowPolicy ?? DEFAULT_ROW_POLICY;
+    let dialect: CSVDialect | null = null;
+    let newline: LineTerminator = DEFAULT_DIALECT.lineTerminator;
+    let started = false;
+    let hasBOM = false;
+    let pending = '';         // Text not parsed yet: the dialect sample, or a record cut off at the end of a piece
+    let openQuote = false;    // `pending` ends inside a quoted field
+    let tail = '';            // Last characters of the text, for the trailing newline
+    let gap = '';             // Blank lines since the last record
+    let held: RawRecord | null = null;   // Latest record, kept back so blank lines closing the file can join it
+    let line = 1;
+
+    let headerRecord: RawRecord | null = null;
+    let headers: string[] = [];
+    const issues: ParseIssue[] = [];
+    const skipped: ParseDiagnostics['skipped'] = [];
+    const repaired: number[] = [];
+    const rows: Record<string, any>[] = [];
+    const rawLines: string[] = [];
+    let dataRecords = 0;
+    let malformed = 0;
+
+    const addRecord = (record: RawRecord) => {
+        if (!headerRecord) {
+            headerRecord = record;
+            headers = buildHeaders(record.fields);
+            issues.push(...headerIssues(record, headers));
+            return;
+        }
+
+        const index = dataRecords++;
+        const found = recordIssues(record, index + 1, headers.length);
+        issues.push(...found);
+        if (found.length > 0) malformed++;
+
+        if (found.length > 0 && policy === 'skip') {
+            skipped.push({ index, raw: record.raw });
+            return;
+        }
+
+        const row: Record<string, any> = {};
+        if (policy === 'pad') {
+            headers.forEach((h, i) => { row[h] = record.fields[i] ?? ''; });
+            if (record.fields.length !== headers.length) repaired.push(rows.length);
+        } else {
+            record.fields.forEach((value, i) => {
+                if (i < headers.length) {
+                    row[headers[i]] = value;
+                } else {
+                    (row.__parsed_extra ??= []).push(value);
                 }
             });
-        };
-        reader.onerror = () => reject(new Error('Failed to read file'));
-        reader.readAsText(file);
+        }
+        rows.push(row);
+        rawLines.push(record.raw);
+    };
+
+    const take = (fields: string[], text: string, errors: string[]) => {
+        const startLine = line;
+        line += countLineBreaks(text);
+
+        // Completely empty lines are not records
+        if (fields.length === 1 && fields[0] === '') {
+            gap += text;
+            return;
+        }
+        let raw = gap + text;
+        gap = '';
+        if (raw.endsWith(newline)) raw = raw.slice(0, -newline.length);
+        if (held) addRecord(held);
+        held = { fields, raw, line: startLine, errors };
+    };
+
+    // Parse `text` and return the part left for later: unless `final`, the last record may be cut off
+    const parse = (text: string, final: boolean): string => {
+        const { delimiter, quoteChar, escapeStyle } = dialect!;
+        let lastCursor = 0;
+        let last: { fields: string[]; text: string; errors: string[] } | null = null;
+
+        Papa.parse<string[]>(text, {
+            header: false,
+            skipEmptyLines: false,
+            delimiter,
+            // Records are always split on the terminator actually present in the text
+            newline,
+            quoteChar,
+            escapeChar: escapeStyle === 'backslash' ? '\\' : quoteChar,
+            step: (results: Papa.ParseStepResult<string[]>) => {
+                if (last) take(last.fields, last.text, last.errors);
+                const end = results.meta.cursor;
+                last = { fields: results.data, text: text.slice(lastCursor, end), errors: results.errors.map(e => e.code) };
+                lastCursor = end;
+            }
+        });
+
+        const rest = text.slice(lastCursor);
+        const record = last as { fields: string[]; text: string; errors: string[] } | null;
+        openQuote = false;
+        if (!record) return rest;
+        // A record is complete once its line break has been read outside quotes
+        if (!final && (!record.text.endsWith(newline) || record.errors.includes('MissingQuotes'))) {
+            openQuote = record.errors.includes('MissingQuotes');
+            return record.text + rest;
+        }
+        take(record.fields, record.text, record.errors);
+        return rest;
+    };
+
+    const detect = () => {
+        const detected = detectDialect(pending);
+        newline = detected.lineTerminator;
+        dialect = { ...detected, bom: hasBOM, ...options.dialect };
+    };
+
+    return {
+        push: (text: string) => {
+            if (!started && text.length > 0) {
+                started = true;
+                hasBOM = text.charCodeAt(0) === 0xFEFF;
+                if (hasBOM) text = text.slice(1);
+            }
+            tail = (tail + text).slice(-2);
+            pending += text;
+            if (!dialect && pending.length < DIALECT_SAMPLE_SIZE) return;
+            if (!dialect) detect();
+            // A quoted field still open cannot end before the next quote character
+            if (openQuote && !text.includes(dialect!.quoteChar)) return;
+            pending = parse(pending, false);
+        },
+
+        finish: (): ParsedCSV => {
+            if (!dialect) detect();
+            parse(pending, true);
+            pending = '';
+            // Blank lines that close the file stay with the last record
+            if (held) {
+                held.raw += gap;
+                addRecord(held);
+                held = null;
+            }
+            gap = '';
+
+            const header = headerRecord as RawRecord | null;
+            const trailingNewline = options.dialect?.trailingNewline ?? tail.endsWith(newline);
+            return {
+                rows,
+                headers,
+                originalHeaders: header?.fields ?? [],
+                name,
+                rawLines,
+                rawHeaderLine: header?.raw ?? '',
+                dialect: { ...dialect!, trailingNewline },
+                encoding: 'utf-8',
+                diagnostics: {
+                    policy,
+                    issues,
+                    rejected: policy === 'reject' && malformed > 0,
+                    skipped,
+                    repaired
+                }
+            };
+        },
+
+        rowCount: () => rows.length
+    };
+}
+
+/**
+ * Parse CSV text into rows, keeping the exact raw text of every logical record.
+ * Record boundaries come from the parser's own cursor, so quoted fields containing
+ * newlines (or blank lines) stay attached to the row they belong to. Blank lines between
+ * records are kept at the start of the next record's raw text (at the end of the last
+ * record's when they close the file), so unchanged files export byte for byte.
+ * Malformed records are reported in `diagnostics` and handled per `options.rowPolicy`.
+ */
+export function parseCSVText(text: string, name: string, options: ParseOptions = {}): ParsedCSV {
+    const parser = createCSVParser(name, options);
+    parser.push(text);
+    return parser.finish();
+}
+
+/**
+ * Parse records read from another format (spreadsheet cells, flattened JSON), header first.
+ * They are written out as CSV text first so they get the same raw records, diagnostics and
+ * export behaviour as any delimited file.
+ */
+export function parseRecords(records: string[][], name: string): ParsedCSV {
+    const text = Papa.unparse(records, { newline: '\r\n' });
+    return parseCSVText(text, name, { dialect: { delimiter: ',', quoteChar: '"', escapeStyle: 'double' } });
+}
+
+/**
+ * Original data records in file order, including any left out by the 'skip' policy.
+ */
+function allRawRecords(csv: ParsedCSV): string[] {
+    const lines = [...csv.rawLines];
+    csv.diagnostics.skipped.forEach(({ index, raw }) => lines.splice(index, 0, raw));
+    return lines;
+}
+
+/**
+ * Whether a dialect or malformed-row policy override changes how the records are split.
+ * Output-only settings (line terminator, trailing newline, BOM) don't.
+ */
+export function needsReparse(
+    csv: Pick<ParsedCSV, 'dialect' | 'diagnostics'>,
+    dialect: CSVDialect,
+    rowPolicy: MalformedRowPolicy = csv.diagnostics.policy
+): boolean {
+    const current = csv.dialect;
+    return dialect.delimiter !== current.delimiter ||
+        dialect.quoteChar !== current.quoteChar ||
+        dialect.escapeStyle !== current.escapeStyle ||
+        rowPolicy !== csv.diagnostics.policy;
+}
+
+/**
+ * Apply a dialect or malformed-row policy override to an already parsed file.
+ * Output-only settings (line terminator, trailing newline, BOM) are swapped in place;
+ * a different delimiter, quote, escape style or row policy re-parses the original records.
+ */
+export function reparseCSV(
+    csv: ParsedCSV,
+    dialect: CSVDialect,
+    rowPolicy: MalformedRowPolicy = csv.diagnostics.policy
+): ParsedCSV {
+    if (!needsReparse(csv, dialect, rowPolicy)) {
+        return { ...csv, dialect };
+    }
+
+    const current = csv.dialect;
+    const text = [csv.rawHeaderLine, ...allRawRecords(csv)].join(current.lineTerminator);
+    const reparsed = parseCSVText(text, csv.name, {
+        dialect: {
+            delimiter: dialect.delimiter,
+            quoteChar: dialect.quoteChar,
+            escapeStyle: dialect.escapeStyle
+        },
+        rowPolicy
     });
+    // Where the file came from is kept
+    return {
+        ...reparsed,
+        dialect,
+        encoding: csv.encoding,
+        spreadsheet: csv.spreadsheet,
+        json: csv.json
+    };
+}
+
+/**
+ * Parse a CSV file, preserving original raw records for format-preserving export.
+ * The file is decoded in chunks, its encoding sniffed (BOM, UTF-16, UTF-8) on the way,
+ * and each chunk is parsed as soon as it is decoded.
+ */
+export async function parseCSVFile(file: File, options: ReadOptions = {}, onProgress?: ProgressCallback, signal?: AbortSignal): Promise<ParsedCSV> {
+    let parser = createCSVParser(file.name);
+    const encoding = await streamFileText(file, options, () => {
+        parser = createCSVParser(file.name);
+        return text => parser.push(text);
+    }, (loaded, total) => {
+        onProgress?.({ phase: 'parsing', loaded, total, rows: parser.rowCount() });
+    }, signal);
+    return { ...parser.finish(), encoding };
 }
 
 /**
  * Parse a CSV line into individual fields, respecting quotes.
+ * Fields keep their original quoting so the caller can inspect it.
  */
-function parseCSVLine(line: string): string[] {
+function parseCSVLine(line: string, dialect: CSVDialect): string[] {
+    const { delimiter, quoteChar, escapeStyle } = dialect;
     const fields: string[] = [];
     let current = '';
     let inQuotes = false;
-    let quoteChar = '';
 
     for (let i = 0; i < line.length; i++) {
         const char = line[i];
 
         if (!inQuotes) {
-            if (char === '"' || char === "'") {
+            if (char === quoteChar) {
                 inQuotes = true;
-                quoteChar = char;
                 current += char;
-            } else if (char === ',') {
+            } else if (line.startsWith(delimiter, i)) {
                 fields.push(current);
                 current = '';
+                i += delimiter.length - 1;
             } else {
                 current += char;
             }
         } else {
             current += char;
-            if (char === quoteChar) {
+            if (escapeStyle === 'backslash' && char === '\\' && line[i + 1] === quoteChar) {
+                current += line[i + 1];
+                i++;
+            } else if (char === quoteChar) {
                 // Check for escaped quote (doubled)
-                if (i + 1 < line.length && line[i + 1] === quoteChar) {
+                if (escapeStyle === 'double' && line[i + 1] === quoteChar) {
                     current += line[i + 1];
                     i++;
                 } else {
@@ -98,33 +644,32 @@ function parseCSVLine(line: string): string[] {
  * Detect per-column quote pattern from a raw CSV line.
  * Returns an array of booleans indicating if each column was quoted.
  */
-function detectColumnQuotePattern(rawLine: string): boolean[] {
-    const fields = parseCSVLine(rawLine);
-    return fields.map(field => {
-        const trimmed = field.trim();
-        return trimmed.startsWith('"') || trimmed.startsWith("'");
-    });
+function detectColumnQuotePattern(rawLine: string, dialect: CSVDialect): boolean[] {
+    const fields = parseCSVLine(rawLine, dialect);
+    return fields.map(field => field.trim().startsWith(dialect.quoteChar));
 }
 
 /**
  * Format a single value to match the original column quoting style.
- * Empty values are never quoted (output as empty between commas).
+ * Empty values are never quoted (output as empty between delimiters).
  */
-function formatValueForColumn(value: any, shouldQuote: boolean): string {
+function formatValueForColumn(value: any, shouldQuote: boolean, dialect: CSVDialect): string {
     const str = String(value ?? '');
+    const { delimiter, quoteChar, escapeStyle } = dialect;
 
-    // Empty values are never quoted - they appear as just empty between commas
+    // Empty values are never quoted - they appear as just empty between delimiters
     if (str === '') {
         return '';
     }
 
-    // Always quote if value contains comma, newline, or quotes
-    const needsQuoting = str.includes(',') || str.includes('\n') || str.includes('\r') || str.includes('"');
+    // Always quote if value contains the delimiter, a newline, or the quote char
+    const needsQuoting = str.includes(delimiter) || str.includes('\n') || str.includes('\r') || str.includes(quoteChar);
 
     if (needsQuoting || shouldQuote) {
-        // Escape any existing quotes by doubling them
-        const escaped = str.replace(/"/g, '""');
-        return '"' + escaped + '"';
+        // Escape any existing quotes (doubled or backslash, per dialect)
+        const escape = escapeStyle === 'backslash' ? '\\' + quoteChar : quoteChar + quoteChar;
+        const escaped = str.split(quoteChar).join(escape);
+        return quoteChar + escaped + quoteChar;
     }
 
     return str;
@@ -136,12 +681,45 @@ function formatValueForColumn(value: any, shouldQuote: boolean): string {
 function buildLineWithPattern(
     row: Record<string, any>,
     headers: string[],
-    columnQuotePattern: boolean[]
+    columnQuotePattern: boolean[],
+    dialect: CSVDialect
 ): string {
     return headers.map((h, i) => {
         const shouldQuote = columnQuotePattern[i] ?? false;
-        return formatValueForColumn(row[h], shouldQuote);
-    }).join(',');
+        return formatValueForColumn(row[h], shouldQuote, dialect);
+    }).join(dialect.delimiter);
+}
+
+/**
+ * Join output lines using the dialect's line terminator and trailing newline setting.
+ */
+function joinLines(lines: string[], dialect: CSVDialect): string {
+    const body = lines.join(dialect.lineTerminator);
+    return dialect.trailingNewline ? body + dialect.lineTerminator : body;
+}
+
+// Joins the parts of a composite key; a control character that does not occur in real data
+const KEY_SEPARATOR = '\u001f';
+
+/**
+ * Matching key of a row: the trimmed value of the key column, or for a composite key the
+ * trimmed values of each key column in order. Empty when any part is empty.
+ */
+export function rowKey(row: Record<string, any>, keyColumns: string | string[]): string {
+    if (typeof keyColumns === 'string') return String(row[keyColumns] ?? '').trim();
+    const parts = keyColumns.map(k => String(row[k] ?? '').trim());
+    return parts.some(p => p === '') ? '' : parts.join(KEY_SEPARATOR);
+}
+
+/**
+ * Readable form of a (possibly composite) key from rowKey.
+ */
+export function formatRowKey(key: string): string {
+    return key.split(KEY_SEPARATOR).join(' | ');
+}
+
+function sameValues(a: Record<string, any>, b: Record<string, any>, headers: string[]): boolean {
+    return headers.every(h => String(a[h] ?? '') === String(b[h] ?? ''));
 }
 
 /**
@@ -152,64 +730,86 @@ export function formatPreservingExport(
     headers: string[],
     rows: Record<string, any>[],
     originalCSV: ParsedCSV,
-    keyColumn: string,
-    changedKeys: Set<string>
+    keyColumns: string | string[],
+    changedKeys: Set<string>     // rowKey values of rows to rebuild
 ): string {
+    const { dialect } = originalCSV;
+
     // Detect per-column quote pattern from original file
-    const headerQuotePattern = detectColumnQuotePattern(originalCSV.rawHeaderLine);
+    const headerQuotePattern = detectColumnQuotePattern(originalCSV.rawHeaderLine, dialect);
     const dataQuotePattern = originalCSV.rawLines[0]
-        ? detectColumnQuotePattern(originalCSV.rawLines[0])
+        ? detectColumnQuotePattern(originalCSV.rawLines[0], dialect)
         : headerQuotePattern;
 
-    // Build header line with original pattern
-    const headerLine = headers.map((h, i) => {
-        const shouldQuote = headerQuotePattern[i] ?? false;
-        return formatValueForColumn(h, shouldQuote);
-    }).join(',');
-
-    // Build original row lookup by key
-    const originalRawByKey = new Map<string, string>();
-    originalCSV.rows.forEach((row, i) => {
-        const key = String(row[keyColumn] ?? '').trim();
-        if (key && originalCSV.rawLines[i]) {
-            originalRawByKey.set(key, originalCSV.rawLines[i]);
-        }
-    });
-
     // Check if headers changed (union mode adds columns)
     const headersChanged = headers.length !== originalCSV.headers.length ||
         !headers.every((h, i) => h === originalCSV.headers[i]);
 
+    // Same columns: the original header line verbatim. Otherwise rebuild it with the
+    // original header text (duplicate and blank names included) for known columns.
+    const originalText = new Map(originalCSV.headers.map((h, i) => [h, originalCSV.originalHeaders[i] ?? h]));
+    const headerLine = headersChanged
+        ? headers.map((h, i) => {
+            const shouldQuote = headerQuotePattern[i] ?? false;
+            return formatValueForColumn(originalText.get(h) ?? h, shouldQuote, dialect);
+        }).join(dialect.delimiter)
+        : originalCSV.rawHeaderLine;
+
+    // Build original row lookup by key (rows repaired to the header width are always rebuilt).
+    // Several rows can share a key, so a raw line is only reused for a row with the same values.
+    const repaired = new Set(originalCSV.diagnostics.repaired);
+    const originalIndexByKey = new Map<string, number[]>();
+    originalCSV.rows.forEach((row, i) => {
+        const key = rowKey(row, keyColumns);
+        if (!key || !originalCSV.rawLines[i] || repaired.has(i)) return;
+        const indexes = originalIndexByKey.get(key);
+        if (indexes) indexes.push(i);
+        else originalIndexByKey.set(key, [i]);
+    });
+    const takeRawLine = (key: string, row: Record<string, any>): string | null => {
+        const indexes = originalIndexByKey.get(key);
+        const at = indexes ? indexes.findIndex(i => sameValues(originalCSV.rows[i], row, headers)) : -1;
+        return at >= 0 ? originalCSV.rawLines[indexes!.splice(at, 1)[0]] : null;
+    };
+
     // Build data lines
     const dataLines = rows.map(row => {
-        const key = String(row[keyColumn] ?? '').trim();
+        const key = rowKey(row, keyColumns);
 
         // If this row wasn't changed, headers are same, and we have the original raw line, use it
-        if (!changedKeys.has(key) && !headersChanged && originalRawByKey.has(key)) {
-            return originalRawByKey.get(key)!;
+        if (!changedKeys.has(key) && !headersChanged) {
+            const raw = takeRawLine(key, row);
+            if (raw !== null) return raw;
         }
 
         // Otherwise, rebuild the line with the detected per-column pattern
-        return buildLineWithPattern(row, headers, dataQuotePattern);
+        return buildLineWithPattern(row, headers, dataQuotePattern, dialect);
     });
 
-    return [headerLine, ...dataLines].join('\r\n');
+    return joinLines([headerLine, ...dataLines], dialect);
 }
 
 /**
- * Simple CSV export (quotes all fields).
+ * Simple CSV export (quotes all fields by default).
  * Use this for new files or when format preservation isn't needed.
  */
-export function exportToCSV(headers: string[], rows: Record<string, any>[]): string {
-    return Papa.unparse(
+export function exportToCSV(
+    headers: string[],
+    rows: Record<string, any>[],
+    dialect: CSVDialect = DEFAULT_DIALECT,
+    quoteAll: boolean = true
+): string {
+    const csv = Papa.unparse(
         { fields: headers, data: rows },
         {
-            quotes: true,
-            quoteChar: '"',
-            escapeChar: '"',
-            newline: '\r\n'
+            quotes: quoteAll,
+            delimiter: dialect.delimiter,
+            quoteChar: dialect.quoteChar,
+            escapeChar: dialect.escapeStyle === 'backslash' ? '\\' : dialect.quoteChar,
+            newline: dialect.lineTerminator
         }
     );
+    return dialect.trailingNewline ? csv + dialect.lineTerminator : csv;
 }
 
 
@@ -0,0 +1,58 @@
+/**
+ * CSV Worker
+ * Parses files and runs heavy tasks off the main thread (see workerClient.ts)
+ */
+
+import type { ProgressInfo } from './csv';
+import { loadFile, runTask, releaseDataset } from './workerTasks';
+import type { WorkerRequest, WorkerResponse } from './workerTasks';
+
+const ctx = self as unknown as Worker;
+
+function post(message: WorkerResponse): void {
+    ctx.postMessage(message);
+}
+
+// Requests in progress, by id, so a cancel message can stop just that one
+const running = new Map<number, AbortController>();
+
+ctx.onmessage = async (e: MessageEvent<WorkerRequest>) => {
+    const msg = e.data;
+    if (msg.type === 'cancel') {
+        running.get(msg.target)?.abort();
+        return;
+    }
+    if (msg.type === 'release') {
+        releaseDataset(msg.handle);
+        return;
+    }
+
+    const controller = new AbortController();
+    const { signal } = controller;
+    running.set(msg.id, controller);
+    const onProgress = (progress: ProgressInfo) => post({ id: msg.id, type: 'progress', progress });
+
+    try {
+        switch (msg.type) {
+            case 'parse': {
+                // The rows stay here; the page gets the summary
+                const dataset = await loadFile(msg.handle, msg.file, msg.options, onProgress, signal);
+                post({ id: msg.id, type: 'result', result: dataset });
+                break;
+            }
+            case 'task': {
+                // Tasks run in one piece, so let a cancel sent while this one was queued arrive first
+                await new Promise(resolve => setTimeout(resolve, 0));
+                signal.throwIfAborted();
+                onProgress({ phase: 'processing', loaded: 0, total: 0 });
+                post({ id: msg.id, type: 'result', result: runTask(msg.name, msg.args) });
+                break;
+            }
+        }
+    } catch (err) {
+        // The client already settled a cancelled request
+        if (!signal.aborted) post({ id: msg.id, type: 'error', message: err instanceof Error ? err.message : String(err) });
+    } finally {
+        running.delete(msg.id);
+    }
+};
@@ -0,0 +1,203 @@
+/**
+ * Delete Utilities
+ * Cleaning pasted ID lists and removing matching rows, by ID or by filter expression, with an audit trail
+ */
+
+import { formatPreservingExport } from './csv';
+import type { ParsedCSV } from './csv';
+import { compileFilter } from './rowFilter';
+import type { RowFilter } from './rowFilter';
+
+export type IdDelimiter = 'newline' | 'comma' | 'semicolon' | 'tab' | 'pipe' | 'space';
+
+export const ID_DELIMITERS: { value: IdDelimiter; label: string; pattern: string }[] = [
+    { value: 'newline', label: 'New line', pattern: '\\r\\n|\\r|\\n' },
+    { value: 'comma', label: 'Comma', pattern: ',' },
+    { value: 'semicolon', label: 'Semicolon', pattern: ';' },
+    { value: 'tab', label: 'Tab', pattern: '\\t' },
+    { value: 'pipe', label: 'Pipe', pattern: '\\|' },
+    { value: 'space', label: 'Space', pattern: ' ' },
+];
+
+/** Spaces are not a separator by default, so IDs like "ACME 001" survive. */
+export const DEFAULT_ID_DELIMITERS: IdDelimiter[] = ['newline', 'comma', 'semicolon', 'tab'];
+
+export interface IdListOptions {
+    trim: boolean;
+    dedup: boolean;
+    ci: boolean;
+}
+
+export interface CleanIds {
+    list: string[];       // IDs as entered (deduped if requested)
+    set: Set<string>;     // Normalized probes used for matching
+    detected: number;     // Raw count before deduplication
+}
+
+export interface DeleteOptions {
+    key: string;
+    trim: boolean;
+    ci: boolean;
+    keepOnly?: boolean;   // Inverse: keep the rows whose key is listed and remove the rest
+}
+
+export interface FilterDeleteOptions {
+    filter: RowFilter;
+    key: string;          // Only used to reuse the original lines of the remaining rows
+}
+
+export interface DeletePreview {
+    toDelete: Record<string, any>[];
+    notFound: string[];
+}
+
+export interface DeleteResult {
+    csv: string;
+    headers: string[];
+    rows: Record<string, any>[];
+    removed: number;
+    remaining: number;
+    deleted: Record<string, any>[];   // The removed rows, in file order
+    deletedCsv: string;               // The removed rows with their original formatting
+    notFound: string[];               // Listed IDs that matched no row (always empty for filters)
+}
+
+/**
+ * What a delete run did, for an audit manifest that lets it be checked or reversed later.
+ */
+export interface DeleteManifest {
+    inputFile: string;
+    inputRows: number;
+    keyColumn: string;
+    criteria: string;         // e.g. "IDs pasted (3 unique)" or the filter expression
+    options: string;          // Matching options in words
+    removed: number;
+    remaining: number;
+    notFound: number;
+    createdAt: Date;
+}
+
+export const MANIFEST_COLUMNS = ['field', 'value'];
+
+/**
+ * Split pasted text into IDs on the chosen delimiters. With no delimiter the whole text is one ID.
+ */
+export function cleanIdList(raw: string, options: IdListOptions, delimiters: IdDelimiter[] = DEFAULT_ID_DELIMITERS): CleanIds {
+    const patterns = ID_DELIMITERS.filter(d => delimiters.includes(d.value)).map(d => d.pattern);
+    const pieces = patterns.length > 0 ? raw.split(new RegExp(patterns.join('|'))) : [raw];
+    return collectIds(pieces.filter(p => p.trim() !== ''), options);
+}
+
+/**
+ * IDs from a column of another file, one per non-blank cell (cells are never split).
+ */
+export function idsFromColumn(csv: ParsedCSV, column: string, options: IdListOptions): CleanIds {
+    const values = csv.rows.map(r => String(r[column] ?? '')).filter(v => v.trim() !== '');
+    return collectIds(values, options);
+}
+
+function collectIds(parts: string[], options: IdListOptions): CleanIds {
+    const { trim, dedup, ci } = options;
+    const set = new Set<string>();
+    const list: string[] = [];
+
+    for (const p of parts) {
+        const k = trim ? p.trim() : p;
+        const probe = ci ? k.toLowerCase() : k;
+        if (dedup) {
+            if (!set.has(probe)) {
+                set.add(probe);
+                list.push(k);
+            }
+        } else {
+            list.push(k);
+            set.add(probe);
+        }
+    }
+    return { list, set, detected: parts.length };
+}
+
+/**
+ * Normalize a row's key value the same way IDs were normalized.
+ */
+function probeFor(row: Record<string, any>, options: DeleteOptions): string {
+    const raw = String(row[options.key] ?? '');
+    const val = options.trim ? raw.trim() : raw;
+    return options.ci ? val.toLowerCase() : val;
+}
+
+/**
+ * Whether a row is removed: listed rows normally, unlisted rows in keep-only mode.
+ */
+function removesRow(row: Record<string, any>, ids: CleanIds, options: DeleteOptions): boolean {
+    return ids.set.has(probeFor(row, options)) !== !!options.keepOnly;
+}
+
+/**
+ * Rows that would be deleted and IDs that match no row.
+ */
+export function computeDeletePreview(original: ParsedCSV, ids: CleanIds, options: DeleteOptions): DeletePreview {
+    const toDelete = original.rows.filter(r => removesRow(r, ids, options));
+    return { toDelete, notFound: findNotFound(original, ids, options) };
+}
+
+function findNotFound(original: ParsedCSV, ids: CleanIds, options: DeleteOptions): string[] {
+    const presence = new Set(original.rows.map(r => probeFor(r, options)));
+    return ids.list.filter(id => {
+        const probe = options.ci ? id.toLowerCase() : id;
+        return !presence.has(probe);
+    });
+}
+
+/**
+ * Drop the rows `remove` selects. Both the remaining and the removed rows keep their original bytes.
+ */
+function removeRows(original: ParsedCSV, remove: (row: Record<string, any>) => boolean, key: string, notFound: string[]): DeleteResult {
+    const filtered: Record<string, any>[] = [];
+    const deleted: Record<string, any>[] = [];
+    original.rows.forEach(r => (remove(r) ? deleted : filtered).push(r));
+
+    // Format-preserving export - no row is changed, so changedKeys is empty
+    const csv = formatPreservingExport(original.headers, filtered, original, key, new Set<string>());
+    const deletedCsv = formatPreservingExport(original.headers, deleted, original, key, new Set<string>());
+    return { csv, headers: original.headers, rows: filtered, removed: deleted.length, remaining: filtered.length, deleted, deletedCsv, notFound };
+}
+
+/**
+ * Remove rows whose key is in the ID list (or, in keep-only mode, is not) and serialize the remainder.
+ */
+export function runDelete(original: ParsedCSV, ids: CleanIds, options: DeleteOptions): DeleteResult {
+    return removeRows(original, r => removesRow(r, ids, options), options.key, findNotFound(original, ids, options));
+}
+
+/**
+ * Rows matching the filter. Nothing can be "not found" when deleting by filter.
+ */
+export function computeFilterDeletePreview(original: ParsedCSV, options: FilterDeleteOptions): DeletePreview {
+    const matches = compileFilter(options.filter, original.headers);
+    return { toDelete: original.rows.filter(matches), notFound: [] };
+}
+
+/**
+ * Remove the rows matching the filter and serialize the remainder like runDelete.
+ */
+export function runFilterDelete(original: ParsedCSV, options: FilterDeleteOptions): DeleteResult {
+    return removeRows(original, compileFilter(options.filter, original.headers), options.key, []);
+}
+
+/**
+ * The manifest as field/value rows (see MANIFEST_COLUMNS).
+ */
+export function manifestRows(manifest: DeleteManifest): Record<string, any>[] {
+    return [
+        { field: 'created_at', value: manifest.createdAt.toISOString() },
+        { field: 'input_file', value: manifest.inputFile },
+        { field: 'input_rows', value: manifest.inputRows },
+        { field: 'key_column', value: manifest.keyColumn },
+        { field: 'criteria', value: manifest.criteria },
+        { field: 'options', value: manifest.options },
+        { field: 'rows_removed', value: manifest.removed },
+        { field: 'rows_remaining', value: manifest.remaining },
+        { field: 'ids_not_found', value: manifest.notFound },
+    ];
+}
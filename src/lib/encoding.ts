@@ -0,0 +1,233 @@
+/**
+ * Character Encoding Utilities
+ * Sniffing, decoding and re-encoding of text files for round-trip export
+ */
+
+export interface EncodingOption {
+    value: string;
+    label: string;
+}
+
+export const UNICODE_ENCODINGS: EncodingOption[] = [
+    { value: 'utf-8', label: 'UTF-8' },
+    { value: 'utf-16le', label: 'UTF-16 LE' },
+    { value: 'utf-16be', label: 'UTF-16 BE' },
+];
+
+// Single-byte code pages (supported for both reading and writing)
+export const LEGACY_ENCODINGS: EncodingOption[] = [
+    { value: 'windows-1252', label: 'Windows-1252 (Western)' },
+    { value: 'windows-1250', label: 'Windows-1250 (Central European)' },
+    { value: 'windows-1251', label: 'Windows-1251 (Cyrillic)' },
+    { value: 'windows-1253', label: 'Windows-1253 (Greek)' },
+    { value: 'windows-1254', label: 'Windows-1254 (Turkish)' },
+    { value: 'iso-8859-15', label: 'ISO-8859-15 (Latin-9)' },
+    { value: 'macintosh', label: 'Mac Roman' },
+    { value: 'koi8-r', label: 'KOI8-R' },
+];
+
+export const DEFAULT_LEGACY_ENCODING = 'windows-1252';
+
+export interface ReadOptions {
+    fallbackEncoding?: string;   // Legacy code page used when the bytes are not valid UTF-8/UTF-16
+}
+
+export interface DetectedEncoding {
+    encoding: string;
+    bom: boolean;
+}
+
+/**
+ * Whether an encoding name is one of the Unicode encodings (the only ones that can carry a BOM).
+ */
+export function isUnicodeEncoding(encoding: string): boolean {
+    return UNICODE_ENCODINGS.some(e => e.value === encoding);
+}
+
+/**
+ * Human-readable label for an encoding name.
+ */
+export function encodingLabel(encoding: string): string {
+    return [...UNICODE_ENCODINGS, ...LEGACY_ENCODINGS].find(e => e.value === encoding)?.label ?? encoding;
+}
+
+/**
+ * Guess UTF-16 byte order from the distribution of zero bytes (mostly-ASCII text
+ * encoded as UTF-16 has a zero in every other byte).
+ */
+function sniffUTF16(bytes: Uint8Array): 'utf-16le' | 'utf-16be' | null {
+    const len = Math.min(bytes.length, 4096) & ~1;
+    if (len < 4) return null;
+
+    let evenZeros = 0, oddZeros = 0;
+    for (let i = 0; i < len; i += 2) {
+        if (bytes[i] === 0) evenZeros++;
+        if (bytes[i + 1] === 0) oddZeros++;
+    }
+
+    const pairs = len / 2;
+    if (oddZeros / pairs > 0.3 && evenZeros / pairs < 0.05) return 'utf-16le';
+    if (evenZeros / pairs > 0.3 && oddZeros / pairs < 0.05) return 'utf-16be';
+    return null;
+}
+
+/**
+ * Identify encodings that can be told from the first bytes alone: a BOM or UTF-16 zero-byte patterns.
+ * Returns null when the content needs full validation (UTF-8 vs legacy code page).
+ */
+export function sniffEncoding(bytes: Uint8Array): DetectedEncoding | null {
+    if (bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) return { encoding: 'utf-8', bom: true };
+    if (bytes[0] === 0xFF && bytes[1] === 0xFE) return { encoding: 'utf-16le', bom: true };
+    if (bytes[0] === 0xFE && bytes[1] === 0xFF) return { encoding: 'utf-16be', bom: true };
+
+    const utf16 = sniffUTF16(bytes);
+    return utf16 ? { encoding: utf16, bom: false } : null;
+}
+
+const READ_CHUNK_SIZE = 4 * 1024 * 1024;
+
+/**
+ * Decode a file chunk by chunk, handing each piece of text to `sink`. With `fatal`, returns
+ * false as soon as an invalid byte sequence is met. An aborted `signal` stops it between chunks.
+ */
+async function decodeFileChunks(
+    file: Blob,
+    encoding: string,
+    fatal: boolean,
+    sink: (text: string) => void,
+    onProgress?: (loaded: number, total: number) => void,
+    signal?: AbortSignal
+): Promise<boolean> {
+    const decoder = new TextDecoder(encoding, { fatal, ignoreBOM: true });
+    const decode = (bytes?: Uint8Array): string | null => {
+        try {
+            return bytes ? decoder.decode(bytes, { stream: true }) : decoder.decode();
+        } catch (err) {
+            if (fatal && err instanceof TypeError) return null;
+            throw err;
+        }
+    };
+
+    for (let offset = 0; offset < file.size; offset += READ_CHUNK_SIZE) {
+        signal?.throwIfAborted();
+        const text = decode(new Uint8Array(await file.slice(offset, offset + READ_CHUNK_SIZE).arrayBuffer()));
+        if (text === null) return false;
+        sink(text);
+        onProgress?.(Math.min(offset + READ_CHUNK_SIZE, file.size), file.size);
+    }
+    const rest = decode();
+    if (rest === null) return false;
+    sink(rest);
+    return true;
+}
+
+/**
+ * Read a file as text in chunks, detecting its encoding on the way, without ever holding
+ * the whole text. `start` is called with the encoding being read and returns the sink for
+ * its text. Files that are neither BOM-marked, UTF-16 nor valid UTF-8 are re-read from the
+ * start with the fallback code page, so `start` may be called twice and must begin afresh.
+ * Resolves to the encoding the file was read with.
+ */
+export async function streamFileText(
+    file: Blob,
+    options: ReadOptions,
+    start: (encoding: string) => (text: string) => void,
+    onProgress?: (loaded: number, total: number) => void,
+    signal?: AbortSignal
+): Promise<string> {
+    const head = new Uint8Array(await file.slice(0, 4096).arrayBuffer());
+    const sniffed = sniffEncoding(head);
+    if (sniffed) {
+        await decodeFileChunks(file, sniffed.encoding, false, start(sniffed.encoding), onProgress, signal);
+        return sniffed.encoding;
+    }
+
+    if (await decodeFileChunks(file, 'utf-8', true, start('utf-8'), onProgress, signal)) return 'utf-8';
+    const fallback = options.fallbackEncoding ?? DEFAULT_LEGACY_ENCODING;
+    await decodeFileChunks(file, fallback, false, start(fallback), onProgress, signal);
+    return fallback;
+}
+
+/**
+ * Read a whole file as one string (see streamFileText), for formats that must be parsed in one piece.
+ */
+export async function readFileText(
+    file: Blob,
+    options: ReadOptions = {},
+    onProgress?: (loaded: number, total: number) => void,
+    signal?: AbortSignal
+): Promise<{ text: string; encoding: string }> {
+    let parts: string[] = [];
+    const encoding = await streamFileText(file, options, () => {
+        parts = [];
+        return text => parts.push(text);
+    }, onProgress, signal);
+    return { text: parts.join(''), encoding };
+}
+
+// Reverse lookup tables (char -> byte) for single-byte code pages, built on demand
+const singleByteTables = new Map<string, Map<string, number>>();
+
+function getSingleByteTable(encoding: string): Map<string, number> {
+    let table = singleByteTables.get(encoding);
+    if (!table) {
+        table = new Map();
+        const decoder = new TextDecoder(encoding);
+        for (let b = 0; b < 256; b++) {
+            const char = decoder.decode(new Uint8Array([b]));
+            if (char !== '\uFFFD' && !table.has(char)) table.set(char, b);
+        }
+        singleByteTables.set(encoding, table);
+    }
+    return table;
+}
+
+function encodeUTF16(text: string, littleEndian: boolean, bom: boolean): Uint8Array {
+    const offset = bom ? 2 : 0;
+    const bytes = new Uint8Array(offset + text.length * 2);
+    const view = new DataView(bytes.buffer);
+    if (bom) view.setUint16(0, 0xFEFF, littleEndian);
+    for (let i = 0; i < text.length; i++) {
+        view.setUint16(offset + i * 2, text.charCodeAt(i), littleEndian);
+    }
+    return bytes;
+}
+
+/**
+ * Encode text for writing to a file. Characters a legacy code page cannot
+ * represent are written as '?'. BOMs are only written for Unicode encodings.
+ */
+export function encodeText(text: string, encoding: string, bom: boolean): Uint8Array {
+    switch (encoding) {
+        case 'utf-8': {
+            const body = new TextEncoder().encode(text);
+            if (!bom) return body;
+            const bytes = new Uint8Array(body.length + 3);
+            bytes.set([0xEF, 0xBB, 0xBF]);
+            bytes.set(body, 3);
+            return bytes;
+        }
+        case 'utf-16le':
+            return encodeUTF16(text, true, bom);
+        case 'utf-16be':
+            return encodeUTF16(text, false, bom);
+        default: {
+            const table = getSingleByteTable(encoding);
+            const question = '?'.charCodeAt(0);
+            const bytes = new Uint8Array(text.length);
+            let n = 0;
+            for (const char of text) {
+                bytes[n++] = table.get(char) ?? question;
+            }
+            return bytes.slice(0, n);
+        }
+    }
+}
+
+/**
+ * Build a downloadable Blob of text in the given encoding.
+ */
+export function createTextBlob(text: string, encoding: string, bom: boolean, mimeType: string = 'text/csv'): Blob {
+    const bytes = encodeText(text, encoding, bom && isUnicodeEncoding(encoding));
+    return new Blob([bytes as BlobPart], { type: `${mimeType};charset=${encoding}` });
+}
@@ -0,0 +1,216 @@
+/**
+ * Export Formats
+ * Serializing result rows as CSV/TSV, JSON, NDJSON, Markdown, HTML or SQL statements
+ */
+
+import { exportToCSV } from './csv';
+import type { CSVDialect } from './csv';
+import { jsonValue, unflattenRow } from './json';
+
+export type ExportFormat = 'csv' | 'tsv' | 'xlsx' | 'json' | 'json-nested' | 'ndjson' | 'markdown' | 'html' | 'sql-insert' | 'sql-upsert';
+
+export type SqlDialect = 'postgres' | 'mysql' | 'sqlite';
+
+export interface ExportFormatInfo {
+    value: ExportFormat;
+    label: string;
+    extension: string;
+    mimeType: string;
+}
+
+export const EXPORT_FORMATS: ExportFormatInfo[] = [
+    { value: 'csv', label: 'CSV (original format)', extension: 'csv', mimeType: 'text/csv' },
+    { value: 'tsv', label: 'TSV', extension: 'tsv', mimeType: 'text/tab-separated-values' },
+    { value: 'xlsx', label: 'Excel workbook', extension: 'xlsx', mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' },
+    { value: 'json', label: 'JSON array', extension: 'json', mimeType: 'application/json' },
+    { value: 'json-nested', label: 'JSON (nest dotted columns)', extension: 'json', mimeType: 'application/json' },
+    { value: 'ndjson', label: 'NDJSON (one object per line)', extension: 'ndjson', mimeType: 'application/x-ndjson' },
+    { value: 'markdown', label: 'Markdown table', extension: 'md', mimeType: 'text/markdown' },
+    { value: 'html', label: 'HTML table', extension: 'html', mimeType: 'text/html' },
+    { value: 'sql-insert', label: 'SQL INSERT', extension: 'sql', mimeType: 'application/sql' },
+    { value: 'sql-upsert', label: 'SQL UPSERT', extension: 'sql', mimeType: 'application/sql' },
+];
+
+export const SQL_DIALECTS: { value: SqlDialect; label: string }[] = [
+    { value: 'postgres', label: 'PostgreSQL' },
+    { value: 'mysql', label: 'MySQL' },
+    { value: 'sqlite', label: 'SQLite' },
+];
+
+export interface SheetData {
+    name: string;
+    headers: string[];
+    rows: Record<string, any>[];
+}
+
+/**
+ * Rows to export. `csv` is the tool's own CSV output (e.g. format-preserving) and is used
+ * as-is for the CSV format; every other format is built from headers and rows.
+ * `sheets` lays out an Excel export as several sheets (data plus annotations) instead of one.
+ */
+export interface ExportSource {
+    headers: string[];
+    rows: Record<string, any>[];
+    dialect: CSVDialect;
+    csv?: string;
+    sheets?: SheetData[];
+}
+
+export interface ExportOptions {
+    format: ExportFormat;
+    tableName: string;
+    sqlDialect: SqlDialect;
+    keyColumns: string[];     // Conflict target for SQL UPSERT
+    emptyAsNull: boolean;     // SQL and JSON: write empty values as NULL/null
+    inferTypes: boolean;      // JSON: write numbers and true/false as JSON values, not strings
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+    format: 'csv',
+    tableName: 'data',
+    sqlDialect: 'postgres',
+    keyColumns: [],
+    emptyAsNull: true,
+    inferTypes: false,
+};
+
+const SQL_BATCH_SIZE = 500;
+
+export function formatInfo(format: ExportFormat): ExportFormatInfo {
+    return EXPORT_FORMATS.find(f => f.value === format) ?? EXPORT_FORMATS[0];
+}
+
+/**
+ * Whether a format is a delimited text format written in the source file's encoding.
+ */
+export function isDelimitedFormat(format: ExportFormat): boolean {
+    return format === 'csv' || format === 'tsv';
+}
+
+/**
+ * Turn a file name into a plain SQL table name.
+ */
+export function tableNameFromFile(fileName: string): string {
+    const base = fileName.replace(/\.[^.]+$/, '').replace(/[^A-Za-z0-9_]+/g, '_').replace(/^_+|_+$/g, '');
+    return /^[A-Za-z_]/.test(base) ? base : `t_${base || 'data'}`;
+}
+
+function pick(row: Record<string, any>, headers: string[], options: ExportOptions): Record<string, unknown> {
+    const out: Record<string, unknown> = {};
+    headers.forEach(h => { out[h] = jsonValue(String(row[h] ?? ''), options.emptyAsNull, options.inferTypes); });
+    return out;
+}
+
+function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+function markdownCell(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\r\n|\r|\n/g, '<br>');
+}
+
+function toMarkdown(headers: string[], rows: Record<string, any>[]): string {
+    const line = (cells: string[]) => `| ${cells.map(markdownCell).join(' | ')} |`;
+    return [
+        line(headers),
+        `| ${headers.map(() => '---').join(' | ')} |`,
+        ...rows.map(r => line(headers.map(h => String(r[h] ?? ''))))
+    ].join('\n') + '\n';
+}
+
+function toHtml(headers: string[], rows: Record<string, any>[]): string {
+    const cells = (tag: string, values: string[]) => values.map(v => `<${tag}>${escapeHtml(v)}</${tag}>`).join('');
+    return [
+        '<table>',
+        `<thead><tr>${cells('th', headers)}</tr></thead>`,
+        '<tbody>',
+        ...rows.map(r => `<tr>${cells('td', headers.map(h => String(r[h] ?? '')))}</tr>`),
+        '</tbody>',
+        '</table>'
+    ].join('\n') + '\n';
+}
+
+function quoteIdentifier(name: string, dialect: SqlDialect): string {
+    return dialect === 'mysql'
+        ? '`' + name.replace(/`/g, '``') + '`'
+        : '"' + name.replace(/"/g, '""') + '"';
+}
+
+function sqlLiteral(value: string, options: ExportOptions): string {
+    if (value === '' && options.emptyAsNull) return 'NULL';
+    // MySQL treats backslash as an escape character inside string literals by default
+    const escaped = options.sqlDialect === 'mysql' ? value.replace(/\\/g, '\\\\') : value;
+    return `'${escaped.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Conflict clause turning an INSERT into an upsert for the chosen dialect.
+ */
+function upsertClause(headers: string[], options: ExportOptions): string {
+    const { sqlDialect, keyColumns } = options;
+    const quote = (h: string) => quoteIdentifier(h, sqlDialect);
+    const updatable = headers.filter(h => !keyColumns.includes(h));
+
+    if (sqlDialect === 'mysql') {
+        // MySQL resolves conflicts on the table's own unique keys
+        const sets = (updatable.length > 0 ? updatable : keyColumns).map(h => `${quote(h)} = VALUES(${quote(h)})`);
+        return `\nON DUPLICATE KEY UPDATE ${sets.join(', ')}`;
+    }
+
+    if (keyColumns.length === 0) {
+        throw new Error('Choose at least one key column for the upsert conflict target');
+    }
+    const target = keyColumns.map(quote).join(', ');
+    if (updatable.length === 0) return `\nON CONFLICT (${target}) DO NOTHING`;
+    const sets = updatable.map(h => `${quote(h)} = excluded.${quote(h)}`);
+    return `\nON CONFLICT (${target}) DO UPDATE SET ${sets.join(', ')}`;
+}
+
+function toSql(headers: string[], rows: Record<string, any>[], options: ExportOptions, upsert: boolean): string {
+    const table = quoteIdentifier(options.tableName || 'data', options.sqlDialect);
+    const columns = headers.map(h => quoteIdentifier(h, options.sqlDialect)).join(', ');
+    const conflict = upsert ? upsertClause(headers, options) : '';
+
+    const statements: string[] = [];
+    for (let i = 0; i < rows.length; i += SQL_BATCH_SIZE) {
+        const values = rows.slice(i, i + SQL_BATCH_SIZE).map(r =>
+            `(${headers.map(h => sqlLiteral(String(r[h] ?? ''), options)).join(', ')})`
+        );
+        statements.push(`INSERT INTO ${table} (${columns}) VALUES\n${values.join(',\n')}${conflict};`);
+    }
+    return statements.join('\n\n') + '\n';
+}
+
+/**
+ * Serialize rows in the chosen text export format. Excel workbooks are built by buildWorkbook (xlsx.ts).
+ */
+export function serializeExport(source: ExportSource, options: ExportOptions): string {
+    const { headers, rows, dialect } = source;
+
+    switch (options.format) {
+        case 'csv':
+            return source.csv ?? exportToCSV(headers, rows, dialect, false);
+        case 'tsv':
+            return exportToCSV(headers, rows, { ...dialect, delimiter: '\t', quoteChar: '"', escapeStyle: 'double' }, false);
+        case 'json':
+            return JSON.stringify(rows.map(r => pick(r, headers, options)), null, 2) + '\n';
+        case 'json-nested':
+            return JSON.stringify(rows.map(r => unflattenRow(r, headers, options.emptyAsNull, options.inferTypes)), null, 2) + '\n';
+        case 'ndjson':
+            return rows.map(r => JSON.stringify(pick(r, headers, options))).join('\n') + '\n';
+        case 'markdown':
+            return toMarkdown(headers, rows);
+        case 'html':
+            return toHtml(headers, rows);
+        case 'sql-insert':
+            return toSql(headers, rows, options, false);
+        case 'sql-upsert':
+            return toSql(headers, rows, options, true);
+        case 'xlsx':
+            throw new Error('Excel workbooks are binary; use buildWorkbook');
+    }
+}
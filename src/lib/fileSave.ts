@@ -0,0 +1,172 @@
+/**
+ * File Saving
+ * Output file names from templates, and writing results through the File System Access API or a download
+ */
+
+export const DEFAULT_FILENAME_TEMPLATE = '{original}_{action}_{date}';
+
+export const FILENAME_TOKENS = ['{original}', '{action}', '{date}', '{time}'];
+
+// Chromium-only parts of the File System Access API that are not in lib.dom
+interface FilePickerOptions {
+    suggestedName?: string;
+    types?: { description?: string; accept: Record<string, string[]> }[];
+    excludeAcceptAllOption?: boolean;
+}
+
+interface FileSystemAccessWindow {
+    showSaveFilePicker?: (options?: FilePickerOptions) => Promise<FileSystemFileHandle>;
+    showOpenFilePicker?: (options?: FilePickerOptions) => Promise<FileSystemFileHandle[]>;
+}
+
+interface PermissionHandle {
+    queryPermission?: (descriptor: { mode: 'read' | 'readwrite' }) => Promise<PermissionState>;
+    requestPermission?: (descriptor: { mode: 'read' | 'readwrite' }) => Promise<PermissionState>;
+}
+
+interface HandleDataTransferItem {
+    getAsFileSystemHandle?: () => Promise<FileSystemHandle | null>;
+}
+
+/** Where a result goes: a file to write through its handle, or a download under fileName. */
+export interface SaveTarget {
+    handle?: FileSystemFileHandle;
+    fileName: string;
+}
+
+function accessWindow(): FileSystemAccessWindow {
+    return window as unknown as FileSystemAccessWindow;
+}
+
+function pad(n: number): string {
+    return String(n).padStart(2, '0');
+}
+
+function isAbort(err: unknown): boolean {
+    return err instanceof DOMException && err.name === 'AbortError';
+}
+
+/**
+ * Expand a file name template. `{original}` is the input file name without its extension,
+ * `{action}` what the tool did (e.g. "upserted"), `{date}` YYYY-MM-DD and `{time}` HHmmss.
+ * Characters that are not allowed in file names are replaced with underscores.
+ */
+export function expandFileName(template: string, values: { original: string; action: string }, extension: string, now = new Date()): string {
+    const original = values.original.replace(/\.[^.]+$/, '') || 'data';
+    const date = `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+    const time = `${pad(now.getHours())}${pad(now.getMinutes())}${pad(now.getSeconds())}`;
+    const base = (template.trim() || DEFAULT_FILENAME_TEMPLATE)
+        .replace(/\{original\}/g, original)
+        .replace(/\{action\}/g, values.action)
+        .replace(/\{date\}/g, date)
+        .replace(/\{time\}/g, time)
+        .replace(/[\\/:*?"<>|]+/g, '_');
+    return `${base}.${extension}`;
+}
+
+export function supportsSavePicker(): boolean {
+    return typeof window !== 'undefined' && typeof accessWindow().showSaveFilePicker === 'function';
+}
+
+export function supportsOpenPicker(): boolean {
+    return typeof window !== 'undefined' && typeof accessWindow().showOpenFilePicker === 'function';
+}
+
+/**
+ * Make sure a file can be written through its handle, asking the user when the page has no
+ * write access yet. Asking needs user activation, so call this straight from the click
+ * handler, before anything slow is awaited. Resolves to false when access is denied.
+ */
+export async function requestWriteAccess(handle: FileSystemFileHandle): Promise<boolean> {
+    const { queryPermission, requestPermission } = handle as FileSystemFileHandle & PermissionHandle;
+    if (!queryPermission || !requestPermission) return true;
+    const descriptor = { mode: 'readwrite' as const };
+    try {
+        if (await queryPermission.call(handle, descriptor) === 'granted') return true;
+        return await requestPermission.call(handle, descriptor) === 'granted';
+    } catch {
+        return false;
+    }
+}
+
+async function writeToHandle(handle: FileSystemFileHandle, blob: Blob): Promise<void> {
+    const writable = await handle.createWritable();
+    try {
+        await writable.write(blob);
+    } catch (err) {
+        // Closing would commit a partial file over the target; aborting leaves it untouched
+        await writable.abort().catch(() => undefined);
+        throw err;
+    }
+    await writable.close();
+}
+
+function download(blob: Blob, fileName: string): void {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    a.click();
+    URL.revokeObjectURL(url);
+}
+
+/**
+ * Choose where a result will be saved: with `overwrite` that file in place; otherwise a
+ * save dialog where the File System Access API exists, and a plain download elsewhere.
+ * Opening the dialog needs user activation, so call this from the click handler before
+ * the result is built. Resolves to null when the dialog is dismissed.
+ */
+export async function chooseSaveTarget(fileName: string, mimeType: string, overwrite?: FileSystemFileHandle): Promise<SaveTarget | null> {
+    if (overwrite) return { handle: overwrite, fileName: overwrite.name };
+
+    const picker = accessWindow().showSaveFilePicker;
+    if (!picker) return { fileName };
+
+    const extension = fileName.slice(fileName.lastIndexOf('.'));
+    try {
+        const handle = await picker({
+            suggestedName: fileName,
+            types: [{ accept: { [mimeType || 'application/octet-stream']: [extension] } }]
+        });
+        return { handle, fileName: handle.name };
+    } catch (err) {
+        if (isAbort(err)) return null;
+        throw err;
+    }
+}
+
+/**
+ * Write a result to the target from chooseSaveTarget: into the chosen file, or as a download.
+ */
+export async function saveBlob(blob: Blob, target: SaveTarget): Promise<void> {
+    if (target.handle) await writeToHandle(target.handle, blob);
+    else download(blob, target.fileName);
+}
+
+/**
+ * Let the user pick a file through the File System Access API, keeping its handle so
+ * results can be written back to it. Returns null when the picker is dismissed.
+ */
+export async function pickFile(extensions: string[]): Promise<{ file: File; handle: FileSystemFileHandle } | null> {
+    try {
+        const [handle] = await accessWindow().showOpenFilePicker!({
+            types: [{ description: 'Data files', accept: { 'application/octet-stream': extensions } }]
+        });
+        return { file: await handle.getFile(), handle };
+    } catch (err) {
+        if (isAbort(err)) return null;
+        throw err;
+    }
+}
+
+/**
+ * Start resolving the file handle of a dropped item. Must be called while the drop event
+ * is being handled; resolves to undefined where handles are not available.
+ */
+export function droppedFileHandle(item: DataTransferItem | undefined): Promise<FileSystemFileHandle | undefined> {
+    const getHandle = (item as (DataTransferItem & HandleDataTransferItem) | undefined)?.getAsFileSystemHandle;
+    if (!item || !getHandle) return Promise.resolve(undefined);
+    return getHandle.call(item)
+        .then(handle => (handle?.kind === 'file' ? handle as FileSystemFileHandle : undefined))
+        .catch(() => undefined);
+}
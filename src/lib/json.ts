@@ -0,0 +1,178 @@
+/**
+ * JSON Utilities
+ * Reading JSON/NDJSON records into flat dotted columns, and nesting dotted columns back on export
+ */
+
+import { parseRecords } from './csv';
+import type { ParsedCSV, ProgressCallback, JsonArrayMode, FileReadOptions } from './csv';
+import { readFileText } from './encoding';
+
+export const JSON_EXTENSIONS = ['.json', '.ndjson', '.jsonl'];
+
+export const DEFAULT_ARRAY_MODE: JsonArrayMode = 'index';
+export const DEFAULT_ARRAY_SEPARATOR = '; ';
+
+/**
+ * Whether a file should be read as JSON records rather than delimited text.
+ */
+export function isJsonFile(name: string): boolean {
+    const lower = name.toLowerCase();
+    return JSON_EXTENSIONS.some(ext => lower.endsWith(ext));
+}
+
+function isNdjsonName(name: string): boolean {
+    return /\.(ndjson|jsonl)$/i.test(name);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Flatten one record into dotted columns (`address.city`). Arrays become indexed columns
+ * (`tags.0`, `tags.1`) or, in join mode, one column of joined values; arrays holding
+ * objects are always indexed so their fields stay separate. null becomes an empty cell;
+ * empty arrays and objects add no column.
+ */
+export function flattenRecord(value: unknown, arrayMode: JsonArrayMode = DEFAULT_ARRAY_MODE, separator = DEFAULT_ARRAY_SEPARATOR): Record<string, string> {
+    // Prototype-free so keys like "__proto__" in the data are ordinary columns
+    const out: Record<string, string> = Object.create(null);
+
+    const visit = (node: unknown, path: string) => {
+        if (Array.isArray(node)) {
+            const primitive = node.every(item => typeof item !== 'object' || item === null);
+            if (arrayMode === 'join' && primitive) {
+                out[path] = node.map(item => (item === null ? '' : String(item))).join(separator);
+            } else {
+                node.forEach((item, i) => visit(item, path ? `${path}.${i}` : String(i)));
+            }
+        } else if (isPlainObject(node)) {
+            Object.entries(node).forEach(([k, v]) => visit(v, path ? `${path}.${k}` : k));
+        } else {
+            out[path || 'value'] = node === null || node === undefined ? '' : String(node);
+        }
+    };
+
+    visit(value, '');
+    return out;
+}
+
+/**
+ * Records in a JSON document: a top-level array, the single array property of a
+ * wrapper object (`{ "data": [...] }`), or the object itself as one record.
+ */
+function jsonRecords(text: string): unknown[] {
+    let doc: unknown;
+    try {
+        doc = JSON.parse(text);
+    } catch (err) {
+        throw new Error(`Invalid JSON: ${err instanceof Error ? err.message : String(err)}`);
+    }
+
+    if (Array.isArray(doc)) return doc;
+    if (isPlainObject(doc)) {
+        const arrays = Object.values(doc).filter(Array.isArray);
+        return arrays.length === 1 && Object.keys(doc).length === 1 ? arrays[0] : [doc];
+    }
+    throw new Error('JSON file must contain an object or an array of records');
+}
+
+function ndjsonRecords(text: string): unknown[] {
+    const records: unknown[] = [];
+    text.split(/\r\n|\n|\r/).forEach((line, i) => {
+        if (line.trim() === '') return;
+        try {
+            records.push(JSON.parse(line));
+        } catch (err) {
+            throw new Error(`Invalid JSON on line ${i + 1}: ${err instanceof Error ? err.message : String(err)}`);
+        }
+    });
+    return records;
+}
+
+/**
+ * Read a JSON or NDJSON file as a dataset of flattened records. Columns appear in the
+ * order they are first seen; records missing a column get an empty cell.
+ */
+export async function parseJsonFile(file: File, options: FileReadOptions = {}, onProgress?: ProgressCallback, signal?: AbortSignal): Promise<ParsedCSV> {
+    const { text, encoding } = await readFileText(file, options, (loaded, total) => {
+        onProgress?.({ phase: 'reading', loaded, total });
+    }, signal);
+    onProgress?.({ phase: 'parsing', loaded: 0, total: 0 });
+
+    const body = text.replace(/^\uFEFF/, '');
+    // NDJSON by extension, or a .json file whose content is one object per line
+    const ndjson = isNdjsonName(file.name) || (/^\s*\{/.test(body) && /\}\s*\r?\n\s*\{/.test(body));
+    const arrayMode = options.arrayMode ?? DEFAULT_ARRAY_MODE;
+    const arraySeparator = options.arraySeparator ?? DEFAULT_ARRAY_SEPARATOR;
+
+    const records = (ndjson ? ndjsonRecords(body) : jsonRecords(body)).map(r => flattenRecord(r, arrayMode, arraySeparator));
+    const headers: string[] = [];
+    const seen = new Set<string>();
+    records.forEach(r => Object.keys(r).forEach(k => {
+        if (!seen.has(k)) {
+            seen.add(k);
+            headers.push(k);
+        }
+    }));
+
+    return {
+        ...parseRecords([headers, ...records.map(r => headers.map(h => r[h] ?? ''))], file.name),
+        encoding,
+        json: { file, format: ndjson ? 'ndjson' : 'json', arrayMode, arraySeparator, readOptions: { fallbackEncoding: options.fallbackEncoding } }
+    };
+}
+
+// A JSON number as flattenRecord writes it, so converting it back loses nothing
+const JSON_NUMBER = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/;
+
+/**
+ * JSON value of a cell on export: an empty cell is null when emptyAsNull is set, and with
+ * inferTypes a cell reading as a number or true/false is written as that value.
+ */
+export function jsonValue(raw: string, emptyAsNull = false, inferTypes = false): unknown {
+    if (raw === '') return emptyAsNull ? null : raw;
+    if (!inferTypes) return raw;
+    if (raw === 'true' || raw === 'false') return raw === 'true';
+    if (JSON_NUMBER.test(raw) && String(Number(raw)) === raw) return Number(raw);
+    return raw;
+}
+
+/**
+ * Nest dotted columns back into objects (`address.city` → `{ address: { city } }`), with
+ * numeric segments becoming array positions. Joined arrays stay joined strings. A column
+ * that clashes with another's path (`a` next to `a.b`) is kept under its full dotted name.
+ */
+export function unflattenRow(row: Record<string, any>, headers: string[], emptyAsNull = false, inferTypes = false): Record<string, unknown> {
+    const root: Record<string, any> = Object.create(null);
+    const isIndex = (seg: string) => /^\d+$/.test(seg);
+    // Only own properties count, and arrays only take numeric positions
+    const hasOwn = (node: any, key: string) => Object.prototype.hasOwnProperty.call(node, key);
+    const canUse = (node: any, seg: string) => (!Array.isArray(node) || isIndex(seg)) && !hasOwn(node, seg);
+
+    headers.forEach(h => {
+        const value = jsonValue(String(row[h] ?? ''), emptyAsNull, inferTypes);
+        const path = h.split('.');
+        const keepDotted = () => {
+            if (!hasOwn(root, h)) root[h] = value;
+        };
+        let node: any = root;
+
+        for (let i = 0; i < path.length - 1; i++) {
+            const seg = path[i];
+            if (canUse(node, seg)) {
+                node[seg] = isIndex(path[i + 1]) ? [] : Object.create(null);
+            } else if ((Array.isArray(node) && !isIndex(seg)) || typeof node[seg] !== 'object' || node[seg] === null) {
+                keepDotted();
+                return;
+            }
+            node = node[seg];
+        }
+
+        const leaf = path[path.length - 1];
+        if (canUse(node, leaf)) node[leaf] = value;
+        else keepDotted();
+    });
+
+    return root;
+}
@@ -0,0 +1,95 @@
+/**
+ * Key Issues
+ * Finding duplicate and blank keys in a dataset, and resolving duplicates before matching
+ */
+
+import { rowKey, formatRowKey } from './csv';
+import type { ParsedCSV } from './csv';
+
+/**
+ * What to do with several rows sharing a key: keep the first or the last one, merge them
+ * into one (later non-empty values win), or refuse to continue.
+ */
+export type DuplicatePolicy = 'first' | 'last' | 'merge' | 'abort';
+
+export const DUPLICATE_POLICIES: { value: DuplicatePolicy; label: string }[] = [
+    { value: 'first', label: 'First row wins' },
+    { value: 'last', label: 'Last row wins' },
+    { value: 'merge', label: 'Merge duplicates (later non-empty values win)' },
+    { value: 'abort', label: 'Abort' },
+];
+
+export interface DuplicateKey {
+    key: string;              // rowKey value
+    rows: number[];           // 1-based data row numbers
+}
+
+export interface KeyIssues {
+    duplicates: DuplicateKey[];
+    duplicateRows: number;    // Rows beyond the first for each duplicated key
+    blankRows: number[];      // 1-based data row numbers with an empty key (part)
+}
+
+export function hasKeyIssues(issues: KeyIssues): boolean {
+    return issues.duplicates.length > 0 || issues.blankRows.length > 0;
+}
+
+/**
+ * Find keys used by more than one row, and rows with an empty key column. `keyOf` replaces
+ * rowKey when keys are normalized before matching.
+ */
+export function findKeyIssues(csv: ParsedCSV, keys: string[], keyOf = (row: Record<string, any>) => rowKey(row, keys)): KeyIssues {
+    const byKey = new Map<string, number[]>();
+    const blankRows: number[] = [];
+    csv.rows.forEach((r, i) => {
+        const id = keyOf(r);
+        if (!id) {
+            blankRows.push(i + 1);
+            return;
+        }
+        const rows = byKey.get(id);
+        if (rows) rows.push(i + 1);
+        else byKey.set(id, [i + 1]);
+    });
+
+    const duplicates: DuplicateKey[] = [];
+    let duplicateRows = 0;
+    byKey.forEach((rows, key) => {
+        if (rows.length > 1) {
+            duplicates.push({ key, rows });
+            duplicateRows += rows.length - 1;
+        }
+    });
+    return { duplicates, duplicateRows, blankRows };
+}
+
+/**
+ * Fold a later duplicate into an earlier one: non-empty values of the later row replace the earlier ones.
+ */
+export function mergeDuplicateRows(earlier: Record<string, any>, later: Record<string, any>): Record<string, any> {
+    const out = { ...earlier };
+    Object.keys(later).forEach(h => {
+        if (String(later[h] ?? '').trim() !== '') out[h] = later[h];
+    });
+    return out;
+}
+
+// Columns keyIssueRows puts in front of a dataset's own
+export const KEY_ISSUE_COLUMNS = ['_issue', '_row', '_key'];
+
+/**
+ * The offending rows of a dataset for download: an issue label, the row number and the key,
+ * followed by the row's own columns. Duplicates are listed with every row sharing the key.
+ */
+export function keyIssueRows(csv: ParsedCSV, issues: KeyIssues): Record<string, any>[] {
+    const out: Record<string, any>[] = [];
+    issues.duplicates.forEach(d => {
+        d.rows.forEach(n => {
+            out.push({ _issue: 'duplicate key', _row: n, _key: formatRowKey(d.key), ...csv.rows[n - 1] });
+        });
+    });
+    issues.blankRows.forEach(n => {
+        out.push({ _issue: 'blank key', _row: n, _key: '', ...csv.rows[n - 1] });
+    });
+    return out;
+}
@@ -0,0 +1,166 @@
+/**
+ * Merge Policies
+ * Per-column rules deciding how a matched modifications row updates an original row
+ */
+
+export type MergePolicy = 'overwrite' | 'non-empty' | 'keep' | 'prefer-longer' | 'max' | 'min' | 'newer' | 'append';
+
+export interface MergePolicyInfo {
+    value: MergePolicy;
+    label: string;
+    badge: string;            // Short tag shown on preview cells
+    description: string;
+}
+
+export const MERGE_POLICIES: MergePolicyInfo[] = [
+    { value: 'overwrite', label: 'Overwrite', badge: 'overwrite', description: 'Take the modifications value, even when it is empty' },
+    { value: 'non-empty', label: 'Overwrite if non-empty', badge: 'non-empty', description: 'Take the modifications value unless it is blank' },
+    { value: 'keep', label: 'Keep original', badge: 'keep', description: 'Never change this column in existing rows' },
+    { value: 'prefer-longer', label: 'Prefer longer / non-empty', badge: 'longer', description: 'Take whichever value is longer; blanks never win' },
+    { value: 'max', label: 'Numeric max', badge: 'max', description: 'Take the larger number; non-numeric values are ignored' },
+    { value: 'min', label: 'Numeric min', badge: 'min', description: 'Take the smaller number; non-numeric values are ignored' },
+    { value: 'newer', label: 'Newer by timestamp', badge: 'newer', description: 'Take the value from whichever row has the later timestamp' },
+    { value: 'append', label: 'Append with separator', badge: 'append', description: 'Add the modifications value after the original one' },
+];
+
+export interface MergeOptions {
+    defaultPolicy: MergePolicy;
+    columns: Record<string, MergePolicy>;   // Per-column overrides of the default
+    timestampColumn: string;                // Decides 'newer'; must exist in both files
+    separator: string;                      // Used by 'append'
+}
+
+export const DEFAULT_MERGE_OPTIONS: MergeOptions = {
+    defaultPolicy: 'overwrite',
+    columns: {},
+    timestampColumn: '',
+    separator: '; ',
+};
+
+/**
+ * How one cell of an updated row was decided: recorded for every column where the
+ * modifications file had a different value, whether or not it was taken.
+ */
+export interface CellDecision {
+    policy: MergePolicy;
+    incoming: string;
+    applied: boolean;
+}
+
+export interface RowMerge {
+    row: Record<string, any>;
+    changed: Record<string, string>;          // column -> previous value, for cells that changed
+    decisions: Record<string, CellDecision>;
+}
+
+export function policyInfo(policy: MergePolicy): MergePolicyInfo {
+    return MERGE_POLICIES.find(p => p.value === policy) ?? MERGE_POLICIES[0];
+}
+
+export function policyFor(column: string, options: MergeOptions): MergePolicy {
+    return Object.prototype.hasOwnProperty.call(options.columns, column) ? options.columns[column] : options.defaultPolicy;
+}
+
+/**
+ * Parse a numeric cell, ignoring whitespace (including thousands spaces); null when not a number.
+ */
+export function toNumber(value: string): number | null {
+    const s = value.trim().replace(/\s/g, '');
+    if (s === '') return null;
+    const n = Number(s);
+    return Number.isFinite(n) ? n : null;
+}
+
+/**
+ * Parse a timestamp cell: epoch seconds or milliseconds, or anything Date.parse understands.
+ */
+export function toTime(value: string): number | null {
+    const s = value.trim();
+    if (/^\d{10}$/.test(s)) return Number(s) * 1000;
+    if (/^\d{13}$/.test(s)) return Number(s);
+    const t = Date.parse(s);
+    return Number.isNaN(t) ? null : t;
+}
+
+/**
+ * Whether the modifications row is newer than the original row by the timestamp column;
+ * null when that cannot be told (no column, or neither row has a readable timestamp).
+ */
+function isIncomingNewer(original: Record<string, any>, incoming: Record<string, any>, options: MergeOptions): boolean | null {
+    if (!options.timestampColumn) return null;
+    const before = toTime(String(original[options.timestampColumn] ?? ''));
+    const after = toTime(String(incoming[options.timestampColumn] ?? ''));
+    if (before === null && after === null) return null;
+    if (before === null) return true;
+    if (after === null) return false;
+    return after > before;
+}
+
+/**
+ * Resolve one cell. `newer` only matters for the 'newer' policy; when the rows' age is
+ * unknown it behaves like 'non-empty'.
+ */
+export function mergeCell(policy: MergePolicy, before: string, incoming: string, newer: boolean | null, separator: string): string {
+    const blank = incoming.trim() === '';
+    switch (policy) {
+        case 'overwrite':
+            return incoming;
+        case 'non-empty':
+            return blank ? before : incoming;
+        case 'keep':
+            return before;
+        case 'prefer-longer':
+            return incoming.trim().length > before.trim().length ? incoming : before;
+        case 'max':
+        case 'min': {
+            const a = toNumber(before);
+            const b = toNumber(incoming);
+            if (b === null) return before;
+            if (a === null) return incoming;
+            return (policy === 'max' ? b > a : b < a) ? incoming : before;
+        }
+        case 'newer':
+            if (newer === null) return blank ? before : incoming;
+            return newer ? incoming : before;
+        case 'append': {
+            if (blank) return before;
+            if (before.trim() === '') return incoming;
+            const parts = before.split(separator).map(p => p.trim());
+            return parts.includes(incoming.trim()) ? before : before + separator + incoming;
+        }
+    }
+}
+
+/**
+ * Merge a matched modifications row into an original row over the output columns.
+ * Key columns are always taken as they are in the modifications row.
+ */
+export function mergeRow(
+    original: Record<string, any>,
+    incoming: Record<string, any>,
+    headers: string[],
+    keys: string[],
+    options: MergeOptions
+): RowMerge {
+    const row = { ...original };
+    const changed: Record<string, string> = {};
+    const decisions: Record<string, CellDecision> = {};
+    const newer = isIncomingNewer(original, incoming, options);
+
+    headers.forEach(h => {
+        if (incoming[h] === undefined) return;
+        const before = String(original[h] ?? '');
+        const value = String(incoming[h] ?? '');
+        if (value === before) return;
+
+        const policy = keys.includes(h) ? 'overwrite' : policyFor(h, options);
+        const result = mergeCell(policy, before, value, newer, options.separator);
+        decisions[h] = { policy, incoming: value, applied: result !== before };
+        if (result !== before) {
+            row[h] = result;
+            changed[h] = before;
+        }
+    });
+
+    return { row, changed, decisions };
+}
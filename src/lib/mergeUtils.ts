@@ -0,0 +1,277 @@
+/**
+ * Merge Utilities
+ * Three-way merge of a base file with two edited copies (ours and upstream), matched by key
+ */
+
+import { formatPreservingExport, rowKey, formatRowKey } from './csv';
+import type { ParsedCSV } from './csv';
+import { findKeyIssues } from './keyIssues';
+import type { KeyIssues } from './keyIssues';
+
+export interface ThreeWayOptions {
+    keys: string[];           // Key columns; rows match when all of them match
+}
+
+/**
+ * A change both sides made differently. Cell conflicts name a column; row conflicts
+ * are a row deleted on one side and modified on the other.
+ */
+export type ConflictKind = 'cell' | 'deleted-by-ours' | 'deleted-by-theirs';
+
+export interface MergeConflict {
+    id: string;               // rowKey
+    kind: ConflictKind;
+    column: string | null;    // null for row conflicts
+    base: string;             // Empty when the row is new on both sides
+    ours: string;
+    theirs: string;
+}
+
+/**
+ * Which version settles a conflict. For a row conflict, choosing the deleting side drops
+ * the row; any other choice keeps the modified row.
+ */
+export type Resolution = 'ours' | 'theirs' | 'base';
+
+export interface ThreeWayResult {
+    headers: string[];
+    rows: Record<string, any>[];  // Merged rows in our order (upstream additions last); conflicting cells hold ours
+    conflicts: MergeConflict[];
+    fromOurs: number;         // Cells changed by us (alone, or the same way upstream)
+    fromTheirs: number;       // Cells changed only upstream (applied)
+    added: number;            // Rows added on either side
+    deleted: number;          // Rows deleted without conflict
+}
+
+export interface ResolvedMerge {
+    csv: string;
+    headers: string[];
+    rows: Record<string, any>[];
+    report: Record<string, any>[];    // One entry per conflict, see CONFLICT_REPORT_COLUMNS
+}
+
+export interface ThreeWayKeyIssues {
+    base: KeyIssues;
+    ours: KeyIssues;
+    theirs: KeyIssues;
+}
+
+export const CONFLICT_REPORT_COLUMNS = ['key', 'column', 'kind', 'base_value', 'ours_value', 'theirs_value', 'resolution', 'merged_value'];
+
+/**
+ * Duplicate and blank keys in each of the three files.
+ */
+export function findThreeWayKeyIssues(base: ParsedCSV, ours: ParsedCSV, theirs: ParsedCSV, options: ThreeWayOptions): ThreeWayKeyIssues {
+    return {
+        base: findKeyIssues(base, options.keys),
+        ours: findKeyIssues(ours, options.keys),
+        theirs: findKeyIssues(theirs, options.keys),
+    };
+}
+
+/**
+ * Refuse to merge when a key repeats within a file: rows could not be matched one to one,
+ * and a resolution made for one of them would apply to all.
+ */
+function checkDuplicates(issues: ThreeWayKeyIssues): void {
+    const files: [string, KeyIssues][] = [['The base file', issues.base], ['Our file', issues.ours], ['The upstream file', issues.theirs]];
+    files.forEach(([label, { duplicates }]) => {
+        if (duplicates.length > 0) {
+            throw new Error(`${label} has ${duplicates.length} duplicated key${duplicates.length === 1 ? '' : 's'}; fix them before merging`);
+        }
+    });
+}
+
+/**
+ * Index rows by key; rows with an empty key (part) are left out. Keys are unique (see checkDuplicates).
+ */
+function indexRows(csv: ParsedCSV, keys: string[]): Map<string, Record<string, any>> {
+    const map = new Map<string, Record<string, any>>();
+    csv.rows.forEach(r => {
+        const id = rowKey(r, keys);
+        if (id && !map.has(id)) map.set(id, r);
+    });
+    return map;
+}
+
+/**
+ * Output columns: ours in order, then columns upstream added (present upstream but not in base).
+ */
+function mergeHeaders(base: ParsedCSV, ours: ParsedCSV, theirs: ParsedCSV): string[] {
+    const headers = [...ours.headers];
+    theirs.headers.forEach(h => {
+        if (!headers.includes(h) && !base.headers.includes(h)) headers.push(h);
+    });
+    return headers;
+}
+
+function valueOf(row: Record<string, any> | undefined, column: string, has: boolean, fallback: string): string {
+    if (!row || !has) return fallback;
+    return String(row[column] ?? '');
+}
+
+function rowDiffers(a: Record<string, any>, b: Record<string, any>, headers: string[]): boolean {
+    return headers.some(h => String(a[h] ?? '') !== String(b[h] ?? ''));
+}
+
+/**
+ * Merge ours and upstream against base. A cell changed on one side only takes that change;
+ * a cell changed the same way on both sides is taken once; different changes conflict.
+ * A side that lacks a column has no opinion on it. Rows with a blank key cannot be matched:
+ * ours are kept, and upstream's are added unless the same row is already in base or ours.
+ * Throws when a key repeats within a file.
+ */
+export function computeThreeWayMerge(base: ParsedCSV, ours: ParsedCSV, theirs: ParsedCSV, options: ThreeWayOptions): ThreeWayResult {
+    checkDuplicates(findThreeWayKeyIssues(base, ours, theirs, options));
+    const { keys } = options;
+    const headers = mergeHeaders(base, ours, theirs);
+    const baseMap = indexRows(base, keys);
+    const theirMap = indexRows(theirs, keys);
+    const oursHas = new Set(ours.headers);
+    const theirsHas = new Set(theirs.headers);
+    const baseHas = new Set(base.headers);
+
+    const rows: Record<string, any>[] = [];
+    const conflicts: MergeConflict[] = [];
+    let fromOurs = 0, fromTheirs = 0, added = 0, deleted = 0;
+    const seen = new Set<string>();
+
+    const mergeCells = (id: string, b: Record<string, any> | undefined, o: Record<string, any>, t: Record<string, any>) => {
+        const out: Record<string, any> = { ...o };
+        headers.forEach(h => {
+            const bv = valueOf(b, h, baseHas.has(h), '');
+            const ov = valueOf(o, h, oursHas.has(h), bv);
+            const tv = valueOf(t, h, theirsHas.has(h), bv);
+            if (ov === tv) {
+                out[h] = ov;
+                if (ov !== bv) fromOurs++;
+            } else if (ov === bv) {
+                out[h] = tv;
+                fromTheirs++;
+            } else if (tv === bv) {
+                out[h] = ov;
+                fromOurs++;
+            } else {
+                out[h] = ov;
+                conflicts.push({ id, kind: 'cell', column: h, base: b ? bv : '', ours: ov, theirs: tv });
+            }
+        });
+        return out;
+    };
+
+    ours.rows.forEach(o => {
+        const id = rowKey(o, keys);
+        if (!id) {
+            rows.push(o);
+            return;
+        }
+        seen.add(id);
+        const b = baseMap.get(id);
+        const t = theirMap.get(id);
+
+        if (t) {
+            if (!b) added++;
+            rows.push(mergeCells(id, b, o, t));
+        } else if (!b) {
+            // Added by us only
+            added++;
+            rows.push(o);
+        } else if (rowDiffers(o, b, ours.headers.filter(h => baseHas.has(h)))) {
+            // Deleted upstream, modified by us
+            conflicts.push({ id, kind: 'deleted-by-theirs', column: null, base: '', ours: 'modified', theirs: 'deleted' });
+            rows.push(o);
+        } else {
+            deleted++;
+        }
+    });
+
+    // Blank-key rows by content, to tell rows upstream added from ones it left as they were
+    const content = (r: Record<string, any>) => JSON.stringify(headers.map(h => String(r[h] ?? '')));
+    const blankKeyRows = new Set([...base.rows, ...ours.rows].filter(r => !rowKey(r, keys)).map(content));
+
+    theirs.rows.forEach(t => {
+        const id = rowKey(t, keys);
+        if (!id) {
+            if (!blankKeyRows.has(content(t))) {
+                added++;
+                rows.push(t);
+            }
+            return;
+        }
+        if (seen.has(id)) return;
+        seen.add(id);
+        const b = baseMap.get(id);
+        if (!b) {
+            // Added upstream only
+            added++;
+            rows.push(t);
+        } else if (rowDiffers(t, b, theirs.headers.filter(h => baseHas.has(h)))) {
+            // Deleted by us, modified upstream
+            conflicts.push({ id, kind: 'deleted-by-ours', column: null, base: '', ours: 'deleted', theirs: 'modified' });
+            rows.push(t);
+        } else {
+            deleted++;
+        }
+    });
+
+    // Rows gone from both sides are simply deleted
+    baseMap.forEach((_, id) => {
+        if (!seen.has(id)) deleted++;
+    });
+
+    return { headers, rows, conflicts, fromOurs, fromTheirs, added, deleted };
+}
+
+function resolvedValue(conflict: MergeConflict, resolution: Resolution): string {
+    if (resolution === 'ours') return conflict.ours;
+    if (resolution === 'theirs') return conflict.theirs;
+    return conflict.base;
+}
+
+/**
+ * Apply a resolution to every conflict (by index) and serialize the merged file. Lines
+ * that match ours exactly are written as they are in our file.
+ */
+export function resolveThreeWayMerge(result: ThreeWayResult, resolutions: Resolution[], ours: ParsedCSV, options: ThreeWayOptions): ResolvedMerge {
+    const { keys } = options;
+    const cells = new Map<string, Map<string, string>>();
+    const dropped = new Set<string>();
+    const report: Record<string, any>[] = [];
+
+    result.conflicts.forEach((c, i) => {
+        const resolution = resolutions[i];
+        if (c.kind === 'cell') {
+            const value = resolvedValue(c, resolution);
+            if (!cells.has(c.id)) cells.set(c.id, new Map());
+            cells.get(c.id)!.set(c.column!, value);
+            report.push({
+                key: formatRowKey(c.id), column: c.column, kind: c.kind,
+                base_value: c.base, ours_value: c.ours, theirs_value: c.theirs,
+                resolution, merged_value: value
+            });
+            return;
+        }
+        // Row conflict: the deleting side's choice drops the row
+        const deleting = c.kind === 'deleted-by-ours' ? 'ours' : 'theirs';
+        const drop = resolution === deleting;
+        if (drop) dropped.add(c.id);
+        report.push({
+            key: formatRowKey(c.id), column: '', kind: c.kind,
+            base_value: '', ours_value: c.ours, theirs_value: c.theirs,
+            resolution, merged_value: drop ? 'deleted' : 'kept'
+        });
+    });
+
+    const rows = result.rows
+        .filter(r => !dropped.has(rowKey(r, keys)))
+        .map(r => {
+            const overrides = cells.get(rowKey(r, keys));
+            if (!overrides) return r;
+            const out = { ...r };
+            overrides.forEach((value, column) => { out[column] = value; });
+            return out;
+        });
+
+    const csv = formatPreservingExport(result.headers, rows, ours, keys, new Set());
+    return { csv, headers: result.headers, rows, report };
+}
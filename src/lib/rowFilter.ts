@@ -0,0 +1,201 @@
+/**
+ * Row Filters
+ * Condition groups (column, operator, value) combined with AND/OR, for selecting rows by content
+ */
+
+import { toNumber } from './mergePolicies';
+import { parseDate } from './compareUtils';
+
+export type FilterOperator =
+    | 'equals'
+    | 'not-equals'
+    | 'contains'
+    | 'not-contains'
+    | 'starts-with'
+    | 'ends-with'
+    | 'regex'
+    | 'empty'
+    | 'not-empty'
+    | 'gt'
+    | 'gte'
+    | 'lt'
+    | 'lte'
+    | 'before'
+    | 'after';
+
+/** How an operator reads its value: as text, a number, a date, or not at all. */
+export type OperandKind = 'text' | 'number' | 'date' | 'none';
+
+export interface FilterOperatorInfo {
+    value: FilterOperator;
+    label: string;
+    operand: OperandKind;
+}
+
+export const FILTER_OPERATORS: FilterOperatorInfo[] = [
+    { value: 'equals', label: 'equals', operand: 'text' },
+    { value: 'not-equals', label: 'does not equal', operand: 'text' },
+    { value: 'contains', label: 'contains', operand: 'text' },
+    { value: 'not-contains', label: 'does not contain', operand: 'text' },
+    { value: 'starts-with', label: 'starts with', operand: 'text' },
+    { value: 'ends-with', label: 'ends with', operand: 'text' },
+    { value: 'regex', label: 'matches regex', operand: 'text' },
+    { value: 'empty', label: 'is empty', operand: 'none' },
+    { value: 'not-empty', label: 'is not empty', operand: 'none' },
+    { value: 'gt', label: '>', operand: 'number' },
+    { value: 'gte', label: '≥', operand: 'number' },
+    { value: 'lt', label: '<', operand: 'number' },
+    { value: 'lte', label: '≤', operand: 'number' },
+    { value: 'before', label: 'is before (date)', operand: 'date' },
+    { value: 'after', label: 'is after (date)', operand: 'date' },
+];
+
+export type FilterMatch = 'all' | 'any';
+
+export interface FilterCondition {
+    id: string;
+    column: string;
+    operator: FilterOperator;
+    value: string;
+    caseSensitive: boolean;   // Text operators only
+}
+
+export interface FilterGroup {
+    id: string;
+    match: FilterMatch;       // all = AND, any = OR between the group's conditions
+    conditions: FilterCondition[];
+}
+
+export interface RowFilter {
+    match: FilterMatch;       // How groups combine
+    groups: FilterGroup[];
+}
+
+export function operatorInfo(operator: FilterOperator): FilterOperatorInfo {
+    return FILTER_OPERATORS.find(o => o.value === operator) ?? FILTER_OPERATORS[0];
+}
+
+export function newCondition(column: string): FilterCondition {
+    return { id: crypto.randomUUID(), column, operator: 'equals', value: '', caseSensitive: false };
+}
+
+export function newGroup(column: string): FilterGroup {
+    return { id: crypto.randomUUID(), match: 'all', conditions: [newCondition(column)] };
+}
+
+type Predicate = (row: Record<string, any>) => boolean;
+
+/**
+ * Why a condition cannot be evaluated (missing column, unreadable number or date,
+ * invalid regex), or null when it is usable.
+ */
+export function conditionProblem(condition: FilterCondition, headers: string[]): string | null {
+    if (!headers.includes(condition.column)) return `Column "${condition.column}" is not in the file`;
+    const { operand } = operatorInfo(condition.operator);
+    if (operand === 'number' && toNumber(condition.value) === null) return `"${condition.value}" is not a number`;
+    if (operand === 'date' && parseDate(condition.value, 'auto') === null) return `"${condition.value}" is not a date`;
+    if (condition.operator === 'regex') {
+        try {
+            new RegExp(condition.value, condition.caseSensitive ? '' : 'i');
+        } catch (e) {
+            return `Invalid regex: ${e instanceof Error ? e.message : String(e)}`;
+        }
+    }
+    return null;
+}
+
+/**
+ * First problem in the filter, numbered for the user ("Group 1, condition 2: …"), or null.
+ */
+export function filterProblem(filter: RowFilter, headers: string[]): string | null {
+    if (!filter.groups.some(g => g.conditions.length > 0)) return 'Add at least one condition';
+    for (const [gi, group] of filter.groups.entries()) {
+        for (const [ci, condition] of group.conditions.entries()) {
+            const problem = conditionProblem(condition, headers);
+            if (problem) return `Group ${gi + 1}, condition ${ci + 1}: ${problem}`;
+        }
+    }
+    return null;
+}
+
+function compileCondition(condition: FilterCondition): Predicate {
+    const { column, operator, caseSensitive } = condition;
+    const fold = (s: string) => (caseSensitive ? s : s.toLowerCase());
+    const cell = (row: Record<string, any>) => String(row[column] ?? '');
+    const needle = fold(condition.value);
+
+    switch (operator) {
+        case 'equals': return row => fold(cell(row).trim()) === needle.trim();
+        case 'not-equals': return row => fold(cell(row).trim()) !== needle.trim();
+        case 'contains': return row => fold(cell(row)).includes(needle);
+        case 'not-contains': return row => !fold(cell(row)).includes(needle);
+        case 'starts-with': return row => fold(cell(row).trim()).startsWith(needle.trim());
+        case 'ends-with': return row => fold(cell(row).trim()).endsWith(needle.trim());
+        case 'regex': {
+            const regex = new RegExp(condition.value, caseSensitive ? '' : 'i');
+            return row => regex.test(cell(row));
+        }
+        case 'empty': return row => cell(row).trim() === '';
+        case 'not-empty': return row => cell(row).trim() !== '';
+        case 'gt':
+        case 'gte':
+        case 'lt':
+        case 'lte': {
+            const limit = toNumber(condition.value)!;
+            return row => {
+                const n = toNumber(cell(row));
+                if (n === null) return false;
+                return operator === 'gt' ? n > limit : operator === 'gte' ? n >= limit : operator === 'lt' ? n < limit : n <= limit;
+            };
+        }
+        case 'before':
+        case 'after': {
+            const limit = parseDate(condition.value, 'auto')!;
+            return row => {
+                const t = parseDate(cell(row), 'auto');
+                if (t === null) return false;
+                return operator === 'before' ? t < limit : t > limit;
+            };
+        }
+    }
+}
+
+/**
+ * Build a row predicate. Numeric and date comparisons never match cells that are not
+ * a number or a date. Dates are read as Compare reads them: year-first dates as y-m-d,
+ * other numeric dates month-first unless the first number is over 12. Empty groups are ignored. Throws on the first invalid condition.
+ */
+export function compileFilter(filter: RowFilter, headers: string[]): Predicate {
+    const problem = filterProblem(filter, headers);
+    if (problem) throw new Error(problem);
+
+    const groups = filter.groups
+        .filter(g => g.conditions.length > 0)
+        .map(g => {
+            const predicates = g.conditions.map(compileCondition);
+            return g.match === 'all'
+                ? (row: Record<string, any>) => predicates.every(p => p(row))
+                : (row: Record<string, any>) => predicates.some(p => p(row));
+        });
+    return filter.match === 'all'
+        ? row => groups.every(p => p(row))
+        : row => groups.some(p => p(row));
+}
+
+function describeCondition(condition: FilterCondition): string {
+    const { label, operand } = operatorInfo(condition.operator);
+    return operand === 'none' ? `${condition.column} ${label}` : `${condition.column} ${label} "${condition.value}"`;
+}
+
+/**
+ * Readable form of the filter, e.g. `(status equals "cancelled" AND created_at is before (date) "2024-01-01")`.
+ */
+export function describeFilter(filter: RowFilter): string {
+    const groups = filter.groups
+        .filter(g => g.conditions.length > 0)
+        .map(g => {
+            const text = g.conditions.map(describeCondition).join(g.match === 'all' ? ' AND ' : ' OR ');
+            return g.conditions.length > 1 ? `(${text})` : text;
+        });
+    return groups.join(filter.match === 'all' ? ' AND ' : ' OR ');
+}
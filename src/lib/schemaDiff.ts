@@ -0,0 +1,173 @@
+/**
+ * Schema Diff
+ * Column-level differences between two files: added, removed, renamed and reordered columns
+ */
+
+import type { ParsedCSV, Dataset } from './csv';
+import { headerSimilarity } from './columnMapping';
+
+/**
+ * A base column that likely reappears under another name in the compare file.
+ */
+export interface ColumnRename {
+    from: string;             // Base column
+    to: string;               // Compare column
+    nameScore: number;        // 0..1 header similarity
+    valueOverlap: number;     // 0..1 share of the smaller column's distinct values found in the other
+}
+
+export interface ColumnMove {
+    column: string;           // Base name
+    basePosition: number;     // 1-based
+    comparePosition: number;
+}
+
+export interface SchemaDiff {
+    added: string[];          // Compare-only columns that are not a likely rename
+    removed: string[];        // Base-only columns that are not a likely rename
+    renamed: ColumnRename[];
+    moved: ColumnMove[];      // Shared columns whose order relative to the others changed
+    unchanged: boolean;       // Same columns in the same order
+}
+
+/** Compare column -> base column, for the renames to treat as the same column. */
+export type ColumnRenames = Record<string, string>;
+
+// Rows sampled per column for value overlap, from the preview the page holds
+const SAMPLE_ROWS = 1000;
+// Average of name similarity and value overlap at which a pair counts as a rename
+const RENAME_THRESHOLD = 0.6;
+// Distinct values both columns need before their overlap counts; fewer (true/false, Y/N, 0/1)
+// match between unrelated columns
+const MIN_DISTINCT_VALUES = 5;
+
+function distinctValues(csv: Dataset, column: string): Set<string> {
+    const values = new Set<string>();
+    csv.preview.slice(0, SAMPLE_ROWS).forEach(r => {
+        const v = String(r[column] ?? '').trim();
+        if (v !== '') values.add(v);
+    });
+    return values;
+}
+
+function overlap(a: Set<string>, b: Set<string>): number {
+    if (a.size === 0 || b.size === 0) return 0;
+    const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+    let shared = 0;
+    small.forEach(v => {
+        if (large.has(v)) shared++;
+    });
+    return shared / small.size;
+}
+
+/**
+ * How likely a pair is a rename: the average of name similarity and value overlap, or the
+ * name similarity alone when either column has too few distinct values to compare.
+ */
+function renameScore(nameScore: number, valueOverlap: number, smallerDistinct: number): number {
+    return smallerDistinct >= MIN_DISTINCT_VALUES ? (nameScore + valueOverlap) / 2 : nameScore;
+}
+
+/**
+ * Pair base-only with compare-only columns by their rename score, best pairs first; each
+ * column is used once.
+ */
+function detectRenames(baseCSV: Dataset, compareCSV: Dataset, removed: string[], added: string[]): ColumnRename[] {
+    const compareValues = new Map(added.map(c => [c, distinctValues(compareCSV, c)]));
+    const candidates: { rename: ColumnRename; score: number }[] = [];
+    removed.forEach(from => {
+        const values = distinctValues(baseCSV, from);
+        added.forEach(to => {
+            const other = compareValues.get(to)!;
+            const nameScore = headerSimilarity(from, to);
+            const valueOverlap = overlap(values, other);
+            const score = renameScore(nameScore, valueOverlap, Math.min(values.size, other.size));
+            if (score >= RENAME_THRESHOLD) candidates.push({ rename: { from, to, nameScore, valueOverlap }, score });
+        });
+    });
+
+    candidates.sort((x, y) => y.score - x.score);
+    const usedFrom = new Set<string>();
+    const usedTo = new Set<string>();
+    return candidates.map(c => c.rename).filter(c => {
+        if (usedFrom.has(c.from) || usedTo.has(c.to)) return false;
+        usedFrom.add(c.from);
+        usedTo.add(c.to);
+        return true;
+    });
+}
+
+/**
+ * Longest common subsequence of two short lists, as a set of the kept items.
+ */
+function commonOrder(a: string[], b: string[]): Set<string> {
+    const lengths = a.map(() => new Array<number>(b.length + 1).fill(0));
+    lengths.push(new Array<number>(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+    const kept = new Set<string>();
+    let i = 0, j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            kept.add(a[i]);
+            i++;
+            j++;
+        } else if (lengths[i + 1][j] >= lengths[i][j + 1]) i++;
+        else j++;
+    }
+    return kept;
+}
+
+/**
+ * Schema differences between the base and compare file. Renamed columns count as shared
+ * when looking for reordered columns, which are the fewest columns that must move to turn
+ * the base order into the compare order.
+ */
+export function computeSchemaDiff(baseCSV: Dataset, compareCSV: Dataset): SchemaDiff {
+    const baseSet = new Set(baseCSV.headers);
+    const compareSet = new Set(compareCSV.headers);
+    const baseOnly = baseCSV.headers.filter(h => !compareSet.has(h));
+    const compareOnly = compareCSV.headers.filter(h => !baseSet.has(h));
+
+    const renamed = detectRenames(baseCSV, compareCSV, baseOnly, compareOnly);
+    const renamedFrom = new Set(renamed.map(r => r.from));
+    const renamedTo = new Map(renamed.map(r => [r.to, r.from]));
+
+    // Shared columns in each file's order, under their base names
+    const baseOrder = baseCSV.headers.filter(h => compareSet.has(h) || renamedFrom.has(h));
+    const compareOrder = compareCSV.headers
+        .map(h => (baseSet.has(h) ? h : renamedTo.get(h)))
+        .filter((h): h is string => h !== undefined);
+    const kept = commonOrder(baseOrder, compareOrder);
+    const moved = baseOrder
+        .filter(h => !kept.has(h))
+        .map(column => ({ column, basePosition: baseOrder.indexOf(column) + 1, comparePosition: compareOrder.indexOf(column) + 1 }));
+
+    const added = compareOnly.filter(h => !renamedTo.has(h));
+    const removed = baseOnly.filter(h => !renamedFrom.has(h));
+    return {
+        added, removed, renamed, moved,
+        unchanged: baseCSV.headers.length === compareCSV.headers.length && baseCSV.headers.every((h, i) => h === compareCSV.headers[i])
+    };
+}
+
+/**
+ * The file with its columns renamed (compare name -> base name), so that renamed columns
+ * line up with the base file's. Renames onto a column the file already has are skipped.
+ */
+export function renameColumns(csv: ParsedCSV, renames: ColumnRenames): ParsedCSV {
+    const present = new Set(csv.headers);
+    const active = Object.entries(renames).filter(([from, to]) => present.has(from) && !present.has(to));
+    if (active.length === 0) return csv;
+
+    const map = new Map(active);
+    const rename = (h: string) => map.get(h) ?? h;
+    return {
+        ...csv,
+        headers: csv.headers.map(rename),
+        rows: csv.rows.map(r => Object.fromEntries(Object.entries(r).map(([k, v]) => [rename(k), v])))
+    };
+}
@@ -0,0 +1,400 @@
+/**
+ * Upsert Utilities
+ * Matching original rows against a modifications file, previewing and applying changes
+ */
+
+import { formatPreservingExport, rowKey, formatRowKey } from './csv';
+import type { ParsedCSV } from './csv';
+import { applyColumnMapping } from './columnMapping';
+import type { ColumnMapping } from './columnMapping';
+import { mergeRow, DEFAULT_MERGE_OPTIONS } from './mergePolicies';
+import type { MergeOptions, CellDecision, RowMerge } from './mergePolicies';
+import { findKeyIssues, mergeDuplicateRows } from './keyIssues';
+import type { DuplicatePolicy, KeyIssues } from './keyIssues';
+
+export type HeaderMode = 'original' | 'union';
+
+/**
+ * Full sync: the modifications file is a complete snapshot, so original rows missing from it
+ * are dropped ('delete') or marked by writing `flagValue` into `flagColumn` ('flag').
+ */
+export type SyncMode = 'off' | 'delete' | 'flag';
+
+export interface SyncOptions {
+    mode: SyncMode;
+    flagColumn: string;       // Added at the end when the original doesn't have it
+    flagValue: string;
+}
+
+export const DEFAULT_SYNC_OPTIONS: SyncOptions = {
+    mode: 'off',
+    flagColumn: 'deleted',
+    flagValue: 'true',
+};
+
+export interface UpsertOptions {
+    keys: string[];           // Key columns; rows match when all of them match
+    headerMode: HeaderMode;
+    mapping?: ColumnMapping;  // Renames/ignores modifications columns before matching (keys refer to mapped names)
+    merge?: MergeOptions;     // Per-column merge policies for matched rows; plain overwrite when omitted
+    sync?: SyncOptions;       // Delete or flag rows missing from the modifications file
+    duplicates?: DuplicateResolution;
+    insertBlankKeys?: boolean;    // Append modification rows with an empty key as new rows instead of ignoring them
+    review?: UpsertReview;    // Changes turned down in the preview
+}
+
+/**
+ * Changes turned down while reviewing the preview, by rowKey. A rejected update keeps the
+ * original row, a rejected insert is not added, and a rejected delete (or flag) keeps the row
+ * as it is. Reverted cells of an update keep their original value.
+ */
+export interface UpsertReview {
+    rejected: string[];
+    reverted: Record<string, string[]>;   // rowKey -> columns
+}
+
+/**
+ * How duplicate keys are resolved in each file. By default the first original row with a key
+ * is the one updated, and the last modification row for a key is the one applied.
+ */
+export interface DuplicateResolution {
+    original: DuplicatePolicy;
+    mods: DuplicatePolicy;
+}
+
+export const DEFAULT_DUPLICATE_RESOLUTION: DuplicateResolution = { original: 'first', mods: 'last' };
+
+export interface UpsertKeyIssues {
+    original: KeyIssues;
+    mods: KeyIssues;          // Found under the mapped column names; row numbers refer to the modifications file
+}
+
+export interface UpsertPreview {
+    updates: Record<string, any>[];
+    inserts: Record<string, any>[];
+    deletes: Record<string, any>[];   // Original rows missing from the modifications file (sync mode), as they will be written; rows already flagged are left out
+    changedById: Map<string, Record<string, string>>;   // rowKey -> { column: previous value }
+    decisionsById: Map<string, Record<string, CellDecision>>;   // rowKey -> { column: how the merge policy decided }
+    keptByPolicy: number;     // Matched rows whose differences were all rejected by merge policies
+    headersOut: string[];
+}
+
+export interface UpsertResult {
+    csv: string;
+    headers: string[];
+    rows: Record<string, any>[];
+    updated: number;
+    inserted: number;
+    deleted: number;          // Rows dropped, or newly flagged in flag mode
+    changeLog: ChangeLogEntry[];
+}
+
+export type ChangeAction = 'update' | 'insert' | 'delete';
+
+/**
+ * One changed cell of an upsert, in long format. Inserted and deleted rows are logged
+ * column by column with their non-empty values; flagging a row is logged as an update.
+ */
+export interface ChangeLogEntry {
+    key: string;              // Readable key (composite keys joined with " | ")
+    column: string;
+    old_value: string;
+    new_value: string;
+    action: ChangeAction;
+}
+
+export const CHANGE_LOG_COLUMNS: (keyof ChangeLogEntry)[] = ['key', 'column', 'old_value', 'new_value', 'action'];
+
+/**
+ * Output columns: the original header order, plus (in union mode) new columns from the modifications
+ * file, plus the flag column in flag sync mode.
+ */
+export function buildOutputHeaders(original: ParsedCSV, mods: ParsedCSV, headerMode: HeaderMode, sync?: SyncOptions): string[] {
+    const headersOut = [...original.headers];
+    if (headerMode === 'union') {
+        const seen = new Set(headersOut);
+        mods.headers.forEach(h => {
+            if (!seen.has(h)) { headersOut.push(h); seen.add(h); }
+        });
+    }
+    if (sync?.mode === 'flag' && sync.flagColumn && !headersOut.includes(sync.flagColumn)) {
+        headersOut.push(sync.flagColumn);
+    }
+    return headersOut;
+}
+
+/**
+ * Flag a row missing from the snapshot. Returns the flagged copy and the previous flag value,
+ * or null when the row is already flagged.
+ */
+function flagRow(row: Record<string, any>, sync: SyncOptions): { row: Record<string, any>; previous: string } | null {
+    const previous = String(row[sync.flagColumn] ?? '');
+    if (previous === sync.flagValue) return null;
+    return { row: { ...row, [sync.flagColumn]: sync.flagValue }, previous };
+}
+
+/**
+ * In flag mode, a row that is back in the snapshot loses its flag, unless the modifications
+ * file sets the flag column itself.
+ */
+function unflagRow(merged: RowMerge, mods: ParsedCSV, sync: SyncOptions | undefined): RowMerge {
+    if (sync?.mode !== 'flag' || mods.headers.includes(sync.flagColumn)) return merged;
+    const current = String(merged.row[sync.flagColumn] ?? '');
+    if (current !== sync.flagValue) return merged;
+    return {
+        ...merged,
+        row: { ...merged.row, [sync.flagColumn]: '' },
+        changed: { ...merged.changed, [sync.flagColumn]: current },
+    };
+}
+
+/**
+ * Index modification rows by key, resolving duplicates by policy. Rows with an empty key (part) are left out.
+ */
+function buildModMap(mods: ParsedCSV, keys: string[], policy: DuplicatePolicy): Map<string, Record<string, any>> {
+    const modMap = new Map<string, Record<string, any>>();
+    mods.rows.forEach(r => {
+        const id = rowKey(r, keys);
+        if (!id) return;
+        const previous = modMap.get(id);
+        if (!previous || policy === 'last') modMap.set(id, r);
+        else if (policy === 'merge') modMap.set(id, mergeDuplicateRows(previous, r));
+    });
+    return modMap;
+}
+
+interface OriginalRows {
+    rows: Record<string, any>[];
+    targets: boolean[];       // Whether each row is the one matched for its key
+    collapsed: Set<string>;   // Keys whose duplicate rows were merged into one
+}
+
+/**
+ * Decide which original row is matched for each key. With 'merge', duplicates are folded
+ * into the first row with the key and the later ones are dropped.
+ */
+function resolveOriginalRows(original: ParsedCSV, keys: string[], policy: DuplicatePolicy): OriginalRows {
+    const target = new Map<string, number>();
+    original.rows.forEach((r, i) => {
+        const id = rowKey(r, keys);
+        if (id && (policy === 'last' || !target.has(id))) target.set(id, i);
+    });
+    if (policy !== 'merge') {
+        return {
+            rows: original.rows,
+            targets: original.rows.map((r, i) => target.get(rowKey(r, keys)) === i),
+            collapsed: new Set(),
+        };
+    }
+
+    const rows: Record<string, any>[] = [];
+    const at = new Map<string, number>();
+    const collapsed = new Set<string>();
+    original.rows.forEach(r => {
+        const id = rowKey(r, keys);
+        if (id && at.has(id)) {
+            rows[at.get(id)!] = mergeDuplicateRows(rows[at.get(id)!], r);
+            collapsed.add(id);
+            return;
+        }
+        if (id) at.set(id, rows.length);
+        rows.push(r);
+    });
+    return { rows, targets: rows.map(r => !!rowKey(r, keys)), collapsed };
+}
+
+function applyMapping(sourceMods: ParsedCSV, options: UpsertOptions): ParsedCSV {
+    return options.mapping ? applyColumnMapping(sourceMods, options.mapping) : sourceMods;
+}
+
+/**
+ * Duplicate and blank keys in both files, under the key columns as mapped.
+ */
+export function findUpsertKeyIssues(original: ParsedCSV, sourceMods: ParsedCSV, options: UpsertOptions): UpsertKeyIssues {
+    return {
+        original: findKeyIssues(original, options.keys),
+        mods: findKeyIssues(applyMapping(sourceMods, options), options.keys),
+    };
+}
+
+/**
+ * Refuse to continue when a file has duplicate keys and its policy is 'abort'.
+ */
+function checkDuplicates(original: ParsedCSV, mods: ParsedCSV, options: UpsertOptions): DuplicateResolution {
+    const resolution = options.duplicates ?? DEFAULT_DUPLICATE_RESOLUTION;
+    const files: [string, ParsedCSV, DuplicatePolicy][] = [
+        ['original', original, resolution.original],
+        ['modifications', mods, resolution.mods],
+    ];
+    files.forEach(([label, csv, policy]) => {
+        if (policy !== 'abort') return;
+        const { duplicates } = findKeyIssues(csv, options.keys);
+        if (duplicates.length > 0) {
+            throw new Error(`The ${label} file has ${duplicates.length} duplicated key${duplicates.length === 1 ? '' : 's'}; choose how to resolve them`);
+        }
+    });
+    return resolution;
+}
+
+function blankKeyRows(mods: ParsedCSV, keys: string[]): Record<string, any>[] {
+    return mods.rows.filter(r => !rowKey(r, keys));
+}
+
+function revertCells(merged: RowMerge, original: Record<string, any>, columns: string[]): RowMerge {
+    const row = { ...merged.row };
+    const changed = { ...merged.changed };
+    columns.forEach(h => {
+        if (!Object.prototype.hasOwnProperty.call(changed, h)) return;
+        row[h] = original[h];
+        delete changed[h];
+    });
+    return { ...merged, row, changed };
+}
+
+function logChanges(log: ChangeLogEntry[], id: string, changed: Record<string, string>, row: Record<string, any>): void {
+    Object.entries(changed).forEach(([column, before]) => {
+        log.push({ key: formatRowKey(id), column, old_value: before, new_value: String(row[column] ?? ''), action: 'update' });
+    });
+}
+
+function logRow(log: ChangeLogEntry[], id: string, row: Record<string, any>, headers: string[], action: 'insert' | 'delete'): void {
+    headers.forEach(column => {
+        const value = String(row[column] ?? '');
+        if (value === '') return;
+        log.push({
+            key: formatRowKey(id),
+            column,
+            old_value: action === 'delete' ? value : '',
+            new_value: action === 'insert' ? value : '',
+            action
+        });
+    });
+}
+
+/**
+ * Compute which rows would be updated (with their previous values) and which inserted.
+ */
+export function computeUpsertPreview(original: ParsedCSV, sourceMods: ParsedCSV, options: UpsertOptions): UpsertPreview {
+    const { keys, headerMode, sync } = options;
+    const mods = applyMapping(sourceMods, options);
+    const resolution = checkDuplicates(original, mods, options);
+    const headersOut = buildOutputHeaders(original, mods, headerMode, sync);
+    const modMap = buildModMap(mods, keys, resolution.mods);
+    const snapshot = new Set(modMap.keys());
+    const resolved = resolveOriginalRows(original, keys, resolution.original);
+
+    const deletes: Record<string, any>[] = [];
+    const updates: Record<string, any>[] = [];
+    const inserts: Record<string, any>[] = [];
+    const changedById = new Map<string, Record<string, string>>();
+    const decisionsById = new Map<string, Record<string, CellDecision>>();
+    let keptByPolicy = 0;
+
+    resolved.rows.forEach((or, i) => {
+        const id = rowKey(or, keys);
+        if (id && resolved.targets[i] && modMap.has(id)) {
+            const merged = unflagRow(mergeRow(or, modMap.get(id)!, headersOut, keys, options.merge ?? DEFAULT_MERGE_OPTIONS), mods, sync);
+            // Only count as update if there are actual changes
+            if (Object.keys(merged.changed).length > 0) {
+                changedById.set(id, merged.changed);
+                decisionsById.set(id, merged.decisions);
+                updates.push(merged.row);
+            } else if (Object.keys(merged.decisions).length > 0) {
+                keptByPolicy++;
+            }
+            modMap.delete(id);
+        } else if (id && !snapshot.has(id) && sync && sync.mode !== 'off') {
+            if (sync.mode === 'delete') {
+                deletes.push(or);
+                return;
+            }
+            // Rows flagged by an earlier sync are left as they are
+            const flagged = flagRow(or, sync);
+            if (flagged) {
+                changedById.set(id, { [sync.flagColumn]: flagged.previous });
+                deletes.push(flagged.row);
+            }
+        }
+    });
+
+    for (const [, r] of modMap) {
+        inserts.push(r);
+    }
+    if (options.insertBlankKeys) inserts.push(...blankKeyRows(mods, keys));
+
+    return { updates, inserts, deletes, changedById, decisionsById, keptByPolicy, headersOut };
+}
+
+/**
+ * Apply the upsert and serialize the result. Unchanged rows stay byte-identical.
+ */
+export function runUpsert(original: ParsedCSV, sourceMods: ParsedCSV, options: UpsertOptions): UpsertResult {
+    const { keys, headerMode, sync } = options;
+    const mods = applyMapping(sourceMods, options);
+    const resolution = checkDuplicates(original, mods, options);
+    const headersOut = buildOutputHeaders(original, mods, headerMode, sync);
+    const modMap = buildModMap(mods, keys, resolution.mods);
+    const snapshot = new Set(modMap.keys());
+    const resolved = resolveOriginalRows(original, keys, resolution.original);
+
+    let updated = 0, inserted = 0, deleted = 0;
+    const changedKeys = new Set(resolved.collapsed);  // Track which rows changed; merged duplicates are rebuilt
+    const changeLog: ChangeLogEntry[] = [];
+    const rejected = new Set(options.review?.rejected ?? []);
+    const reverted = options.review?.reverted ?? {};
+
+    const outRows: Record<string, any>[] = [];
+    resolved.rows.forEach((r, i) => {
+        const id = rowKey(r, keys);
+        if (id && resolved.targets[i] && modMap.has(id)) {
+            let merged = unflagRow(mergeRow(r, modMap.get(id)!, headersOut, keys, options.merge ?? DEFAULT_MERGE_OPTIONS), mods, sync);
+            modMap.delete(id);
+            if (rejected.has(id)) merged = { ...merged, row: r, changed: {} };
+            else if (Object.prototype.hasOwnProperty.call(reverted, id)) merged = revertCells(merged, r, reverted[id]);
+            // Only count as update if the merge policies (and the review) changed something
+            if (Object.keys(merged.changed).length > 0) {
+                changedKeys.add(id);  // Mark as changed
+                updated++;
+                logChanges(changeLog, id, merged.changed, merged.row);
+                outRows.push(merged.row);
+                return;
+            }
+        } else if (id && !snapshot.has(id) && sync && sync.mode !== 'off' && !rejected.has(id)) {
+            // Missing from the snapshot: drop it, or flag it in place (unless an earlier sync did)
+            if (sync.mode === 'delete') {
+                deleted++;
+                logRow(changeLog, id, r, original.headers, 'delete');
+                return;
+            }
+            const flagged = flagRow(r, sync);
+            if (flagged) {
+                deleted++;
+                changedKeys.add(id);
+                logChanges(changeLog, id, { [sync.flagColumn]: flagged.previous }, flagged.row);
+                outRows.push(flagged.row);
+                return;
+            }
+        }
+        outRows.push({ ...r }); // shallow clone
+    });
+
+    // Insert new rows (all marked as changed since they're new)
+    for (const [id, r] of modMap) {
+        if (rejected.has(id)) continue;
+        outRows.push(r);
+        changedKeys.add(id);
+        logRow(changeLog, id, r, headersOut, 'insert');
+        inserted++;
+    }
+    if (options.insertBlankKeys) {
+        blankKeyRows(mods, keys).forEach(r => {
+            outRows.push(r);
+            logRow(changeLog, '', r, headersOut, 'insert');
+            inserted++;
+        });
+    }
+
+    // Format-preserving export: unchanged rows stay byte-identical
+    const csv = formatPreservingExport(headersOut, outRows, original, keys, changedKeys);
+    return { csv, headers: headersOut, rows: outRows, updated, inserted, deleted, changeLog };
+}
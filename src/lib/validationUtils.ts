@@ -138,6 +138,11 @@ export function validateValue(value: any, rule: ValidationRule, row?: any): stri
     return null;
 }
 
+function rowIdOf(row: any, index: number, keyColumn?: string): string {
+    // Use provided key column or fallback to row index (1-based for readability)
+    return keyColumn ? String(row[keyColumn] ?? '') : `Row ${index + 1}`;
+}
+
 export function validateDataset(
     rows: any[],
     rules: ValidationRule[],
@@ -148,8 +153,7 @@ export function validateDataset(
 
     rows.forEach((row, index) => {
         let rowHasError = false;
-        // Use provided key column or fallback to row index (1-based for readability)
-        const rowId = keyColumn ? String(row[keyColumn] ?? '') : `Row ${index + 1}`;
+        const rowId = rowIdOf(row, index, keyColumn);
 
         for (const rule of rules) {
             const errorMsg = validateValue(row[rule.column], rule, row);
@@ -182,3 +186,30 @@ export function validateDataset(
         rowsWithErrors
     };
 }
+
+/**
+ * Copy of the data with _validation_status (ERROR / WARNING / OK) and _validation_issues
+ * columns, for exporting the report next to the rows it describes.
+ */
+export function annotateRows(
+    rows: any[],
+    result: ValidationResult,
+    keyColumn?: string
+): Record<string, any>[] {
+    const byRow = new Map<string, ValidationError[]>();
+    result.errors.forEach(e => {
+        const list = byRow.get(e.rowId) ?? [];
+        list.push(e);
+        byRow.set(e.rowId, list);
+    });
+
+    return rows.map((row, index) => {
+        const issues = byRow.get(rowIdOf(row, index, keyColumn)) ?? [];
+        const status = issues.some(e => e.severity === 'error') ? 'ERROR' : issues.length > 0 ? 'WARNING' : 'OK';
+        return {
+            _validation_status: status,
+            _validation_issues: issues.map(e => `${e.column}: ${e.message}`).join('; '),
+            ...row
+        };
+    });
+}
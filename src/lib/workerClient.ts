@@ -0,0 +1,224 @@
+/**
+ * Worker Client
+ * Main-thread side of the background worker: starts tasks, relays progress and supports cancellation
+ */
+
+import { needsReparse } from './csv';
+import type { Dataset, CSVDialect, MalformedRowPolicy, ProgressCallback, FileReadOptions } from './csv';
+import type { WorkerTaskName, PageTaskArgs, TaskResult, DatasetRef, WorkerRequest, WorkerResponse } from './workerTasks';
+
+export class TaskCancelledError extends Error {
+    constructor() {
+        super('Task cancelled');
+        this.name = 'TaskCancelledError';
+    }
+}
+
+export interface TaskHandle<T> {
+    promise: Promise<T>;
+    cancel: () => void;
+}
+
+interface PendingTask {
+    resolve: (value: any) => void;
+    reject: (reason: Error) => void;
+    onProgress?: ProgressCallback;
+}
+
+let worker: Worker | null = null;
+let generation = 0;     // Bumped whenever the worker is replaced; handles from older generations are dead
+let nextId = 0;
+const pending = new Map<number, PendingTask>();
+
+// Handles of datasets held on the main thread when workers are unavailable
+const INLINE_PREFIX = 'inline:';
+
+/**
+ * Drop the stored copy of a dataset, in the worker or in the main-thread fallback.
+ */
+function release(handle: string) {
+    if (handle.startsWith(INLINE_PREFIX)) {
+        import('./workerTasks').then(m => m.releaseDataset(handle));
+    } else if (worker && handle.startsWith(`${generation}:`)) {
+        worker.postMessage({ id: -1, type: 'release', handle } satisfies WorkerRequest);
+    }
+}
+
+// Drop a stored dataset once the page no longer references its summary
+const releaseRegistry = typeof FinalizationRegistry === 'undefined' ? null : new FinalizationRegistry<string>(release);
+
+function handleMessage(e: MessageEvent<WorkerResponse>) {
+    const msg = e.data;
+    const task = pending.get(msg.id);
+    if (!task) return;
+
+    if (msg.type === 'progress') {
+        task.onProgress?.(msg.progress);
+        return;
+    }
+    pending.delete(msg.id);
+    if (msg.type === 'result') task.resolve(msg.result);
+    else task.reject(new Error(msg.message));
+}
+
+function getWorker(): Worker | null {
+    if (typeof Worker === 'undefined') return null;
+    if (!worker) {
+        worker = new Worker(new URL('./csv.worker.ts', import.meta.url), { type: 'module' });
+        worker.onmessage = handleMessage;
+        worker.onerror = (e) => {
+            e.preventDefault();
+            resetWorker(new Error(e.message || 'Background worker crashed'));
+        };
+    }
+    return worker;
+}
+
+/**
+ * Terminate the worker, failing everything in flight. A fresh worker is started on the next request.
+ */
+function resetWorker(reason: Error) {
+    worker?.terminate();
+    worker = null;
+    generation++;
+    const tasks = [...pending.values()];
+    pending.clear();
+    tasks.forEach(t => t.reject(reason));
+}
+
+/**
+ * Post a request and track its response. Cancelling settles the request at once and asks
+ * the worker to stop it: file reads stop at the next chunk and queued tasks are skipped,
+ * while a task already running finishes and its result is dropped. Other requests and
+ * the datasets the worker holds are not affected.
+ */
+function startWorkerTask<T>(w: Worker, request: WorkerRequest, onProgress?: ProgressCallback): TaskHandle<T> {
+    const promise = new Promise<T>((resolve, reject) => {
+        pending.set(request.id, { resolve, reject, onProgress });
+    });
+    w.postMessage(request);
+    return {
+        promise,
+        cancel: () => {
+            const task = pending.get(request.id);
+            if (!task) return;
+            pending.delete(request.id);
+            w.postMessage({ id: -1, type: 'cancel', target: request.id } satisfies WorkerRequest);
+            task.reject(new TaskCancelledError());
+        }
+    };
+}
+
+/**
+ * Main-thread fallback: run the work after yielding once so progress can render.
+ * Cancellation aborts the signal (file reads stop between chunks) and discards the
+ * result. The task modules (and the spreadsheet library they pull in) are loaded on
+ * demand to keep them out of the main bundle.
+ */
+function startInlineTask<T>(work: (signal: AbortSignal) => Promise<T> | T): TaskHandle<T> {
+    const controller = new AbortController();
+    const { signal } = controller;
+    const promise = new Promise<void>(resolve => setTimeout(resolve, 0))
+        .then(() => {
+            signal.throwIfAborted();
+            return work(signal);
+        })
+        .then(result => {
+            signal.throwIfAborted();
+            return result;
+        })
+        .catch(err => {
+            throw signal.aborted ? new TaskCancelledError() : err;
+        });
+    return { promise, cancel: () => controller.abort() };
+}
+
+function newHandle(w: Worker | null): string {
+    return w ? `${generation}:${nextId++}` : `${INLINE_PREFIX}${nextId++}`;
+}
+
+/**
+ * Tie a task that stores a dataset under `handle` to the page's summary of it: the copy is
+ * released when the summary is garbage collected, or when the task is cancelled (a task that
+ * completed before the cancel arrived has already stored it).
+ */
+function holdDataset(task: TaskHandle<Dataset>, handle: string): TaskHandle<Dataset> {
+    let settled = false;
+    const promise = task.promise.then(dataset => {
+        releaseRegistry?.register(dataset.preview, handle);
+        return dataset;
+    }).finally(() => { settled = true; });
+    return {
+        promise,
+        cancel: () => {
+            if (settled) return;
+            task.cancel();
+            release(handle);
+        }
+    };
+}
+
+/**
+ * Read and parse a file in the background worker. The worker keeps the rows and raw
+ * records; the page gets a Dataset summary that tasks accept in place of the data.
+ */
+export function parseFileInBackground(file: File, options: FileReadOptions = {}, onProgress?: ProgressCallback): TaskHandle<Dataset> {
+    const w = getWorker();
+    const handle = newHandle(w);
+    const task = w
+        ? startWorkerTask<Dataset>(w, { id: nextId++, type: 'parse', handle, file, options }, onProgress)
+        : startInlineTask(signal => import('./workerTasks').then(m => m.loadFile(handle, file, options, onProgress, signal)));
+    return holdDataset(task, handle);
+}
+
+/**
+ * Apply a dialect or malformed-row policy override to a dataset (see reparseCSV). Output-only
+ * changes are applied to the summary at once; otherwise the stored records are re-parsed into
+ * a new dataset, with a new handle.
+ */
+export function reparseInBackground(csv: Dataset, dialect: CSVDialect, rowPolicy?: MalformedRowPolicy, onProgress?: ProgressCallback): TaskHandle<Dataset> {
+    if (!needsReparse(csv, dialect, rowPolicy)) {
+        return { promise: Promise.resolve({ ...csv, dialect }), cancel: () => undefined };
+    }
+    const handle = newHandle(getWorker());
+    const task = runBackgroundTask('reparse', { csv, dialect, rowPolicy: rowPolicy ?? csv.diagnostics.policy, handle }, onProgress);
+    // The file handle is the page's; the worker never sees it
+    return holdDataset({ ...task, promise: task.promise.then(next => ({ ...next, fileHandle: csv.fileHandle })) }, handle);
+}
+
+function isDataset(value: unknown): value is Dataset {
+    return typeof value === 'object' && value !== null && 'handle' in value && 'preview' in value;
+}
+
+/**
+ * Replace dataset summaries with lightweight references to the stored copies.
+ */
+function toWorkerArgs(args: object): Record<string, unknown> {
+    const out: Record<string, unknown> = {};
+    for (const [name, value] of Object.entries(args)) {
+        if (isDataset(value)) {
+            const ref: DatasetRef = { handle: value.handle, name: value.name, dialect: value.dialect, encoding: value.encoding };
+            out[name] = ref;
+        } else {
+            out[name] = value;
+        }
+    }
+    return out;
+}
+
+/**
+ * Run a registered task (see workerTasks.ts) in the background worker.
+ */
+export function runBackgroundTask<K extends WorkerTaskName>(
+    name: K,
+    args: PageTaskArgs<K>,
+    onProgress?: ProgressCallback
+): TaskHandle<TaskResult<K>> {
+    const w = getWorker();
+    if (!w) {
+        onProgress?.({ phase: 'processing', loaded: 0, total: 0 });
+        return startInlineTask(() => import('./workerTasks').then(m => m.runTask(name, toWorkerArgs(args))));
+    }
+
+    return startWorkerTask<TaskResult<K>>(w, { id: nextId++, type: 'task', name, args: toWorkerArgs(args) }, onProgress);
+}
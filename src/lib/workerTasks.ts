@@ -0,0 +1,166 @@
+/**
+ * Worker Tasks
+ * Registry of heavy operations that run in the background worker, and the message protocol around them
+ */
+
+import { parseCSVFile, reparseCSV, summarizeCSV } from './csv';
+import type { ParsedCSV, Dataset, CSVDialect, MalformedRowPolicy, ProgressInfo, ProgressCallback, FileReadOptions } from './csv';
+import { computeUpsertPreview, runUpsert, findUpsertKeyIssues } from './upsertUtils';
+import type { UpsertOptions, UpsertPreview, UpsertResult, UpsertKeyIssues } from './upsertUtils';
+import { computeDeletePreview, runDelete, computeFilterDeletePreview, runFilterDelete, idsFromColumn } from './deleteUtils';
+import type { CleanIds, IdListOptions, DeleteOptions, FilterDeleteOptions, DeletePreview, DeleteResult } from './deleteUtils';
+import { computeDiff } from './compareUtils';
+import type { CompareOptions, DiffResult } from './compareUtils';
+import { computeThreeWayMerge, findThreeWayKeyIssues, resolveThreeWayMerge } from './mergeUtils';
+import type { ThreeWayOptions, ThreeWayResult, ThreeWayKeyIssues, Resolution, ResolvedMerge } from './mergeUtils';
+import { keyIssueRows } from './keyIssues';
+import type { KeyIssues } from './keyIssues';
+import { validateDataset, annotateRows } from './validationUtils';
+import type { ValidationRule, ValidationResult } from './validationUtils';
+import { previewCleaning, exportCleaning } from './cleaningUtils';
+import type { CleaningOperation, CleaningPreview } from './cleaningUtils';
+import { serializeExport } from './exportFormats';
+import type { ExportSource, ExportOptions } from './exportFormats';
+import { isSpreadsheetFile, parseSpreadsheetFile, buildWorkbook } from './xlsx';
+import { isJsonFile, parseJsonFile } from './json';
+
+/**
+ * Arguments and result of every task. The page passes datasets as their Dataset summary,
+ * which travels to the worker as a DatasetRef and is resolved to the stored copy there.
+ */
+export interface WorkerTaskMap {
+    reparse: { args: { csv: ParsedCSV; dialect: CSVDialect; rowPolicy: MalformedRowPolicy; handle: string }; result: Dataset };
+    keyIssueRows: { args: { csv: ParsedCSV; issues: KeyIssues }; result: Record<string, any>[] };
+    upsertKeyIssues: { args: { original: ParsedCSV; mods: ParsedCSV; options: UpsertOptions }; result: UpsertKeyIssues };
+    upsertPreview: { args: { original: ParsedCSV; mods: ParsedCSV; options: UpsertOptions }; result: UpsertPreview };
+    upsertRun: { args: { original: ParsedCSV; mods: ParsedCSV; options: UpsertOptions }; result: UpsertResult };
+    deletePreview: { args: { original: ParsedCSV; ids: CleanIds; options: DeleteOptions }; result: DeletePreview };
+    deleteRun: { args: { original: ParsedCSV; ids: CleanIds; options: DeleteOptions }; result: DeleteResult };
+    filterDeletePreview: { args: { original: ParsedCSV; options: FilterDeleteOptions }; result: DeletePreview };
+    filterDeleteRun: { args: { original: ParsedCSV; options: FilterDeleteOptions }; result: DeleteResult };
+    idsFromColumn: { args: { csv: ParsedCSV; column: string; options: IdListOptions }; result: CleanIds };
+    compareDiff: { args: { base: ParsedCSV; compare: ParsedCSV; options: CompareOptions }; result: DiffResult };
+    threeWayKeyIssues: { args: { base: ParsedCSV; ours: ParsedCSV; theirs: ParsedCSV; options: ThreeWayOptions }; result: ThreeWayKeyIssues };
+    threeWayMerge: { args: { base: ParsedCSV; ours: ParsedCSV; theirs: ParsedCSV; options: ThreeWayOptions }; result: ThreeWayResult };
+    threeWayResolve: { args: { result: ThreeWayResult; resolutions: Resolution[]; ours: ParsedCSV; options: ThreeWayOptions }; result: ResolvedMerge };
+    validate: { args: { csv: ParsedCSV; rules: ValidationRule[]; keyColumn: string }; result: ValidationResult };
+    validationRows: { args: { csv: ParsedCSV; result: ValidationResult; keyColumn: string }; result: Record<string, any>[] };
+    cleanPreview: { args: { csv: ParsedCSV; operations: CleaningOperation[] }; result: CleaningPreview };
+    cleanExport: { args: { csv: ParsedCSV; operations: CleaningOperation[]; columns: string[] }; result: { headers: string[]; rows: Record<string, any>[]; csv: string } };
+    serializeExport: { args: { source: ExportSource; options: ExportOptions }; result: string | Uint8Array };
+}
+
+export type WorkerTaskName = keyof WorkerTaskMap;
+export type TaskArgs<K extends WorkerTaskName> = WorkerTaskMap[K]['args'];
+export type TaskResult<K extends WorkerTaskName> = WorkerTaskMap[K]['result'];
+
+/**
+ * Task arguments as the page passes them, with Dataset summaries in place of datasets.
+ */
+export type PageTaskArgs<K extends WorkerTaskName> = {
+    [P in keyof TaskArgs<K>]: TaskArgs<K>[P] extends ParsedCSV ? Dataset : TaskArgs<K>[P];
+};
+
+/**
+ * Stand-in for a dataset the worker already holds. Dialect and encoding travel
+ * along because the UI may have changed them since parsing.
+ */
+export interface DatasetRef {
+    handle: string;
+    name: string;
+    dialect: CSVDialect;
+    encoding: string;
+}
+
+export type WorkerRequest =
+    | { id: number; type: 'parse'; handle: string; file: File; options: FileReadOptions }
+    | { id: number; type: 'task'; name: WorkerTaskName; args: Record<string, unknown> }
+    | { id: number; type: 'release'; handle: string }
+    | { id: number; type: 'cancel'; target: number };
+
+export type WorkerResponse =
+    | { id: number; type: 'progress'; progress: ProgressInfo }
+    | { id: number; type: 'result'; result: unknown }
+    | { id: number; type: 'error'; message: string };
+
+const TASKS: { [K in WorkerTaskName]: (args: TaskArgs<K>) => TaskResult<K> } = {
+    reparse: ({ csv, dialect, rowPolicy, handle }) => storeDataset(handle, reparseCSV(csv, dialect, rowPolicy)),
+    keyIssueRows: ({ csv, issues }) => keyIssueRows(csv, issues),
+    upsertKeyIssues: ({ original, mods, options }) => findUpsertKeyIssues(original, mods, options),
+    upsertPreview: ({ original, mods, options }) => computeUpsertPreview(original, mods, options),
+    upsertRun: ({ original, mods, options }) => runUpsert(original, mods, options),
+    deletePreview: ({ original, ids, options }) => computeDeletePreview(original, ids, options),
+    deleteRun: ({ original, ids, options }) => runDelete(original, ids, options),
+    filterDeletePreview: ({ original, options }) => computeFilterDeletePreview(original, options),
+    filterDeleteRun: ({ original, options }) => runFilterDelete(original, options),
+    idsFromColumn: ({ csv, column, options }) => idsFromColumn(csv, column, options),
+    compareDiff: ({ base, compare, options }) => computeDiff(base, compare, options),
+    threeWayKeyIssues: ({ base, ours, theirs, options }) => findThreeWayKeyIssues(base, ours, theirs, options),
+    threeWayMerge: ({ base, ours, theirs, options }) => computeThreeWayMerge(base, ours, theirs, options),
+    threeWayResolve: ({ result, resolutions, ours, options }) => resolveThreeWayMerge(result, resolutions, ours, options),
+    validate: ({ csv, rules, keyColumn }) => validateDataset(csv.rows, rules, keyColumn),
+    validationRows: ({ csv, result, keyColumn }) => annotateRows(csv.rows, result, keyColumn),
+    cleanPreview: ({ csv, operations }) => previewCleaning(csv, operations),
+    cleanExport: ({ csv, operations, columns }) => exportCleaning(csv, operations, columns),
+    serializeExport: ({ source, options }) => options.format === 'xlsx' ? buildWorkbook(source) : serializeExport(source, options),
+};
+
+/**
+ * Read a dropped file: spreadsheets by sheet, JSON as flattened records, everything else as delimited text.
+ * An aborted `signal` stops reading between chunks.
+ */
+export function parseFile(file: File, options: FileReadOptions = {}, onProgress?: ProgressCallback, signal?: AbortSignal): Promise<ParsedCSV> {
+    if (isSpreadsheetFile(file.name)) return parseSpreadsheetFile(file, options, onProgress, signal);
+    if (isJsonFile(file.name)) return parseJsonFile(file, options, onProgress, signal);
+    return parseCSVFile(file, options, onProgress, signal);
+}
+
+// Datasets parsed by this worker, by handle
+const datasets = new Map<string, ParsedCSV>();
+
+function storeDataset(handle: string, csv: ParsedCSV): Dataset {
+    datasets.set(handle, csv);
+    return summarizeCSV(csv, handle);
+}
+
+/**
+ * Read a dropped file (see parseFile) and keep it under `handle`. Resolves to the page's summary.
+ */
+export async function loadFile(handle: string, file: File, options: FileReadOptions, onProgress?: ProgressCallback, signal?: AbortSignal): Promise<Dataset> {
+    const csv = await parseFile(file, options, onProgress, signal);
+    signal?.throwIfAborted();
+    return storeDataset(handle, csv);
+}
+
+export function releaseDataset(handle: string): void {
+    datasets.delete(handle);
+}
+
+function isDatasetRef(value: unknown): value is DatasetRef {
+    return typeof value === 'object' && value !== null && 'handle' in value && !('rows' in value);
+}
+
+/**
+ * Swap dataset references for the stored datasets (with the caller's current dialect and encoding).
+ */
+function resolveArgs(args: Record<string, unknown>): Record<string, unknown> {
+    const resolved: Record<string, unknown> = {};
+    for (const [name, value] of Object.entries(args)) {
+        if (isDatasetRef(value)) {
+            const stored = datasets.get(value.handle);
+            if (!stored) throw new Error(`Dataset ${value.name} is no longer loaded; please re-upload it`);
+            resolved[name] = { ...stored, dialect: value.dialect, encoding: value.encoding };
+        } else {
+            resolved[name] = value;
+        }
+    }
+    return resolved;
+}
+
+/**
+ * Run a registered task. Used by the worker, and directly on the main thread when workers are unavailable.
+ */
+export function runTask<K extends WorkerTaskName>(name: K, args: TaskArgs<K> | Record<string, unknown>): TaskResult<K> {
+    const task = TASKS[name] as (args: TaskArgs<K>) => TaskResult<K>;
+    return task(resolveArgs(args as Record<string, unknown>) as TaskArgs<K>);
+}
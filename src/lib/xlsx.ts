@@ -0,0 +1,93 @@
+/**
+ * Spreadsheet Utilities
+ * Reading .xlsx/.xls sheets into the ParsedCSV shape and writing results as workbooks
+ */
+
+import * as XLSX from 'xlsx';
+import { parseRecords } from './csv';
+import type { ParsedCSV, ProgressCallback, FileReadOptions } from './csv';
+import type { ExportSource } from './exportFormats';
+
+export const SPREADSHEET_EXTENSIONS = ['.xlsx', '.xlsm', '.xls'];
+
+const MAX_SHEET_NAME = 31;
+
+/**
+ * Whether a file should be read as a spreadsheet rather than delimited text.
+ */
+export function isSpreadsheetFile(name: string): boolean {
+    const lower = name.toLowerCase();
+    return SPREADSHEET_EXTENSIONS.some(ext => lower.endsWith(ext));
+}
+
+/**
+ * Read one sheet of a workbook. Cells are taken as displayed in Excel; rows above
+ * `options.headerRow` (a worksheet row number) are ignored and blank rows dropped.
+ */
+export async function parseSpreadsheetFile(file: File, options: FileReadOptions = {}, onProgress?: ProgressCallback, signal?: AbortSignal): Promise<ParsedCSV> {
+    onProgress?.({ phase: 'reading', loaded: 0, total: file.size });
+    const data = new Uint8Array(await file.arrayBuffer());
+    signal?.throwIfAborted();
+    onProgress?.({ phase: 'parsing', loaded: 0, total: 0 });
+
+    const workbook = XLSX.read(data, { type: 'array', dense: true });
+    const sheetNames = workbook.SheetNames;
+    const sheet = options.sheet && sheetNames.includes(options.sheet) ? options.sheet : sheetNames[0];
+    if (!sheet) throw new Error(`${file.name} contains no sheets`);
+
+    const worksheet = workbook.Sheets[sheet];
+    const range = worksheet['!ref'] ? XLSX.utils.decode_range(worksheet['!ref']) : null;
+    const firstRow = range ? range.s.r + 1 : 1;
+    const lastRow = range ? range.e.r + 1 : 1;
+    const headerRow = Math.min(Math.max(options.headerRow ?? firstRow, firstRow), lastRow);
+
+    const grid = XLSX.utils.sheet_to_json<string[]>(worksheet, { header: 1, raw: false, defval: '', blankrows: true });
+    const [header = [], ...body] = grid.slice(headerRow - firstRow);
+    const records = [header, ...body.filter(row => row.some(cell => cell !== ''))];
+
+    return {
+        ...parseRecords(records, file.name),
+        spreadsheet: { file, sheetNames, sheet, headerRow, firstRow, lastRow, readOptions: { fallbackEncoding: options.fallbackEncoding } }
+    };
+}
+
+/**
+ * Numbers that survive a round trip unchanged ("42", "-1.5") are written as numeric cells;
+ * anything else ("007", long IDs, dates) stays text so it is not altered by Excel.
+ */
+function cellValue(value: unknown): string | number {
+    const text = String(value ?? '');
+    if (text !== '' && /^-?\d+(\.\d+)?$/.test(text) && String(Number(text)) === text) {
+        return Number(text);
+    }
+    return text;
+}
+
+function sheetName(name: string, used: Set<string>): string {
+    const base = name.replace(/[[\]:*?/\\]/g, '_').slice(0, MAX_SHEET_NAME) || 'Sheet';
+    let candidate = base;
+    for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+        const suffix = ` (${n})`;
+        candidate = base.slice(0, MAX_SHEET_NAME - suffix.length) + suffix;
+    }
+    used.add(candidate.toLowerCase());
+    return candidate;
+}
+
+/**
+ * Write an export source as an .xlsx workbook: one sheet per entry in `source.sheets`,
+ * or a single sheet of the main rows. Column order is kept as given.
+ */
+export function buildWorkbook(source: ExportSource): Uint8Array {
+    const sheets = source.sheets ?? [{ name: 'Sheet1', headers: source.headers, rows: source.rows }];
+    const workbook = XLSX.utils.book_new();
+    const used = new Set<string>();
+
+    sheets.forEach(({ name, headers, rows }) => {
+        const aoa = [headers, ...rows.map(r => headers.map(h => cellValue(r[h])))];
+        XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(aoa), sheetName(name, used));
+    });
+
+    const buffer: ArrayBuffer = XLSX.write(workbook, { type: 'array', bookType: 'xlsx' });
+    return new Uint8Array(buffer);
+}